@@ -0,0 +1,15 @@
+const nextJest = require('next/jest');
+
+// Тесты компилируются тем же SWC, что и приложение, и получают переменные из .env
+const createJestConfig = nextJest({ dir: './' });
+
+/** @type {import('jest').Config} */
+const config = {
+  testEnvironment: 'node',
+  testMatch: ['<rootDir>/src/**/__tests__/**/*.test.ts'],
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1'
+  }
+};
+
+module.exports = createJestConfig(config);
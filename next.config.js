@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // src/instrumentation.ts проверяет конфигурацию ключей JWT при запуске
+    instrumentationHook: true
+  },
   compiler: {
     styledComponents: true
   },
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "VerificationCode" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "AuthThrottle" (
+    "id" SERIAL NOT NULL,
+    "key" TEXT NOT NULL,
+    "failures" INTEGER NOT NULL DEFAULT 0,
+    "locked_until" TIMESTAMP(3),
+    "last_failure" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuthThrottle_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuthThrottle_key_key" ON "AuthThrottle"("key");
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "PendingRegistration" (
+    "id" SERIAL NOT NULL,
+    "email" TEXT NOT NULL,
+    "username" TEXT NOT NULL,
+    "password_hash" TEXT NOT NULL,
+    "code_hash" TEXT,
+    "code_expires_at" TIMESTAMP(3),
+    "code_attempts" INTEGER NOT NULL DEFAULT 0,
+    "code_sent_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PendingRegistration_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PendingRegistration_email_key" ON "PendingRegistration"("email");
+
+-- CreateIndex
+CREATE INDEX "PendingRegistration_expires_at_idx" ON "PendingRegistration"("expires_at");
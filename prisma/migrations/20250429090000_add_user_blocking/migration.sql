@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "blocked_at" TIMESTAMP(3),
+ADD COLUMN     "blocked_by_id" INTEGER,
+ADD COLUMN     "blocked_reason" TEXT,
+ADD COLUMN     "blocked_until" TIMESTAMP(3),
+ADD COLUMN     "is_blocked" BOOLEAN NOT NULL DEFAULT false;
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_blocked_by_id_fkey" FOREIGN KEY ("blocked_by_id") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
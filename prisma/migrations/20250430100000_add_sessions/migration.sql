@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "Session" (
+    "id" TEXT NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "device" TEXT,
+    "user_agent" TEXT,
+    "ip" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revoked_at" TIMESTAMP(3),
+
+    CONSTRAINT "Session_pkey" PRIMARY KEY ("id")
+);
+
+-- Existing refresh token families become sessions
+INSERT INTO "Session" ("id", "user_id", "created_at", "last_seen_at", "revoked_at")
+SELECT "family_id", MIN("user_id"), MIN("created_at"), MAX("created_at"),
+       CASE WHEN BOOL_AND("revoked_at" IS NOT NULL) THEN MAX("revoked_at") END
+FROM "RefreshToken"
+GROUP BY "family_id";
+
+-- RenameColumn
+ALTER TABLE "RefreshToken" RENAME COLUMN "family_id" TO "session_id";
+
+-- RenameIndex
+ALTER INDEX "RefreshToken_family_id_idx" RENAME TO "RefreshToken_session_id_idx";
+
+-- CreateIndex
+CREATE INDEX "Session_user_id_idx" ON "Session"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "Session" ADD CONSTRAINT "Session_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RefreshToken" ADD CONSTRAINT "RefreshToken_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterEnum
+ALTER TYPE "UserRole" ADD VALUE 'MODERATOR';
+ALTER TYPE "UserRole" ADD VALUE 'EDITOR';
+ALTER TYPE "UserRole" ADD VALUE 'PARSER_OPERATOR';
@@ -0,0 +1,17 @@
+-- Коды прежней схемы регистрации больше не используются: регистрация идет через PendingRegistration
+DELETE FROM "VerificationCode";
+
+-- DropForeignKey
+ALTER TABLE "VerificationCode" DROP CONSTRAINT "VerificationCode_email_fkey";
+
+-- AlterTable
+ALTER TABLE "VerificationCode" DROP COLUMN "code",
+ADD COLUMN     "code_hash" TEXT NOT NULL,
+ADD COLUMN     "purpose" TEXT NOT NULL,
+ADD COLUMN     "user_id" INTEGER NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "VerificationCode_user_id_idx" ON "VerificationCode"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "VerificationCode" ADD CONSTRAINT "VerificationCode_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
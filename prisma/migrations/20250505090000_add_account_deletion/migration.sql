@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "deletion_scheduled_at" TIMESTAMP(3),
+ADD COLUMN     "deletion_token_hash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_deletion_token_hash_key" ON "User"("deletion_token_hash");
+
+-- DropForeignKey
+ALTER TABLE "ViewingHistory" DROP CONSTRAINT "ViewingHistory_user_id_fkey";
+
+-- AlterTable
+ALTER TABLE "ViewingHistory" ALTER COLUMN "user_id" DROP NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "ViewingHistory" ADD CONSTRAINT "ViewingHistory_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
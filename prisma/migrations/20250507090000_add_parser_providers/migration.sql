@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ParserSettings" ADD COLUMN     "enabledProviders" TEXT[] DEFAULT ARRAY['kinopoisk', 'omdb']::TEXT[];
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "ParserSettings" ADD COLUMN     "tmdbApiKey" TEXT NOT NULL DEFAULT '';
+
+-- AlterTable
+ALTER TABLE "Episode" ADD COLUMN     "still_url" TEXT;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "ParserStatusType" ADD VALUE 'cancelled';
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "ParserLease" (
+    "id" INTEGER NOT NULL DEFAULT 1,
+    "owner" TEXT NOT NULL,
+    "runId" INTEGER,
+    "acquiredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "heartbeatAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "cancelRequestedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ParserLease_pkey" PRIMARY KEY ("id")
+);
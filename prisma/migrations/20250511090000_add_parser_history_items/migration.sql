@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "ParserItemOutcome" AS ENUM ('created', 'updated', 'skipped', 'failed');
+
+-- AlterTable
+ALTER TABLE "ParserHistory" ADD COLUMN     "createdCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "updatedCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "skippedCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "failedCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "ParserHistoryItem" (
+    "id" SERIAL NOT NULL,
+    "runId" INTEGER NOT NULL,
+    "outcome" "ParserItemOutcome" NOT NULL,
+    "sourceType" TEXT NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "title" TEXT,
+    "mediaId" INTEGER,
+    "message" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ParserHistoryItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ParserHistoryItem_runId_outcome_idx" ON "ParserHistoryItem"("runId", "outcome");
+
+-- AddForeignKey
+ALTER TABLE "ParserHistoryItem" ADD CONSTRAINT "ParserHistoryItem_runId_fkey" FOREIGN KEY ("runId") REFERENCES "ParserHistory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
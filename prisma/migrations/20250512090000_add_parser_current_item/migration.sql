@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ParserStatus" ADD COLUMN     "currentItem" TEXT;
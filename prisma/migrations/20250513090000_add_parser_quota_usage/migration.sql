@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE "ParserQuotaUsage" (
+    "provider" TEXT NOT NULL,
+    "day" TIMESTAMP(3) NOT NULL,
+    "requests" INTEGER NOT NULL DEFAULT 0,
+    "throttled" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ParserQuotaUsage_pkey" PRIMARY KEY ("provider","day")
+);
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "ParserSettings" ADD COLUMN     "discoveryCountries" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "discoveryGenres" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "discoveryStrategies" TEXT[] DEFAULT ARRAY['popular']::TEXT[],
+ADD COLUMN     "discoveryYearFrom" INTEGER,
+ADD COLUMN     "discoveryYearTo" INTEGER;
+
+-- Админ-панель сохраняла типы контента как movies/series, парсер работает с MOVIE/SERIES
+UPDATE "ParserSettings"
+SET "contentTypes" = array_replace(array_replace("contentTypes", 'movies', 'MOVIE'), 'series', 'SERIES');
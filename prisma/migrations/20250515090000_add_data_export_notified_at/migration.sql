@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "DataExport" ADD COLUMN     "notified_at" TIMESTAMP(3);
+
+-- Письма о готовых до этой миграции архивах считаются отправленными, плановая задача их не повторяет
+UPDATE "DataExport" SET "notified_at" = "completed_at" WHERE "status" = 'READY';
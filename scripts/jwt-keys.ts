@@ -0,0 +1,72 @@
+import crypto from 'crypto';
+import { loadEnvConfig } from '@next/env';
+import { JwtKey, loadKeyRing, rotateKeyRing } from '../src/utils/jwtKeys';
+
+// Управление ключами подписи JWT:
+//   npm run jwt:keys -- list                      — ключи текущего окружения (без секретов)
+//   npm run jwt:keys -- generate                  — начальный JWT_KEYS с одним ключом
+//   npm run jwt:keys -- rotate [--retain-hours N] — новый активный ключ, прежний принимается еще N часов
+// Скрипт печатает новое значение JWT_KEYS; его нужно сохранить в окружении и перезапустить приложение.
+// Refresh-токены от ключей не зависят, поэтому ротация не завершает сессии пользователей
+
+const DEFAULT_RETAIN_HOURS = 24;
+
+const createKey = (): JwtKey => ({
+  kid: `${new Date().toISOString().slice(0, 10)}-${crypto.randomBytes(3).toString('hex')}`,
+  secret: crypto.randomBytes(48).toString('base64url')
+});
+
+const printKeyRing = (keys: JwtKey[]) => {
+  console.log(`JWT_KEYS='${JSON.stringify(keys)}'`);
+};
+
+const getRetainHours = (args: string[]): number => {
+  const index = args.indexOf('--retain-hours');
+  if (index === -1) {
+    return DEFAULT_RETAIN_HOURS;
+  }
+
+  const hours = Number(args[index + 1]);
+  if (!Number.isFinite(hours) || hours <= 0) {
+    throw new Error('--retain-hours должен быть положительным числом');
+  }
+  return hours;
+};
+
+const main = () => {
+  loadEnvConfig(process.cwd());
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case 'list': {
+      const ring = loadKeyRing(process.env, { allowShortLegacySecret: true });
+      ring.forEach((key, index) => {
+        const state = index === 0 ? 'активный' : `проверка до ${key.expiresAt || 'удаления из набора'}`;
+        console.log(`${key.kid}\t${state}`);
+      });
+      break;
+    }
+
+    case 'generate':
+      printKeyRing([createKey()]);
+      break;
+
+    case 'rotate': {
+      const retireAt = new Date(Date.now() + getRetainHours(args) * 60 * 60 * 1000);
+      const ring = rotateKeyRing(loadKeyRing(process.env, { allowShortLegacySecret: true }), createKey(), retireAt);
+      printKeyRing(ring);
+      break;
+    }
+
+    default:
+      console.error('Использование: jwt-keys <list|generate|rotate> [--retain-hours N]');
+      process.exit(1);
+  }
+};
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -1,6 +1,7 @@
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { useRouter } from 'next/router';
 import { useAuth } from '@/hooks/useAuth';
+import { apiFetch, hasSession } from '@/utils/apiFetch';
 import styled from 'styled-components';
 import AdminSidebar from './AdminSidebar';
 import AdminHeader from './AdminHeader';
@@ -31,7 +32,7 @@ interface AdminLayoutProps {
 
 const AdminLayout: React.FC<AdminLayoutProps> = ({ children }) => {
   const router = useRouter();
-  const { logout, isAuthenticated, isAdmin, isLoading } = useAuth();
+  const { logout, isAuthenticated, hasAdminAccess, isLoading } = useAuth();
   const [isAuthorized, setIsAuthorized] = useState(false);
   const [isNavigating, setIsNavigating] = useState(false);
   const [stats, setStats] = useState({
@@ -104,8 +105,7 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children }) => {
     const checkAuth = async () => {
       if (isLoading) return;
 
-      const token = localStorage.getItem('token');
-      if (!token || !isAuthenticated || !isAdmin) {
+      if (!hasSession() || !isAuthenticated || !hasAdminAccess) {
         if (isMounted) {
           setIsAuthorized(false);
           const currentPath = router.pathname;
@@ -127,7 +127,7 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children }) => {
     return () => {
       isMounted = false;
     };
-  }, [isAuthenticated, isAdmin, isLoading, router.pathname]);
+  }, [isAuthenticated, hasAdminAccess, isLoading, router.pathname]);
 
   const fetchStats = useCallback(async () => {
     try {
@@ -140,11 +140,7 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children }) => {
         return;
       }
 
-      const response = await fetch('/api/admin/stats', {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`,
-        }
-      });
+      const response = await apiFetch('/api/admin/stats');
       if (response.ok) {
         const data = await response.json();
         setStats(data);
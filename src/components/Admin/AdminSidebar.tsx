@@ -3,6 +3,8 @@ import { useRouter } from 'next/router';
 import styled from 'styled-components';
 import { motion } from 'framer-motion';
 import { FiHome, FiSettings, FiUsers, FiDatabase, FiLogOut } from 'react-icons/fi';
+import { useAuth } from '@/hooks/useAuth';
+import { Permission } from '@/utils/permissions';
 
 const SidebarContainer = styled(motion.div)`
   width: 280px;
@@ -89,12 +91,13 @@ interface AdminSidebarProps {
 const AdminSidebar: React.FC<AdminSidebarProps> = ({ onLogout }) => {
   const router = useRouter();
   const currentPath = router.pathname;
+  const { can } = useAuth();
 
-  const navigationItems = [
-    { title: 'Обзор', path: '/admin', icon: <FiHome /> },
-    { title: 'Пользователи', path: '/admin/users', icon: <FiUsers /> },
-    { title: 'Парсер', path: '/admin/parser', icon: <FiDatabase /> },
-    { title: 'Настройки', path: '/admin/settings', icon: <FiSettings /> },
+  const navigationItems: Array<{ title: string; path: string; icon: React.ReactNode; permission: Permission }> = [
+    { title: 'Обзор', path: '/admin', icon: <FiHome />, permission: 'admin:access' },
+    { title: 'Пользователи', path: '/admin/users', icon: <FiUsers />, permission: 'users:view' },
+    { title: 'Парсер', path: '/admin/parser', icon: <FiDatabase />, permission: 'parser:view' },
+    { title: 'Настройки', path: '/admin/settings', icon: <FiSettings />, permission: 'parser:settings' },
   ];
 
   return (
@@ -107,7 +110,7 @@ const AdminSidebar: React.FC<AdminSidebarProps> = ({ onLogout }) => {
         <FiDatabase /> Админ панель
       </Logo>
       <NavGroup>
-        {navigationItems.map((item) => (
+        {navigationItems.filter(item => can(item.permission)).map((item) => (
           <NavItem
             key={item.path}
             $active={currentPath === item.path}
@@ -1,6 +1,8 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useCallback } from 'react';
 import { Box, Button, Tab, Tabs, Typography, Paper, CircularProgress, List, ListItem, ListItemText } from '@mui/material';
 import { styled } from '@mui/material/styles';
+import { apiFetch } from '@/utils/apiFetch';
+import { useParserEvents } from '@/hooks/useParserEvents';
 
 const ParserContainer = styled(Box)(({ theme }) => ({
   padding: theme.spacing(3),
@@ -16,40 +18,15 @@ const LogItem = styled(ListItem)(({ theme }) => ({
   }
 }));
 
-interface ParserLog {
-  id: number;
-  message: string;
-  error: string;
-  timestamp: string;
-}
-
-interface ParserStatus {
-  status: 'active' | 'inactive' | 'error';
-  lastRun?: Date;
-  processedItems: number;
-  errors: string[];
-}
-
-interface ParserSettings {
-  kinopoiskApiKey: string;
-  omdbApiKey: string;
-  updateInterval: number;
-  autoUpdate: boolean;
-  contentTypes: string[];
-}
-
 interface ParserProps {
   onError?: (error: string) => void;
 }
 
 const Parser: React.FC<ParserProps> = ({ onError }) => {
   const [activeTab, setActiveTab] = useState(0);
-  const [status, setStatus] = useState<ParserStatus | null>(null);
-  const [settings, setSettings] = useState<ParserSettings | null>(null);
-  const [logs, setLogs] = useState<ParserLog[]>([]);
-  const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [lastUpdate, setLastUpdate] = useState<number>(Date.now());
+  // Статус и журнал приходят из потока событий парсера
+  const { status, logs } = useParserEvents();
 
   const handleError = useCallback((message: string) => {
     setError(message);
@@ -57,117 +34,33 @@ const Parser: React.FC<ParserProps> = ({ onError }) => {
     setTimeout(() => setError(null), 5000);
   }, [onError]);
 
-  const fetchData = useCallback(async (endpoint: string, signal: AbortSignal) => {
-    const token = localStorage.getItem('token');
-    if (!token) throw new Error('Токен авторизации не найден');
-
-    const response = await fetch(endpoint, {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Cache-Control': 'no-cache',
-        'Pragma': 'no-cache'
-      },
-      signal
-    });
-
-    if (!response.ok) {
-      if (response.status === 503) throw new Error('Сервис временно недоступен');
-      const data = await response.json();
-      throw new Error(data.error || 'Ошибка при загрузке данных');
-    }
-
-    return response.json();
-  }, []);
-
-  const updateParserStatus = useCallback(async () => {
-    const now = Date.now();
-    if (now - lastUpdate < 3000) return; // Добавляем debounce
-    
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 15000);
-
-    try {
-      const data = await fetchData('/api/admin/parser', controller.signal);
-      setStatus(data.status);
-      setSettings(data.settings);
-      setError(null);
-      setLastUpdate(now);
-
-      if (activeTab === 1) {
-        const logsData = await fetchData('/api/admin/parser/logs', controller.signal);
-        setLogs(logsData);
-      }
-    } catch (err) {
-      if (err instanceof Error && err.name !== 'AbortError') {
-        handleError(err.message);
-      }
-    } finally {
-      setLoading(false);
-      clearTimeout(timeoutId);
-    }
-  }, [activeTab, fetchData, handleError, lastUpdate]);
-
   const startParser = useCallback(async () => {
     try {
-      const token = localStorage.getItem('token');
-      const response = await fetch('/api/admin/parser?action=start', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          kinopoiskApiKey: settings?.kinopoiskApiKey,
-          omdbApiKey: settings?.omdbApiKey
-        })
+      const response = await apiFetch('/api/admin/parser?action=start', {
+        method: 'POST'
       });
 
       const data = await response.json();
       if (!response.ok) throw new Error(data.error);
-      
-      await updateParserStatus();
     } catch (err) {
       handleError(err instanceof Error ? err.message : 'Ошибка при запуске парсера');
     }
-  }, [settings, updateParserStatus, handleError]);
+  }, [handleError]);
 
   const stopParser = useCallback(async () => {
     try {
-      const token = localStorage.getItem('token');
-      const response = await fetch('/api/admin/parser?action=stop', {
+      const response = await apiFetch('/api/admin/parser?action=stop', {
         method: 'POST',
-        headers: { 'Authorization': `Bearer ${token}` }
       });
 
       const data = await response.json();
       if (!response.ok) throw new Error(data.error);
-      
-      await updateParserStatus();
     } catch (err) {
       handleError(err instanceof Error ? err.message : 'Ошибка при остановке парсера');
     }
-  }, [updateParserStatus, handleError]);
-
-  useEffect(() => {
-    let isSubscribed = true;
-    const controller = new AbortController();
-
-    const loadData = async () => {
-      if (!isSubscribed) return;
-      await updateParserStatus();
-    };
-
-    loadData();
-    const interval = setInterval(loadData, status?.status === 'active' ? 10000 : 30000); // Увеличиваем интервалы
+  }, [handleError]);
 
-    return () => {
-      isSubscribed = false;
-      controller.abort();
-      clearInterval(interval);
-    };
-  }, [status?.status, updateParserStatus]);
-
-  if (loading) {
+  if (!status) {
     return (
       <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
         <CircularProgress />
@@ -194,7 +87,7 @@ const Parser: React.FC<ParserProps> = ({ onError }) => {
           <Typography variant="h6" gutterBottom>Текущий статус</Typography>
           <Box my={2}>
             <Typography>
-              Статус: {status?.status === 'active' ? 'Активен' : status?.status === 'error' ? 'Ошибка' : 'Неактивен'}
+              Статус: {status?.status === 'active' ? 'Активен' : status?.status === 'error' ? 'Ошибка' : status?.status === 'cancelled' ? 'Остановлен' : 'Неактивен'}
             </Typography>
             {status?.lastRun && (
               <Typography>
@@ -204,6 +97,17 @@ const Parser: React.FC<ParserProps> = ({ onError }) => {
             <Typography>
               Обработано элементов: {status?.processedItems || 0}
             </Typography>
+            {status?.status === 'active' && status.currentItem && (
+              <Typography>
+                Сейчас обрабатывается: {status.currentItem}
+              </Typography>
+            )}
+            {status?.run && (
+              <Typography>
+                Запуск #{status.run.id}: добавлено {status.run.createdCount}, обновлено {status.run.updatedCount},
+                пропущено {status.run.skippedCount}, ошибок {status.run.failedCount}
+              </Typography>
+            )}
           </Box>
           <Box mt={3}>
             <Button
@@ -1,7 +1,8 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { Box, Paper, Typography, List, ListItem, ListItemText, CircularProgress, IconButton, Dialog, DialogTitle, DialogContent, DialogActions, Button, TextField } from '@mui/material';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Box, Paper, Typography, List, ListItem, ListItemButton, ListItemText, CircularProgress, IconButton, Dialog, DialogTitle, DialogContent, DialogActions, Button, TextField, Chip } from '@mui/material';
 import { styled } from '@mui/material/styles';
-import { FiEdit2, FiTrash2, FiChevronLeft, FiChevronRight } from 'react-icons/fi';
+import { FiChevronLeft, FiChevronRight } from 'react-icons/fi';
+import { apiFetch, hasSession } from '@/utils/apiFetch';
 
 const HistoryContainer = styled(Paper)(({ theme }) => ({
   padding: theme.spacing(2),
@@ -12,10 +13,14 @@ const HistoryItem = styled(ListItem)(({ theme }) => ({
   borderBottom: `1px solid ${theme.palette.divider}`,
   '&:last-child': {
     borderBottom: 'none'
-  },
+  }
+}));
+
+const Counters = styled(Box)(({ theme }) => ({
   display: 'flex',
-  justifyContent: 'space-between',
-  alignItems: 'flex-start'
+  flexWrap: 'wrap',
+  gap: theme.spacing(1),
+  marginTop: theme.spacing(1)
 }));
 
 const PaginationContainer = styled(Box)(({ theme }) => ({
@@ -26,137 +31,163 @@ const PaginationContainer = styled(Box)(({ theme }) => ({
   marginTop: theme.spacing(2)
 }));
 
-interface ContentItem {
-  id: string;
-  title: string;
-  type: 'movie' | 'series';
-  posterUrl: string;
-  addedAt: string;
+type RunStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+type ItemOutcome = 'created' | 'updated' | 'skipped' | 'failed';
+
+interface ParserRun {
+  id: number;
   source: string;
+  status: RunStatus;
+  startTime: string;
+  endTime: string | null;
+  itemsProcessed: number;
+  createdCount: number;
+  updatedCount: number;
+  skippedCount: number;
+  failedCount: number;
+  errors: string[];
 }
 
-interface ParserHistoryProps {
-  onUpdateContent: (id: string, data: Partial<ContentItem>) => Promise<void>;
-  onDeleteContent: (id: string) => Promise<void>;
+interface ParserRunItem {
+  id: number;
+  outcome: ItemOutcome;
+  sourceType: string;
+  sourceId: string;
+  title: string | null;
+  mediaId: number | null;
+  message: string | null;
+  createdAt: string;
 }
 
-const ParserHistory: React.FC<ParserHistoryProps> = ({
-  onUpdateContent,
-  onDeleteContent,
-}) => {
-  const [content, setContent] = useState<ContentItem[]>([]);
+interface ParserRunDetails {
+  run: ParserRun;
+  items: ParserRunItem[];
+  page: number;
+  totalPages: number;
+}
+
+const RUN_SOURCES: Record<string, string> = {
+  manual: 'Вручную',
+  schedule: 'По расписанию'
+};
+
+const RUN_STATUSES: Record<RunStatus, { label: string; color: 'info' | 'success' | 'error' | 'default' }> = {
+  running: { label: 'Выполняется', color: 'info' },
+  completed: { label: 'Завершен', color: 'success' },
+  failed: { label: 'Ошибка', color: 'error' },
+  cancelled: { label: 'Остановлен', color: 'default' }
+};
+
+const OUTCOMES: Record<ItemOutcome, { label: string; color: 'success' | 'info' | 'default' | 'error' }> = {
+  created: { label: 'Добавлен', color: 'success' },
+  updated: { label: 'Обновлен', color: 'info' },
+  skipped: { label: 'Пропущен', color: 'default' },
+  failed: { label: 'Ошибка', color: 'error' }
+};
+
+const RunCounters: React.FC<{ run: ParserRun }> = ({ run }) => (
+  <Counters>
+    <Chip size="small" color="success" label={`Добавлено: ${run.createdCount}`} />
+    <Chip size="small" color="info" label={`Обновлено: ${run.updatedCount}`} />
+    <Chip size="small" label={`Пропущено: ${run.skippedCount}`} />
+    <Chip size="small" color="error" label={`Ошибок: ${run.failedCount}`} />
+  </Counters>
+);
+
+const formatDuration = (run: ParserRun): string => {
+  if (!run.endTime) return '';
+  const seconds = Math.round((new Date(run.endTime).getTime() - new Date(run.startTime).getTime()) / 1000);
+  return ` | ${Math.floor(seconds / 60)} мин ${seconds % 60} с`;
+};
+
+const ParserHistory: React.FC = () => {
+  const [runs, setRuns] = useState<ParserRun[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [currentPage, setCurrentPage] = useState(1);
-  const [editItem, setEditItem] = useState<ContentItem | null>(null);
-  const [editFormData, setEditFormData] = useState<Partial<ContentItem>>({});
-  const [lastUpdate, setLastUpdate] = useState<number>(Date.now());
-  const itemsPerPage = 20;
-
-  const totalPages = useMemo(() => Math.ceil(content.length / itemsPerPage), [content.length]);
-  
-  const currentItems = useMemo(() => {
-    const startIndex = (currentPage - 1) * itemsPerPage;
-    return content.slice(startIndex, startIndex + itemsPerPage);
-  }, [content, currentPage]);
+  const [selectedRunId, setSelectedRunId] = useState<number | null>(null);
+  const [details, setDetails] = useState<ParserRunDetails | null>(null);
+  const [detailsLoading, setDetailsLoading] = useState(false);
+  const [outcome, setOutcome] = useState<ItemOutcome | ''>('');
+  const [page, setPage] = useState(1);
 
   const fetchHistory = useCallback(async () => {
-    if (loading) return;
-    
-    const now = Date.now();
-    if (now - lastUpdate < 5000) return; // Добавляем debounce
-    
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 15000);
-
     try {
       setLoading(true);
       setError(null);
 
-      const token = localStorage.getItem('token');
-      if (!token) throw new Error('Токен авторизации не найден');
+      if (!hasSession()) throw new Error('Требуется авторизация');
 
-      const response = await fetch('/api/admin/parser/history', {
+      const response = await apiFetch('/api/admin/parser/history', {
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Cache-Control': 'no-cache'
-        },
-        signal: controller.signal
+        }
       });
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.message || 'Ошибка при загрузке истории');
+        throw new Error(errorData.error || 'Ошибка при загрузке истории');
       }
 
-      const data = await response.json();
-      setContent(data);
-      setLastUpdate(now);
+      setRuns(await response.json());
     } catch (err) {
-      if (err instanceof Error && err.name !== 'AbortError') {
+      if (err instanceof Error) {
         setError(err.message);
       }
     } finally {
       setLoading(false);
-      clearTimeout(timeoutId);
-      controller.abort();
     }
-  }, [loading, lastUpdate]);
-
-  useEffect(() => {
-    let isSubscribed = true;
-    const intervalId = setInterval(() => {
-      if (isSubscribed) fetchHistory();
-    }, 60000); // Увеличиваем интервал обновления до 1 минуты
+  }, []);
 
-    fetchHistory();
-
-    return () => {
-      isSubscribed = false;
-      clearInterval(intervalId);
-    };
-  }, [fetchHistory]);
+  const fetchRun = useCallback(async (runId: number, runOutcome: ItemOutcome | '', runPage: number) => {
+    try {
+      setDetailsLoading(true);
+      setError(null);
 
-  const handleEdit = (item: ContentItem) => {
-    setEditItem(item);
-    setEditFormData({
-      title: item.title,
-      type: item.type,
-      source: item.source
-    });
-  };
+      const params = new URLSearchParams({ page: String(runPage) });
+      if (runOutcome) params.set('outcome', runOutcome);
 
-  const handleEditSubmit = async () => {
-    if (!editItem || !editFormData) return;
+      const response = await apiFetch(`/api/admin/parser/history/${runId}?${params}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Ошибка при загрузке запуска');
+      }
 
-    try {
-      await onUpdateContent(editItem.id, editFormData);
-      setContent(prevContent =>
-        prevContent.map(item =>
-          item.id === editItem.id ? { ...item, ...editFormData } : item
-        )
-      );
-      setEditItem(null);
-      setEditFormData({});
+      setDetails(await response.json());
     } catch (err) {
       if (err instanceof Error) {
         setError(err.message);
       }
+    } finally {
+      setDetailsLoading(false);
     }
-  };
+  }, []);
 
-  const handleDelete = async (id: string) => {
-    try {
-      await onDeleteContent(id);
-      setContent(prevContent => prevContent.filter(item => item.id !== id));
-    } catch (err) {
-      if (err instanceof Error) {
-        setError(err.message);
-      }
+  useEffect(() => {
+    const intervalId = setInterval(fetchHistory, 60000);
+    fetchHistory();
+
+    return () => clearInterval(intervalId);
+  }, [fetchHistory]);
+
+  useEffect(() => {
+    if (selectedRunId !== null) {
+      fetchRun(selectedRunId, outcome, page);
     }
+  }, [selectedRunId, outcome, page, fetchRun]);
+
+  const openRun = (runId: number) => {
+    setDetails(null);
+    setOutcome('');
+    setPage(1);
+    setSelectedRunId(runId);
   };
 
-  if (loading && !content.length) {
+  const closeRun = () => {
+    setSelectedRunId(null);
+    setDetails(null);
+  };
+
+  if (loading && !runs.length) {
     return (
       <Box display="flex" justifyContent="center" alignItems="center" p={3}>
         <CircularProgress />
@@ -167,98 +198,135 @@ const ParserHistory: React.FC<ParserHistoryProps> = ({
   return (
     <HistoryContainer>
       <Typography variant="h6" gutterBottom>
-        История парсера
+        История запусков парсера
       </Typography>
       {error && (
         <Typography color="error" gutterBottom>
           {error}
         </Typography>
       )}
+      {!runs.length && !error && (
+        <Typography color="textSecondary">Парсер еще не запускался</Typography>
+      )}
       <List>
-        {currentItems.map((item) => (
-          <HistoryItem key={item.id}>
-            <ListItemText
-              primary={item.title}
-              secondary={
-                <>
-                  <Typography variant="body2" color="textSecondary">
-                    {item.type} | {item.source}
-                  </Typography>
-                  <Typography variant="caption" color="textSecondary">
-                    {new Date(item.addedAt).toLocaleString()}
-                  </Typography>
-                </>
-              }
-            />
-            <Box>
-              <IconButton size="small" onClick={() => handleEdit(item)}>
-                <FiEdit2 />
-              </IconButton>
-              <IconButton size="small" onClick={() => handleDelete(item.id)}>
-                <FiTrash2 />
-              </IconButton>
-            </Box>
+        {runs.map((run) => (
+          <HistoryItem key={run.id} disablePadding>
+            <ListItemButton onClick={() => openRun(run.id)}>
+              <ListItemText
+                primary={
+                  <Box display="flex" alignItems="center" gap={1}>
+                    <span>Запуск #{run.id}</span>
+                    <Chip size="small" color={RUN_STATUSES[run.status]?.color || 'default'} label={RUN_STATUSES[run.status]?.label || run.status} />
+                  </Box>
+                }
+                secondary={
+                  <>
+                    <Typography variant="body2" color="textSecondary" component="span">
+                      {RUN_SOURCES[run.source] || run.source} | {new Date(run.startTime).toLocaleString()}{formatDuration(run)}
+                    </Typography>
+                    <RunCounters run={run} />
+                  </>
+                }
+                secondaryTypographyProps={{ component: 'div' }}
+              />
+            </ListItemButton>
           </HistoryItem>
         ))}
       </List>
 
-      <PaginationContainer>
-        <IconButton
-          onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
-          disabled={currentPage === 1}
-        >
-          <FiChevronLeft />
-        </IconButton>
-        <Typography>
-          Страница {currentPage} из {totalPages}
-        </Typography>
-        <IconButton
-          onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
-          disabled={currentPage === totalPages}
-        >
-          <FiChevronRight />
-        </IconButton>
-      </PaginationContainer>
-
-      <Dialog open={!!editItem} onClose={() => setEditItem(null)}>
-        <DialogTitle>Редактировать элемент</DialogTitle>
+      <Dialog open={selectedRunId !== null} onClose={closeRun} maxWidth="md" fullWidth>
+        <DialogTitle>Запуск #{selectedRunId}</DialogTitle>
         <DialogContent>
+          {details && (
+            <>
+              <Typography variant="body2" color="textSecondary">
+                {RUN_SOURCES[details.run.source] || details.run.source} | {new Date(details.run.startTime).toLocaleString()}
+                {details.run.endTime ? ` — ${new Date(details.run.endTime).toLocaleString()}` : ''}
+              </Typography>
+              <RunCounters run={details.run} />
+              {details.run.errors.map((runError) => (
+                <Typography key={runError} color="error" variant="body2" mt={1}>
+                  {runError}
+                </Typography>
+              ))}
+            </>
+          )}
           <TextField
-            fullWidth
-            label="Название"
-            value={editFormData.title || ''}
-            onChange={(e) => setEditFormData(prev => ({ ...prev, title: e.target.value }))}
-            margin="normal"
-          />
-          <TextField
-            fullWidth
-            label="Тип"
-            value={editFormData.type || ''}
-            onChange={(e) => setEditFormData(prev => ({ ...prev, type: e.target.value as 'movie' | 'series' }))}
+            label="Итог"
+            value={outcome}
+            onChange={(e) => {
+              setOutcome(e.target.value as ItemOutcome | '');
+              setPage(1);
+            }}
             margin="normal"
+            size="small"
             select
             SelectProps={{ native: true }}
           >
-            <option value="movie">Фильм</option>
-            <option value="series">Сериал</option>
+            <option value="">Все</option>
+            {(Object.keys(OUTCOMES) as ItemOutcome[]).map((value) => (
+              <option key={value} value={value}>{OUTCOMES[value].label}</option>
+            ))}
           </TextField>
-          <TextField
-            fullWidth
-            label="Источник"
-            value={editFormData.source || ''}
-            onChange={(e) => setEditFormData(prev => ({ ...prev, source: e.target.value }))}
-            margin="normal"
-          />
+          {detailsLoading && !details ? (
+            <Box display="flex" justifyContent="center" p={3}>
+              <CircularProgress />
+            </Box>
+          ) : (
+            <List dense>
+              {details?.items.map((item) => (
+                <HistoryItem key={item.id}>
+                  <ListItemText
+                    primary={
+                      <Box display="flex" alignItems="center" gap={1}>
+                        <Chip size="small" color={OUTCOMES[item.outcome].color} label={OUTCOMES[item.outcome].label} />
+                        <span>{item.title || item.sourceId}</span>
+                      </Box>
+                    }
+                    secondary={
+                      <>
+                        <Typography variant="caption" color="textSecondary" component="span">
+                          {item.sourceType}: {item.sourceId}{item.mediaId ? ` | ID в каталоге: ${item.mediaId}` : ''}
+                        </Typography>
+                        {item.message && (
+                          <Typography variant="body2" color={item.outcome === 'failed' ? 'error' : 'textSecondary'}>
+                            {item.message}
+                          </Typography>
+                        )}
+                      </>
+                    }
+                    secondaryTypographyProps={{ component: 'div' }}
+                  />
+                </HistoryItem>
+              ))}
+              {details && !details.items.length && (
+                <Typography color="textSecondary">Нет обработанных тайтлов</Typography>
+              )}
+            </List>
+          )}
+          {details && details.totalPages > 1 && (
+            <PaginationContainer>
+              <IconButton onClick={() => setPage(prev => Math.max(1, prev - 1))} disabled={page === 1}>
+                <FiChevronLeft />
+              </IconButton>
+              <Typography>
+                Страница {page} из {details.totalPages}
+              </Typography>
+              <IconButton
+                onClick={() => setPage(prev => Math.min(details.totalPages, prev + 1))}
+                disabled={page === details.totalPages}
+              >
+                <FiChevronRight />
+              </IconButton>
+            </PaginationContainer>
+          )}
         </DialogContent>
         <DialogActions>
-          <Button onClick={() => setEditItem(null)}>Отмена</Button>
-          <Button onClick={handleEditSubmit} color="primary">
-            Сохранить
-          </Button>
+          <Button onClick={closeRun}>Закрыть</Button>
         </DialogActions>
       </Dialog>
     </HistoryContainer>
   );
 };
 
-export default ParserHistory;
\ No newline at end of file
+export default ParserHistory;
@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import styled from 'styled-components';
 import { useRouter } from 'next/router';
 import { motion } from 'framer-motion';
-import { useAuth } from '../../hooks/useAuth';
+import { useAuth, TwoFactorChallenge } from '../../hooks/useAuth';
 
 const AuthContainer = styled(motion.div)`
   max-width: 400px;
@@ -97,6 +97,28 @@ const ToggleAuthMode = styled.button`
   }
 `;
 
+const SetupHint = styled.p`
+  color: ${({ theme }) => theme.colors.textSecondary};
+  font-size: ${({ theme }) => theme.typography.fontSize.sm};
+  margin: 0;
+  word-break: break-all;
+`;
+
+const SecretLink = styled.a`
+  color: ${({ theme }) => theme.colors.primary};
+`;
+
+const BackupCodeList = styled.ul`
+  display: grid;
+  grid-template-columns: repeat(2, 1fr);
+  gap: ${({ theme }) => theme.spacing.sm};
+  list-style: none;
+  margin: 0;
+  padding: 0;
+  font-family: monospace;
+  text-align: center;
+`;
+
 interface AuthFormProps {
   onSuccess?: () => void;
 }
@@ -105,7 +127,10 @@ const AuthForm: React.FC<AuthFormProps> = ({ onSuccess }) => {
   const router = useRouter();
   const auth = useAuth();
   const [isLogin, setIsLogin] = useState(true);
-  const [step, setStep] = useState<'auth' | 'verify'>('auth');
+  const [step, setStep] = useState<'auth' | 'verify' | 'twoFactor' | 'backupCodes'>('auth');
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [backupCodes, setBackupCodes] = useState<string[]>([]);
   const [formData, setFormData] = useState({
     email: '',
     password: '',
@@ -129,7 +154,13 @@ const AuthForm: React.FC<AuthFormProps> = ({ onSuccess }) => {
 
     try {
       if (isLogin) {
-        const { success, error } = await auth.login(formData.email, formData.password);
+        const { success, error, challenge } = await auth.login(formData.email, formData.password);
+        if (challenge) {
+          setChallenge(challenge);
+          setTwoFactorCode('');
+          setStep('twoFactor');
+          return;
+        }
         if (!success) {
           throw new Error(error || 'Ошибка при авторизации');
         }
@@ -163,6 +194,43 @@ const AuthForm: React.FC<AuthFormProps> = ({ onSuccess }) => {
     }
   };
 
+  const handleTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challenge) return;
+    setError('');
+    setLoading(true);
+
+    try {
+      const { success, error, backupCodes } = await auth.login(formData.email, formData.password, {
+        challengeToken: challenge.challengeToken,
+        code: twoFactorCode
+      });
+      if (!success) {
+        throw new Error(error || 'Ошибка при проверке кода');
+      }
+      if (backupCodes) {
+        setBackupCodes(backupCodes);
+        setStep('backupCodes');
+        return;
+      }
+      if (onSuccess) {
+        onSuccess();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Ошибка при проверке кода');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const finishAfterBackupCodes = () => {
+    if (onSuccess) {
+      onSuccess();
+    } else {
+      router.push('/');
+    }
+  };
+
   const handleVerify = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -184,7 +252,6 @@ const AuthForm: React.FC<AuthFormProps> = ({ onSuccess }) => {
         throw new Error(data.error);
       }
 
-      localStorage.setItem('token', data.token);
       setSuccess('Email подтвержден! Перенаправляем...');
       
       if (onSuccess) {
@@ -199,11 +266,45 @@ const AuthForm: React.FC<AuthFormProps> = ({ onSuccess }) => {
     }
   };
 
+  const handleResendCode = async () => {
+    setError('');
+    setSuccess('');
+    setLoading(true);
+
+    try {
+      const res = await fetch('/api/auth/resend-code', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: formData.email }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error);
+      }
+
+      setSuccess('Новый код отправлен на ваш email');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Ошибка при отправке кода');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const toggleAuthMode = () => {
     setIsLogin(!isLogin);
     setError('');
     setSuccess('');
     setStep('auth');
+    setChallenge(null);
+  };
+
+  const titles = {
+    auth: isLogin ? 'Вход в систему' : 'Регистрация',
+    verify: 'Подтверждение email',
+    twoFactor: 'Двухфакторная аутентификация',
+    backupCodes: 'Резервные коды'
   };
 
   return (
@@ -213,7 +314,7 @@ const AuthForm: React.FC<AuthFormProps> = ({ onSuccess }) => {
       transition={{ duration: 0.4 }}
     >
       <Title>
-        {step === 'auth' ? (isLogin ? 'Вход в систему' : 'Регистрация') : 'Подтверждение email'}
+        {titles[step]}
       </Title>
 
       {error && <ErrorMessage>{error}</ErrorMessage>}
@@ -266,7 +367,67 @@ const AuthForm: React.FC<AuthFormProps> = ({ onSuccess }) => {
           <ToggleAuthMode onClick={toggleAuthMode}>
             {isLogin ? 'Создать аккаунт' : 'Уже есть аккаунт? Войти'}
           </ToggleAuthMode>
+          {isLogin && (
+            <ToggleAuthMode onClick={() => router.push('/auth/reset')}>
+              Забыли пароль?
+            </ToggleAuthMode>
+          )}
         </>
+      ) : step === 'twoFactor' ? (
+        <Form onSubmit={handleTwoFactor}>
+          {challenge?.setupRequired ? (
+            <>
+              <SetupHint>
+                Для вашей учетной записи обязательна двухфакторная аутентификация.
+                Добавьте ключ в приложение-аутентификатор
+                {challenge.otpauthUrl && <> (<SecretLink href={challenge.otpauthUrl}>открыть в приложении</SecretLink>)</>}
+                {' '}и введите код из него.
+              </SetupHint>
+              <SetupHint>Ключ: {challenge.secret}</SetupHint>
+            </>
+          ) : (
+            <SetupHint>Введите код из приложения-аутентификатора или один из резервных кодов.</SetupHint>
+          )}
+          <Input
+            type="text"
+            id="twoFactorCode"
+            name="twoFactorCode"
+            placeholder="Код"
+            value={twoFactorCode}
+            onChange={(e) => setTwoFactorCode(e.target.value)}
+            maxLength={11}
+            required
+            autoComplete="one-time-code"
+          />
+          <Button
+            type="submit"
+            disabled={loading}
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+          >
+            {loading ? 'Проверка...' : 'Подтвердить'}
+          </Button>
+          <ToggleAuthMode type="button" onClick={() => setStep('auth')} disabled={loading}>
+            Назад
+          </ToggleAuthMode>
+        </Form>
+      ) : step === 'backupCodes' ? (
+        <Form onSubmit={(e) => { e.preventDefault(); finishAfterBackupCodes(); }}>
+          <SetupHint>
+            Сохраните резервные коды в надежном месте. Каждый код можно использовать для входа один раз,
+            если приложение-аутентификатор недоступно. Больше они показаны не будут.
+          </SetupHint>
+          <BackupCodeList>
+            {backupCodes.map(code => <li key={code}>{code}</li>)}
+          </BackupCodeList>
+          <Button
+            type="submit"
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+          >
+            Я сохранил коды
+          </Button>
+        </Form>
       ) : (
         <Form onSubmit={handleVerify}>
           <Input
@@ -276,7 +437,7 @@ const AuthForm: React.FC<AuthFormProps> = ({ onSuccess }) => {
             placeholder="Введите код подтверждения"
             value={verificationCode}
             onChange={(e) => setVerificationCode(e.target.value)}
-            maxLength={4}
+            maxLength={6}
             required
             autoComplete="one-time-code"
           />
@@ -288,6 +449,9 @@ const AuthForm: React.FC<AuthFormProps> = ({ onSuccess }) => {
           >
             {loading ? 'Проверка...' : 'Подтвердить'}
           </Button>
+          <ToggleAuthMode type="button" onClick={handleResendCode} disabled={loading}>
+            Отправить код повторно
+          </ToggleAuthMode>
         </Form>
       )}
     </AuthContainer>
@@ -143,13 +143,13 @@ const UserMenu = styled.div`
 
 const Header: React.FC = () => {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
-  const { isAuthenticated, user, logout } = useAuth();
+  const { isAuthenticated, user, hasAdminAccess, logout } = useAuth();
 
   const navLinks = [
     { href: '/', label: 'Главная' },
     { href: '/catalog', label: 'Каталог' },
     { href: '/recommendations', label: 'Рекомендации' },
-    ...(user?.email === 'ivan.vergeichik@mail.ru' ? [{ href: '/admin', label: 'Админ панель' }] : []),
+    ...(hasAdminAccess ? [{ href: '/admin', label: 'Админ панель' }] : []),
   ];
 
   return (
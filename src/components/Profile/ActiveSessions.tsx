@@ -0,0 +1,175 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import styled from 'styled-components';
+import { motion } from 'framer-motion';
+import { useAuth } from '../../hooks/useAuth';
+import { apiFetch } from '../../utils/apiFetch';
+
+interface SessionItem {
+  id: string;
+  device: string | null;
+  ip: string | null;
+  created_at: string;
+  last_seen_at: string;
+  is_current: boolean;
+}
+
+const SessionList = styled.ul`
+  list-style: none;
+  margin: 0;
+  padding: 0;
+`;
+
+const SessionRow = styled.li`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: ${({ theme }) => theme.spacing.md};
+  padding: ${({ theme }) => theme.spacing.md} 0;
+  border-bottom: 1px solid ${({ theme }) => theme.colors.surface};
+
+  &:last-child {
+    border-bottom: none;
+  }
+`;
+
+const SessionInfo = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: ${({ theme }) => theme.spacing.xs};
+`;
+
+const SessionDevice = styled.span`
+  color: ${({ theme }) => theme.colors.text};
+  font-weight: ${({ theme }) => theme.typography.fontWeight.medium};
+`;
+
+const SessionMeta = styled.span`
+  color: ${({ theme }) => theme.colors.textSecondary};
+  font-size: ${({ theme }) => theme.typography.fontSize.sm};
+`;
+
+const CurrentBadge = styled.span`
+  color: ${({ theme }) => theme.colors.success};
+  font-size: ${({ theme }) => theme.typography.fontSize.sm};
+`;
+
+const RevokeButton = styled(motion.button)`
+  padding: ${({ theme }) => theme.spacing.sm} ${({ theme }) => theme.spacing.md};
+  background: transparent;
+  color: ${({ theme }) => theme.colors.error};
+  border: 1px solid ${({ theme }) => theme.colors.error};
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+  font-size: ${({ theme }) => theme.typography.fontSize.sm};
+  cursor: pointer;
+  white-space: nowrap;
+
+  &:disabled {
+    opacity: 0.7;
+    cursor: not-allowed;
+  }
+`;
+
+const ErrorMessage = styled.div`
+  color: ${({ theme }) => theme.colors.error};
+  margin-top: ${({ theme }) => theme.spacing.md};
+`;
+
+const ActiveSessions: React.FC = () => {
+  const { isAuthenticated } = useAuth();
+  const [sessions, setSessions] = useState<SessionItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchSessions = useCallback(async () => {
+    if (!isAuthenticated) return;
+
+    try {
+      const res = await apiFetch('/api/profile/sessions');
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error);
+      }
+
+      setSessions(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Ошибка при загрузке сессий');
+    } finally {
+      setLoading(false);
+    }
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const revoke = async (body: { sessionId?: string; all?: boolean }) => {
+    setError('');
+    setLoading(true);
+
+    try {
+      const res = await apiFetch('/api/profile/sessions', {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body)
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error);
+      }
+
+      await fetchSessions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Ошибка при завершении сессии');
+      setLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <SessionList>
+        {sessions.map(session => (
+          <SessionRow key={session.id}>
+            <SessionInfo>
+              <SessionDevice>
+                {session.device || 'Неизвестное устройство'}
+                {session.is_current && <CurrentBadge> · это устройство</CurrentBadge>}
+              </SessionDevice>
+              <SessionMeta>
+                {session.ip || 'IP неизвестен'} · активность {new Date(session.last_seen_at).toLocaleString()}
+              </SessionMeta>
+            </SessionInfo>
+            {!session.is_current && (
+              <RevokeButton
+                onClick={() => revoke({ sessionId: session.id })}
+                disabled={loading}
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+              >
+                Завершить
+              </RevokeButton>
+            )}
+          </SessionRow>
+        ))}
+      </SessionList>
+
+      {sessions.some(session => !session.is_current) && (
+        <RevokeButton
+          onClick={() => revoke({ all: true })}
+          disabled={loading}
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+        >
+          Завершить все другие сессии
+        </RevokeButton>
+      )}
+
+      {error && <ErrorMessage>{error}</ErrorMessage>}
+    </>
+  );
+};
+
+export default ActiveSessions;
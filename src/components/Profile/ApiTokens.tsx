@@ -0,0 +1,294 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import styled from 'styled-components';
+import { motion } from 'framer-motion';
+import { useAuth } from '../../hooks/useAuth';
+import { apiFetch } from '../../utils/apiFetch';
+import { API_TOKEN_SCOPE_LABELS, API_TOKEN_SCOPES, ApiTokenScope } from '../../utils/permissions';
+
+interface ApiTokenItem {
+  id: number;
+  name: string;
+  token_prefix: string;
+  scopes: ApiTokenScope[];
+  expires_at: string | null;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+const Description = styled.p`
+  color: ${({ theme }) => theme.colors.textSecondary};
+  font-size: ${({ theme }) => theme.typography.fontSize.sm};
+  margin: 0 0 ${({ theme }) => theme.spacing.md};
+`;
+
+const TokenList = styled.ul`
+  list-style: none;
+  margin: 0 0 ${({ theme }) => theme.spacing.md};
+  padding: 0;
+`;
+
+const TokenRow = styled.li`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: ${({ theme }) => theme.spacing.md};
+  padding: ${({ theme }) => theme.spacing.md} 0;
+  border-bottom: 1px solid ${({ theme }) => theme.colors.surface};
+
+  &:last-child {
+    border-bottom: none;
+  }
+`;
+
+const TokenInfo = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: ${({ theme }) => theme.spacing.xs};
+`;
+
+const TokenName = styled.span`
+  color: ${({ theme }) => theme.colors.text};
+  font-weight: ${({ theme }) => theme.typography.fontWeight.medium};
+`;
+
+const TokenMeta = styled.span`
+  color: ${({ theme }) => theme.colors.textSecondary};
+  font-size: ${({ theme }) => theme.typography.fontSize.sm};
+`;
+
+const Form = styled.form`
+  display: flex;
+  flex-direction: column;
+  gap: ${({ theme }) => theme.spacing.sm};
+`;
+
+const Controls = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: ${({ theme }) => theme.spacing.sm};
+  align-items: center;
+`;
+
+const Input = styled.input`
+  padding: ${({ theme }) => theme.spacing.sm} ${({ theme }) => theme.spacing.md};
+  border: 1px solid ${({ theme }) => theme.colors.surface};
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+  background: ${({ theme }) => theme.colors.surface};
+  color: ${({ theme }) => theme.colors.text};
+  font-size: ${({ theme }) => theme.typography.fontSize.sm};
+`;
+
+const Select = styled.select`
+  padding: ${({ theme }) => theme.spacing.sm} ${({ theme }) => theme.spacing.md};
+  border: 1px solid ${({ theme }) => theme.colors.surface};
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+  background: ${({ theme }) => theme.colors.surface};
+  color: ${({ theme }) => theme.colors.text};
+  font-size: ${({ theme }) => theme.typography.fontSize.sm};
+`;
+
+const ScopeLabel = styled.label`
+  display: flex;
+  align-items: center;
+  gap: ${({ theme }) => theme.spacing.xs};
+  color: ${({ theme }) => theme.colors.text};
+  font-size: ${({ theme }) => theme.typography.fontSize.sm};
+`;
+
+const NewToken = styled.code`
+  display: block;
+  padding: ${({ theme }) => theme.spacing.sm};
+  margin-bottom: ${({ theme }) => theme.spacing.md};
+  background: ${({ theme }) => theme.colors.surface};
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+  word-break: break-all;
+`;
+
+const ActionButton = styled(motion.button)<{ $danger?: boolean }>`
+  padding: ${({ theme }) => theme.spacing.sm} ${({ theme }) => theme.spacing.md};
+  background: transparent;
+  color: ${({ theme, $danger }) => ($danger ? theme.colors.error : theme.colors.primary)};
+  border: 1px solid ${({ theme, $danger }) => ($danger ? theme.colors.error : theme.colors.primary)};
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+  font-size: ${({ theme }) => theme.typography.fontSize.sm};
+  cursor: pointer;
+  white-space: nowrap;
+  align-self: flex-start;
+
+  &:disabled {
+    opacity: 0.7;
+    cursor: not-allowed;
+  }
+`;
+
+const ErrorMessage = styled.div`
+  color: ${({ theme }) => theme.colors.error};
+  margin-top: ${({ theme }) => theme.spacing.md};
+`;
+
+const ApiTokens: React.FC = () => {
+  const { isAuthenticated } = useAuth();
+  const [tokens, setTokens] = useState<ApiTokenItem[]>([]);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['catalog:read']);
+  const [expiresInDays, setExpiresInDays] = useState('90');
+  const [createdToken, setCreatedToken] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchTokens = useCallback(async () => {
+    if (!isAuthenticated) return;
+
+    try {
+      const res = await apiFetch('/api/profile/api-tokens');
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error);
+      }
+
+      setTokens(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Ошибка при загрузке API-токенов');
+    }
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    fetchTokens();
+  }, [fetchTokens]);
+
+  const request = async (method: 'POST' | 'DELETE', body: Record<string, unknown>) => {
+    setError('');
+    setLoading(true);
+
+    try {
+      const res = await apiFetch('/api/profile/api-tokens', {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body)
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error);
+      }
+
+      await fetchTokens();
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Ошибка при работе с API-токенами');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes(prev => prev.includes(scope) ? prev.filter(item => item !== scope) : [...prev, scope]);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const data = await request('POST', {
+      name,
+      scopes,
+      expiresInDays: expiresInDays ? Number(expiresInDays) : null
+    });
+
+    if (data) {
+      setCreatedToken(data.token);
+      setName('');
+    }
+  };
+
+  return (
+    <>
+      <Description>
+        Токены позволяют обращаться к API из скриптов: передавайте их в заголовке
+        {' '}<code>Authorization: Bearer</code>. Токен действует только в пределах выбранных областей.
+      </Description>
+
+      {createdToken && (
+        <>
+          <Description>Скопируйте токен сейчас — после закрытия страницы его нельзя будет посмотреть снова.</Description>
+          <NewToken>{createdToken}</NewToken>
+        </>
+      )}
+
+      {tokens.length > 0 && (
+        <TokenList>
+          {tokens.map(token => (
+            <TokenRow key={token.id}>
+              <TokenInfo>
+                <TokenName>{token.name}</TokenName>
+                <TokenMeta>
+                  {token.token_prefix}… · {token.scopes.map(scope => API_TOKEN_SCOPE_LABELS[scope] || scope).join(', ')}
+                </TokenMeta>
+                <TokenMeta>
+                  {token.last_used_at
+                    ? `использовался ${new Date(token.last_used_at).toLocaleString()}`
+                    : 'еще не использовался'}
+                  {token.expires_at && ` · действует до ${new Date(token.expires_at).toLocaleDateString()}`}
+                </TokenMeta>
+              </TokenInfo>
+              <ActionButton
+                $danger
+                onClick={() => request('DELETE', { tokenId: token.id })}
+                disabled={loading}
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+              >
+                Отозвать
+              </ActionButton>
+            </TokenRow>
+          ))}
+        </TokenList>
+      )}
+
+      <Form onSubmit={handleCreate}>
+        <Controls>
+          <Input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Название, например «Импорт списка»"
+            maxLength={64}
+          />
+          <Select value={expiresInDays} onChange={(e) => setExpiresInDays(e.target.value)}>
+            <option value="30">30 дней</option>
+            <option value="90">90 дней</option>
+            <option value="365">1 год</option>
+            <option value="">Бессрочно</option>
+          </Select>
+        </Controls>
+        <Controls>
+          {API_TOKEN_SCOPES.map(scope => (
+            <ScopeLabel key={scope}>
+              <input
+                type="checkbox"
+                checked={scopes.includes(scope)}
+                onChange={() => toggleScope(scope)}
+              />
+              {API_TOKEN_SCOPE_LABELS[scope]}
+            </ScopeLabel>
+          ))}
+        </Controls>
+        <ActionButton
+          type="submit"
+          disabled={loading || !name.trim() || scopes.length === 0}
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+        >
+          Создать токен
+        </ActionButton>
+      </Form>
+
+      {error && <ErrorMessage>{error}</ErrorMessage>}
+    </>
+  );
+};
+
+export default ApiTokens;
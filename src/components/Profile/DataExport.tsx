@@ -0,0 +1,175 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import styled from 'styled-components';
+import { motion } from 'framer-motion';
+import { useAuth } from '../../hooks/useAuth';
+import { apiFetch } from '../../utils/apiFetch';
+
+type ExportStatus = 'PENDING' | 'PROCESSING' | 'READY' | 'FAILED' | 'EXPIRED';
+
+interface ExportItem {
+  id: string;
+  status: ExportStatus;
+  file_size: number | null;
+  expires_at: string | null;
+  created_at: string;
+}
+
+const STATUS_LABELS: Record<ExportStatus, string> = {
+  PENDING: 'В очереди',
+  PROCESSING: 'Готовится',
+  READY: 'Готов',
+  FAILED: 'Ошибка',
+  EXPIRED: 'Срок ссылки истек'
+};
+
+const POLL_INTERVAL = 5000;
+
+const Description = styled.p`
+  color: ${({ theme }) => theme.colors.textSecondary};
+  font-size: ${({ theme }) => theme.typography.fontSize.sm};
+  margin: 0 0 ${({ theme }) => theme.spacing.md};
+`;
+
+const ExportList = styled.ul`
+  list-style: none;
+  margin: 0 0 ${({ theme }) => theme.spacing.md};
+  padding: 0;
+`;
+
+const ExportRow = styled.li`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: ${({ theme }) => theme.spacing.md};
+  padding: ${({ theme }) => theme.spacing.sm} 0;
+  color: ${({ theme }) => theme.colors.text};
+  font-size: ${({ theme }) => theme.typography.fontSize.sm};
+`;
+
+const DownloadLink = styled.a`
+  color: ${({ theme }) => theme.colors.primary};
+`;
+
+const ActionButton = styled(motion.button)`
+  padding: ${({ theme }) => theme.spacing.sm} ${({ theme }) => theme.spacing.md};
+  background: transparent;
+  color: ${({ theme }) => theme.colors.primary};
+  border: 1px solid ${({ theme }) => theme.colors.primary};
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+  font-size: ${({ theme }) => theme.typography.fontSize.sm};
+  cursor: pointer;
+  white-space: nowrap;
+
+  &:disabled {
+    opacity: 0.7;
+    cursor: not-allowed;
+  }
+`;
+
+const ErrorMessage = styled.div`
+  color: ${({ theme }) => theme.colors.error};
+  margin-top: ${({ theme }) => theme.spacing.md};
+`;
+
+const SuccessMessage = styled.div`
+  color: ${({ theme }) => theme.colors.success};
+  margin-top: ${({ theme }) => theme.spacing.md};
+`;
+
+const DataExport: React.FC = () => {
+  const { isAuthenticated } = useAuth();
+  const [exports, setExports] = useState<ExportItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const fetchExports = useCallback(async () => {
+    if (!isAuthenticated) return;
+
+    try {
+      const res = await apiFetch('/api/profile/export');
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error);
+      }
+
+      setExports(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Ошибка при загрузке выгрузок');
+    }
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    fetchExports();
+  }, [fetchExports]);
+
+  // Пока архив собирается, статус периодически обновляется
+  const inProgress = exports.some(item => item.status === 'PENDING' || item.status === 'PROCESSING');
+  useEffect(() => {
+    if (!inProgress) return;
+    const timer = setInterval(fetchExports, POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [inProgress, fetchExports]);
+
+  const handleRequest = async () => {
+    setError('');
+    setSuccess('');
+    setLoading(true);
+
+    try {
+      const res = await apiFetch('/api/profile/export', { method: 'POST' });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error);
+      }
+
+      setSuccess(data.message);
+      await fetchExports();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Ошибка при запросе выгрузки');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <Description>
+        Архив содержит профиль, настройки, историю просмотров, избранное, список просмотра и сессии
+        в форматах JSON и CSV. Когда он будет готов, ссылка придет на email.
+      </Description>
+
+      {exports.length > 0 && (
+        <ExportList>
+          {exports.map(item => (
+            <ExportRow key={item.id}>
+              <span>
+                {new Date(item.created_at).toLocaleString()} · {STATUS_LABELS[item.status]}
+                {item.status === 'READY' && item.expires_at && ` до ${new Date(item.expires_at).toLocaleString()}`}
+              </span>
+              {item.status === 'READY' && (
+                <DownloadLink href={`/api/profile/export/download?id=${item.id}`}>Скачать</DownloadLink>
+              )}
+            </ExportRow>
+          ))}
+        </ExportList>
+      )}
+
+      <ActionButton
+        onClick={handleRequest}
+        disabled={loading || inProgress}
+        whileHover={{ scale: 1.02 }}
+        whileTap={{ scale: 0.98 }}
+      >
+        Запросить архив данных
+      </ActionButton>
+
+      {error && <ErrorMessage>{error}</ErrorMessage>}
+      {success && <SuccessMessage>{success}</SuccessMessage>}
+    </>
+  );
+};
+
+export default DataExport;
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { motion } from 'framer-motion';
+import { useAuth } from '../../hooks/useAuth';
+import { apiFetch } from '../../utils/apiFetch';
+
+const Description = styled.p`
+  color: ${({ theme }) => theme.colors.textSecondary};
+  font-size: ${({ theme }) => theme.typography.fontSize.sm};
+  margin: 0 0 ${({ theme }) => theme.spacing.md};
+`;
+
+const Controls = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: ${({ theme }) => theme.spacing.sm};
+  align-items: center;
+`;
+
+const Input = styled.input`
+  padding: ${({ theme }) => theme.spacing.sm} ${({ theme }) => theme.spacing.md};
+  border: 1px solid ${({ theme }) => theme.colors.surface};
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+  background: ${({ theme }) => theme.colors.surface};
+  color: ${({ theme }) => theme.colors.text};
+  font-size: ${({ theme }) => theme.typography.fontSize.sm};
+`;
+
+const DeleteButton = styled(motion.button)`
+  padding: ${({ theme }) => theme.spacing.sm} ${({ theme }) => theme.spacing.md};
+  background: transparent;
+  color: ${({ theme }) => theme.colors.error};
+  border: 1px solid ${({ theme }) => theme.colors.error};
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+  font-size: ${({ theme }) => theme.typography.fontSize.sm};
+  cursor: pointer;
+  white-space: nowrap;
+
+  &:disabled {
+    opacity: 0.7;
+    cursor: not-allowed;
+  }
+`;
+
+const ErrorMessage = styled.div`
+  color: ${({ theme }) => theme.colors.error};
+  margin-top: ${({ theme }) => theme.spacing.md};
+`;
+
+const DeleteAccount: React.FC = () => {
+  const { logout } = useAuth();
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleDelete = async () => {
+    if (!window.confirm('Удалить аккаунт? Отменить удаление можно будет по ссылке из письма в течение 14 дней.')) {
+      return;
+    }
+
+    setError('');
+    setLoading(true);
+
+    try {
+      const res = await apiFetch('/api/profile', {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ password })
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error);
+      }
+
+      // Сессии уже завершены сервером, остается очистить состояние клиента
+      logout();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Ошибка при удалении аккаунта');
+      setLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <Description>
+        Аккаунт будет удален через 14 дней. До этого срока удаление можно отменить по ссылке из письма,
+        после — профиль, избранное, списки и история просмотров удаляются безвозвратно.
+      </Description>
+      <Controls>
+        <Input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Текущий пароль"
+        />
+        <DeleteButton
+          onClick={handleDelete}
+          disabled={loading || !password}
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+        >
+          Удалить аккаунт
+        </DeleteButton>
+      </Controls>
+
+      {error && <ErrorMessage>{error}</ErrorMessage>}
+    </>
+  );
+};
+
+export default DeleteAccount;
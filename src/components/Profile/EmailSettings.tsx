@@ -0,0 +1,214 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import styled from 'styled-components';
+import { motion } from 'framer-motion';
+import { useAuth } from '../../hooks/useAuth';
+import { apiFetch } from '../../utils/apiFetch';
+
+interface EmailStatus {
+  email: string;
+  pendingEmail: string | null;
+  expiresAt: string | null;
+}
+
+const Description = styled.p`
+  color: ${({ theme }) => theme.colors.textSecondary};
+  font-size: ${({ theme }) => theme.typography.fontSize.sm};
+  margin: 0 0 ${({ theme }) => theme.spacing.md};
+  word-break: break-all;
+`;
+
+const Controls = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: ${({ theme }) => theme.spacing.sm};
+  align-items: center;
+`;
+
+const Input = styled.input`
+  padding: ${({ theme }) => theme.spacing.sm} ${({ theme }) => theme.spacing.md};
+  border: 1px solid ${({ theme }) => theme.colors.surface};
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+  background: ${({ theme }) => theme.colors.surface};
+  color: ${({ theme }) => theme.colors.text};
+  font-size: ${({ theme }) => theme.typography.fontSize.sm};
+`;
+
+const ActionButton = styled(motion.button)<{ $danger?: boolean }>`
+  padding: ${({ theme }) => theme.spacing.sm} ${({ theme }) => theme.spacing.md};
+  background: transparent;
+  color: ${({ theme, $danger }) => ($danger ? theme.colors.error : theme.colors.primary)};
+  border: 1px solid ${({ theme, $danger }) => ($danger ? theme.colors.error : theme.colors.primary)};
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+  font-size: ${({ theme }) => theme.typography.fontSize.sm};
+  cursor: pointer;
+  white-space: nowrap;
+
+  &:disabled {
+    opacity: 0.7;
+    cursor: not-allowed;
+  }
+`;
+
+const ErrorMessage = styled.div`
+  color: ${({ theme }) => theme.colors.error};
+  margin-top: ${({ theme }) => theme.spacing.md};
+`;
+
+const SuccessMessage = styled.div`
+  color: ${({ theme }) => theme.colors.success};
+  margin-top: ${({ theme }) => theme.spacing.md};
+`;
+
+const EmailSettings: React.FC = () => {
+  const { isAuthenticated, refreshProfile } = useAuth();
+  const [status, setStatus] = useState<EmailStatus | null>(null);
+  const [newEmail, setNewEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const fetchStatus = useCallback(async () => {
+    if (!isAuthenticated) return;
+
+    try {
+      const res = await apiFetch('/api/profile/email');
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error);
+      }
+
+      setStatus(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Ошибка при загрузке email');
+    }
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const request = async (method: 'POST' | 'PUT' | 'DELETE', body: Record<string, unknown> = {}) => {
+    setError('');
+    setSuccess('');
+    setLoading(true);
+
+    try {
+      const res = await apiFetch('/api/profile/email', {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body)
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error);
+      }
+
+      await fetchStatus();
+      setSuccess(data.message);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Ошибка при смене email');
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRequest = async () => {
+    if (await request('POST', { email: newEmail, password })) {
+      setPassword('');
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (await request('PUT', { code })) {
+      setCode('');
+      setNewEmail('');
+      await refreshProfile();
+    }
+  };
+
+  if (!status) {
+    return error ? <ErrorMessage>{error}</ErrorMessage> : null;
+  }
+
+  return (
+    <>
+      <Description>Текущий адрес: {status.email}</Description>
+
+      {status.pendingEmail ? (
+        <>
+          <Description>
+            Код подтверждения отправлен на {status.pendingEmail}. Адрес изменится после ввода кода.
+          </Description>
+          <Controls>
+            <Input
+              type="text"
+              inputMode="numeric"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Код из письма"
+              maxLength={6}
+            />
+            <ActionButton
+              onClick={handleConfirm}
+              disabled={loading || !code}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              Подтвердить
+            </ActionButton>
+            <ActionButton
+              $danger
+              onClick={() => request('DELETE')}
+              disabled={loading}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              Отменить
+            </ActionButton>
+          </Controls>
+        </>
+      ) : (
+        <>
+          <Description>
+            На новый адрес придет код подтверждения, на текущий — уведомление о смене.
+          </Description>
+          <Controls>
+            <Input
+              type="email"
+              value={newEmail}
+              onChange={(e) => setNewEmail(e.target.value)}
+              placeholder="Новый email"
+            />
+            <Input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Текущий пароль"
+            />
+            <ActionButton
+              onClick={handleRequest}
+              disabled={loading || !newEmail || !password}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              Сменить email
+            </ActionButton>
+          </Controls>
+        </>
+      )}
+
+      {error && <ErrorMessage>{error}</ErrorMessage>}
+      {success && <SuccessMessage>{success}</SuccessMessage>}
+    </>
+  );
+};
+
+export default EmailSettings;
@@ -9,6 +9,7 @@ import { FiEdit2, FiSettings, FiList, FiHeart, FiClock, FiUpload } from 'react-i
 import { useAuth } from '../../hooks/useAuth';
 import { useRouter } from 'next/router';
 import { uploadAvatar } from '../../utils/avatar';
+import { apiFetch } from '../../utils/apiFetch';
 
 const ProfileContainer = styled.div`
   max-width: 1000px;
@@ -287,11 +288,7 @@ const Profile: React.FC = () => {
 
   const fetchProfileInfo = async () => {
     try {
-      const response = await fetch('/api/profile/info', {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        }
-      });
+      const response = await apiFetch('/api/profile/info');
       if (response.ok) {
         const data = await response.json();
         setProfileInfo({
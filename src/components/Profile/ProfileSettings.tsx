@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import styled from 'styled-components';
 import { motion } from 'framer-motion';
 import { useAuth } from '@/hooks/useAuth';
+import { apiFetch } from '@/utils/apiFetch';
 import { ProfileData } from '@/types/profile';
 
 const SettingsContainer = styled.div`
@@ -106,11 +107,7 @@ const ProfileSettings: React.FC = () => {
   useEffect(() => {
     const fetchProfileInfo = async () => {
       try {
-        const response = await fetch('/api/profile/info', {
-          headers: {
-            'Authorization': `Bearer ${localStorage?.getItem('token')}`
-          }
-        });
+        const response = await apiFetch('/api/profile/info');
         if (response.ok) {
           const data = await response.json();
           setFormData({
@@ -140,11 +137,10 @@ const ProfileSettings: React.FC = () => {
     setMessage({ type: '', text: '' });
 
     try {
-      const response = await fetch('/api/profile/info', {
+      const response = await apiFetch('/api/profile/info', {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage?.getItem('token')}`
         },
         body: JSON.stringify(formData)
       });
@@ -2,6 +2,12 @@ import React, { useState, useEffect } from 'react';
 import styled from 'styled-components';
 import { motion } from 'framer-motion';
 import { useAuth } from '../../hooks/useAuth';
+import ActiveSessions from './ActiveSessions';
+import TwoFactorSettings from './TwoFactorSettings';
+import ApiTokens from './ApiTokens';
+import EmailSettings from './EmailSettings';
+import DeleteAccount from './DeleteAccount';
+import DataExport from './DataExport';
 
 const SettingsContainer = styled.div`
   background: ${({ theme }) => theme.colors.background};
@@ -253,6 +259,36 @@ const Settings: React.FC = () => {
         </SettingRow>
       </Section>
 
+      <Section>
+        <SectionTitle>Email</SectionTitle>
+        <EmailSettings />
+      </Section>
+
+      <Section>
+        <SectionTitle>Двухфакторная аутентификация</SectionTitle>
+        <TwoFactorSettings />
+      </Section>
+
+      <Section>
+        <SectionTitle>Активные сессии</SectionTitle>
+        <ActiveSessions />
+      </Section>
+
+      <Section>
+        <SectionTitle>API-токены</SectionTitle>
+        <ApiTokens />
+      </Section>
+
+      <Section>
+        <SectionTitle>Выгрузка данных</SectionTitle>
+        <DataExport />
+      </Section>
+
+      <Section>
+        <SectionTitle>Удаление аккаунта</SectionTitle>
+        <DeleteAccount />
+      </Section>
+
       {error && <ErrorMessage>{error}</ErrorMessage>}
       {success && <SuccessMessage>{success}</SuccessMessage>}
 
@@ -0,0 +1,272 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import styled from 'styled-components';
+import { motion } from 'framer-motion';
+import { useAuth } from '../../hooks/useAuth';
+import { apiFetch } from '../../utils/apiFetch';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  backupCodesLeft: number;
+}
+
+interface SetupData {
+  secret: string;
+  otpauthUrl: string;
+}
+
+const Description = styled.p`
+  color: ${({ theme }) => theme.colors.textSecondary};
+  font-size: ${({ theme }) => theme.typography.fontSize.sm};
+  margin: 0 0 ${({ theme }) => theme.spacing.md};
+  word-break: break-all;
+`;
+
+const SecretLink = styled.a`
+  color: ${({ theme }) => theme.colors.primary};
+`;
+
+const Controls = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: ${({ theme }) => theme.spacing.sm};
+  align-items: center;
+`;
+
+const Input = styled.input`
+  padding: ${({ theme }) => theme.spacing.sm} ${({ theme }) => theme.spacing.md};
+  border: 1px solid ${({ theme }) => theme.colors.surface};
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+  background: ${({ theme }) => theme.colors.surface};
+  color: ${({ theme }) => theme.colors.text};
+  font-size: ${({ theme }) => theme.typography.fontSize.sm};
+`;
+
+const ActionButton = styled(motion.button)<{ $danger?: boolean }>`
+  padding: ${({ theme }) => theme.spacing.sm} ${({ theme }) => theme.spacing.md};
+  background: transparent;
+  color: ${({ theme, $danger }) => ($danger ? theme.colors.error : theme.colors.primary)};
+  border: 1px solid ${({ theme, $danger }) => ($danger ? theme.colors.error : theme.colors.primary)};
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+  font-size: ${({ theme }) => theme.typography.fontSize.sm};
+  cursor: pointer;
+  white-space: nowrap;
+
+  &:disabled {
+    opacity: 0.7;
+    cursor: not-allowed;
+  }
+`;
+
+const BackupCodeList = styled.ul`
+  display: grid;
+  grid-template-columns: repeat(2, max-content);
+  gap: ${({ theme }) => theme.spacing.sm} ${({ theme }) => theme.spacing.xl};
+  list-style: none;
+  margin: ${({ theme }) => theme.spacing.md} 0;
+  padding: 0;
+  font-family: monospace;
+`;
+
+const ErrorMessage = styled.div`
+  color: ${({ theme }) => theme.colors.error};
+  margin-top: ${({ theme }) => theme.spacing.md};
+`;
+
+const TwoFactorSettings: React.FC = () => {
+  const { isAuthenticated } = useAuth();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<SetupData | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchStatus = useCallback(async () => {
+    if (!isAuthenticated) return;
+
+    try {
+      const res = await apiFetch('/api/profile/two-factor');
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error);
+      }
+
+      setStatus(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Ошибка при загрузке настроек 2FA');
+    }
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const request = async (method: 'POST' | 'DELETE', body: Record<string, unknown>) => {
+    setError('');
+    setLoading(true);
+
+    try {
+      const res = await apiFetch('/api/profile/two-factor', {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body)
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error);
+      }
+
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Ошибка при настройке 2FA');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startSetup = async () => {
+    const data = await request('POST', { action: 'setup' });
+    if (data) {
+      setSetup(data);
+      setBackupCodes([]);
+      setCode('');
+    }
+  };
+
+  const submitCode = async (action: 'enable' | 'backup-codes') => {
+    const data = await request('POST', { action, code });
+    if (data) {
+      setSetup(null);
+      setBackupCodes(data.backupCodes);
+      setCode('');
+      await fetchStatus();
+    }
+  };
+
+  const disable = async () => {
+    const data = await request('DELETE', { code, password });
+    if (data) {
+      setBackupCodes([]);
+      setCode('');
+      setPassword('');
+      await fetchStatus();
+    }
+  };
+
+  if (!status) {
+    return error ? <ErrorMessage>{error}</ErrorMessage> : null;
+  }
+
+  return (
+    <>
+      {backupCodes.length > 0 && (
+        <>
+          <Description>
+            Сохраните резервные коды: каждый из них можно один раз использовать для входа вместо кода из приложения.
+            Больше они показаны не будут.
+          </Description>
+          <BackupCodeList>
+            {backupCodes.map(backupCode => <li key={backupCode}>{backupCode}</li>)}
+          </BackupCodeList>
+        </>
+      )}
+
+      {status.enabled ? (
+        <>
+          <Description>
+            Двухфакторная аутентификация включена. Осталось резервных кодов: {status.backupCodesLeft}.
+            {status.required && ' Для вашей роли ее нельзя отключить.'}
+          </Description>
+          <Controls>
+            <Input
+              type="text"
+              placeholder="Код из приложения"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              maxLength={6}
+              autoComplete="one-time-code"
+            />
+            {!status.required && (
+              <Input
+                type="password"
+                placeholder="Пароль"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="current-password"
+              />
+            )}
+            <ActionButton
+              onClick={() => submitCode('backup-codes')}
+              disabled={loading || !code}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              Новые резервные коды
+            </ActionButton>
+            {!status.required && (
+              <ActionButton
+                $danger
+                onClick={disable}
+                disabled={loading || !code || !password}
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+              >
+                Отключить 2FA
+              </ActionButton>
+            )}
+          </Controls>
+        </>
+      ) : setup ? (
+        <>
+          <Description>
+            Добавьте ключ в приложение-аутентификатор (<SecretLink href={setup.otpauthUrl}>открыть в приложении</SecretLink>)
+            и введите код из него. Ключ: {setup.secret}
+          </Description>
+          <Controls>
+            <Input
+              type="text"
+              placeholder="Код из приложения"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              maxLength={6}
+              autoComplete="one-time-code"
+            />
+            <ActionButton
+              onClick={() => submitCode('enable')}
+              disabled={loading || !code}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              Включить
+            </ActionButton>
+          </Controls>
+        </>
+      ) : (
+        <>
+          <Description>
+            Вход будет требовать код из приложения-аутентификатора в дополнение к паролю.
+          </Description>
+          <ActionButton
+            onClick={startSetup}
+            disabled={loading}
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+          >
+            Подключить 2FA
+          </ActionButton>
+        </>
+      )}
+
+      {error && <ErrorMessage>{error}</ErrorMessage>}
+    </>
+  );
+};
+
+export default TwoFactorSettings;
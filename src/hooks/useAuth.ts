@@ -4,31 +4,15 @@ import { useDispatch, useSelector } from 'react-redux';
 import { loginStart, loginSuccess, loginFailure, logout as logoutAction } from '../store/slices/authSlice';
 import { setProfile, clearProfile, setLoading, setError } from '../store/slices/userSlice';
 import { RootState } from '../store';
-
-const getToken = () => {
-  if (typeof window !== 'undefined') {
-    return localStorage.getItem('token');
-  }
-  return null;
-};
-
-const setToken = (token: string) => {
-  if (typeof window !== 'undefined') {
-    localStorage.setItem('token', token);
-  }
-};
-
-const removeToken = () => {
-  if (typeof window !== 'undefined') {
-    localStorage.removeItem('token');
-  }
-};
+import { apiFetch, clearLegacyTokens, getLegacyRefreshToken, hasSession, refreshSession } from '../utils/apiFetch';
+import { hasPermission, Permission } from '../utils/permissions';
+import type { UserRole } from '@prisma/client';
 
 interface UserProfile {
   id: string;
   username: string;
   email: string;
-  role: 'USER' | 'ADMIN';
+  role: UserRole;
   avatar_id?: string;
   avatar_url?: string;
   views_count?: number;
@@ -38,6 +22,25 @@ interface UserProfile {
   updated_at?: string;
 }
 
+interface TwoFactorStep {
+  challengeToken: string;
+  code: string;
+}
+
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  setupRequired: boolean;
+  secret?: string;
+  otpauthUrl?: string;
+}
+
+interface LoginResult {
+  success: boolean;
+  error?: string;
+  challenge?: TwoFactorChallenge;
+  backupCodes?: string[];
+}
+
 export const useAuth = () => {
   const router = useRouter();
   const currentPath = router.pathname;
@@ -87,43 +90,21 @@ export const useAuth = () => {
   };
 
   const refreshToken = async () => {
-    try {
-      const currentToken = getToken();
-      if (!currentToken) return false;
-
-      const response = await fetch('/api/auth/refresh', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${currentToken}`
-        }
-      });
-      
-      if (!response.ok) {
-        if (response.status === 401) {
-          dispatch(logoutAction());
-          dispatch(clearProfile());
-          removeToken();
-        }
-        return false;
-      }
-
-      const data = await response.json();
-      if (!data.token) return false;
-
-      setToken(data.token);
-      dispatch(loginSuccess(data.token));
-      return true;
-    } catch (error) {
-      console.error('Ошибка обновления токена:', error);
-      return false;
+    const isRefreshed = await refreshSession();
+    if (isRefreshed) {
+      dispatch(loginSuccess());
+    } else if (!hasSession()) {
+      dispatch(logoutAction());
+      dispatch(clearProfile());
     }
+    return isRefreshed;
   };
 
   const isAuthPage = router.pathname.startsWith('/auth/');
   const isAdminPage = router.pathname.startsWith('/admin/');
 
   useEffect(() => {
-    const token = getToken();
+    const sessionExists = hasSession();
     let isSubscribed = true;
     let isMounted = true;
     let authCheckTimeout: NodeJS.Timeout | null = null;
@@ -147,7 +128,7 @@ export const useAuth = () => {
     const initAuth = async () => {
       if (!isSubscribed || !isMounted) return;
 
-      if (!token || !navigator.onLine) {
+      if (!sessionExists || !navigator.onLine) {
         dispatch(logoutAction());
         dispatch(clearProfile());
         if (!isAuthPage && isAdminPage) {
@@ -167,7 +148,7 @@ export const useAuth = () => {
             return;
           }
           
-          if (isAdminPage && (!isAuthenticated || (user && user.role !== 'ADMIN'))) {
+          if (isAdminPage && (!isAuthenticated || (user && !hasPermission(user.role, 'admin:access')))) {
             await handleNavigation('/auth/login');
             return;
           }
@@ -221,8 +202,7 @@ export const useAuth = () => {
     let isMounted = true;
     
     const checkAndRedirect = async () => {
-      const token = getToken();
-      if (!token && !isAuthPage && isMounted) {
+      if (!hasSession() && !isAuthPage && isMounted) {
         try {
           await router.push('/auth/login', undefined, { 
             shallow: true,
@@ -244,9 +224,7 @@ export const useAuth = () => {
   }, [isAuthPage, router]);
 
   const checkAuth = async () => {
-    const token = getToken();
-    
-    if (!token) {
+    if (!hasSession()) {
       dispatch(logoutAction());
       dispatch(clearProfile());
       return false;
@@ -266,11 +244,10 @@ export const useAuth = () => {
         try {
           const res = await fetch('/api/profile', {
             headers: {
-              Authorization: `Bearer ${token}`,
               'Cache-Control': 'no-store',
               'Pragma': 'no-cache'
             },
-            credentials: 'include',
+            credentials: 'same-origin',
             signal: controller.signal
           });
 
@@ -282,7 +259,7 @@ export const useAuth = () => {
           }
 
           if (res.ok && userData) {
-            dispatch(loginSuccess(token));
+            dispatch(loginSuccess());
             dispatch(setProfile(userData));
             authSuccess = true;
             return true;
@@ -299,25 +276,19 @@ export const useAuth = () => {
               continue;
             }
 
-            const newToken = getToken();
-            if (!newToken) {
-              throw new Error('Токен отсутствует после обновления');
-            }
-
             const retryRes = await fetch('/api/profile', {
               headers: {
-                Authorization: `Bearer ${newToken}`,
                 'Cache-Control': 'no-store',
                 'Pragma': 'no-cache'
               },
-              credentials: 'include',
+              credentials: 'same-origin',
               signal: controller.signal
             });
 
             if (retryRes.ok) {
               try {
                 const retryData = await retryRes.json();
-                dispatch(loginSuccess(newToken));
+                dispatch(loginSuccess());
                 dispatch(setProfile(retryData));
                 authSuccess = true;
                 return true;
@@ -355,7 +326,7 @@ export const useAuth = () => {
       }
       dispatch(logoutAction());
       dispatch(clearProfile());
-      removeToken();
+      clearLegacyTokens();
       return false;
     } finally {
       clearTimeout(timeoutId);
@@ -364,7 +335,9 @@ export const useAuth = () => {
     }
   };
 
-  const login = async (email: string, password: string) => {
+  // Без twoFactor — первый шаг (email и пароль). Если сервер запросил код 2FA,
+  // возвращается challenge, и вход завершается повторным вызовом с кодом
+  const login = async (email: string, password: string, twoFactor?: TwoFactorStep): Promise<LoginResult> => {
     if (!navigator.onLine) {
       const errorMessage = 'Нет подключения к интернету';
       dispatch(loginFailure(errorMessage));
@@ -385,9 +358,9 @@ export const useAuth = () => {
           'Cache-Control': 'no-store',
           'Pragma': 'no-cache'
         },
-        body: JSON.stringify({ email, password }),
+        body: JSON.stringify(twoFactor || { email, password }),
         signal: controller.signal,
-        credentials: 'include'
+        credentials: 'same-origin'
       });
 
       let data;
@@ -401,18 +374,32 @@ export const useAuth = () => {
         let errorMessage = 'Ошибка авторизации';
         if (res.status === 401) {
           errorMessage = data?.error || 'Неверные учетные данные';
+        } else if (res.status === 403) {
+          errorMessage = data?.reason ? `${data.error}: ${data.reason}` : (data?.error || 'Доступ запрещен');
+        } else if (res.status === 429) {
+          errorMessage = data?.error || 'Слишком много попыток входа, попробуйте позже';
         } else if (res.status === 500) {
           errorMessage = 'Ошибка сервера, попробуйте позже';
         }
         throw new Error(errorMessage);
       }
 
-      if (!data?.token) {
-        throw new Error('Токен не получен от сервера');
+      if (data?.twoFactorRequired || data?.twoFactorSetupRequired) {
+        dispatch(loginFailure(''));
+        return {
+          success: false,
+          challenge: {
+            challengeToken: data.challengeToken,
+            setupRequired: Boolean(data.twoFactorSetupRequired),
+            secret: data.secret,
+            otpauthUrl: data.otpauthUrl
+          }
+        };
       }
 
-      setToken(data.token);
-      dispatch(loginSuccess(data.token));
+      // Токены сессии сервер выставил в httpOnly-cookie; старые токены из localStorage больше не нужны
+      clearLegacyTokens();
+      dispatch(loginSuccess());
       
       let retryCount = 3;
       let lastError = null;
@@ -421,24 +408,22 @@ export const useAuth = () => {
       while (retryCount > 0 && !authSuccess) {
         try {
           await checkAuthImmediately();
-          const currentToken = getToken();
-          
-          if (!currentToken) {
-            throw new Error('Токен отсутствует после проверки');
-          }
 
           const profileResponse = await fetch('/api/profile', {
             headers: {
-              'Authorization': `Bearer ${currentToken}`,
               'Cache-Control': 'no-store'
             },
-            credentials: 'include'
+            credentials: 'same-origin'
           });
 
           if (profileResponse.ok) {
             const userData = await profileResponse.json();
             dispatch(setProfile(userData));
             authSuccess = true;
+            // Резервные коды показываются один раз, поэтому перенаправление оставляем форме
+            if (data.backupCodes) {
+              return { success: true, backupCodes: data.backupCodes };
+            }
             await router.push('/', undefined, { 
               shallow: true, 
               scroll: false 
@@ -451,7 +436,6 @@ export const useAuth = () => {
           lastError = authError;
           retryCount--;
           if (retryCount === 0) {
-            removeToken();
             dispatch(logoutAction());
             dispatch(clearProfile());
             throw new Error('Не удалось подтвердить авторизацию');
@@ -487,7 +471,16 @@ export const useAuth = () => {
   };
 
   const logout = () => {
-    removeToken();
+    // Сервер отзывает сессию по refresh-cookie (или по старому токену из localStorage) и удаляет cookie
+    const legacyRefreshToken = getLegacyRefreshToken();
+    apiFetch('/api/auth/logout', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(legacyRefreshToken ? { refreshToken: legacyRefreshToken } : {})
+    }).catch((error) => {
+      console.error('Ошибка отзыва refresh-токена:', error);
+    });
+    clearLegacyTokens();
     dispatch(logoutAction());
     dispatch(clearProfile());
     router.push('/auth/login', undefined, { 
@@ -501,16 +494,14 @@ export const useAuth = () => {
   };
 
   const updateProfile = async (updates: Partial<UserProfile>): Promise<void> => {
-    const token = getToken();
-    if (!token) throw new Error('Не авторизован');
+    if (!hasSession()) throw new Error('Не авторизован');
 
     try {
       dispatch(setLoading(true));
-      const res = await fetch('/api/profile', {
+      const res = await apiFetch('/api/profile', {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`,
         },
         body: JSON.stringify(updates),
       });
@@ -530,18 +521,14 @@ export const useAuth = () => {
   };
 
   const uploadAvatar = async (file: File): Promise<void> => {
-    const token = getToken();
-    if (!token) throw new Error('Не авторизован');
+    if (!hasSession()) throw new Error('Не авторизован');
 
     const formData = new FormData();
     formData.append('avatar', file);
 
     try {
-      const res = await fetch('/api/profile/avatar', {
+      const res = await apiFetch('/api/profile/avatar', {
         method: 'POST',
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
         body: formData,
       });
 
@@ -565,8 +552,10 @@ export const useAuth = () => {
     logout,
     updateProfile,
     uploadAvatar,
-    token: getToken(),
-    isAdmin: user?.role === 'ADMIN',
+    refreshProfile: checkAuthImmediately,
+    // Доступ к админ-панели есть у всех сотрудников; отдельные разделы проверяются через can
+    hasAdminAccess: hasPermission(user?.role, 'admin:access'),
+    can: (permission: Permission) => hasPermission(user?.role, permission),
     error: authError || userError
   };
 };
\ No newline at end of file
@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+import { apiFetch, refreshSession } from '../utils/apiFetch';
+
+const EVENTS_URL = '/api/admin/parser/events';
+const LOGS_URL = '/api/admin/parser/logs';
+const RECONNECT_DELAY = 5000;
+const MAX_LOGS = 100;
+
+export type ParserStatusValue = 'active' | 'inactive' | 'error' | 'cancelled';
+
+export interface ParserRunSummary {
+  id: number;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  startTime: string;
+  createdCount: number;
+  updatedCount: number;
+  skippedCount: number;
+  failedCount: number;
+}
+
+// Расход запросов к источнику метаданных за текущие сутки (UTC)
+export interface ProviderQuota {
+  provider: string;
+  requests: number;
+  throttled: number;
+  dailyQuota: number | null;
+}
+
+export interface ParserLiveStatus {
+  status: ParserStatusValue;
+  lastRun: string | null;
+  processedItems: number;
+  errors: string[];
+  currentItem: string | null;
+  run: ParserRunSummary | null;
+  quotas: ProviderQuota[];
+}
+
+export interface ParserLogEntry {
+  id: number;
+  message: string;
+  error: string;
+  timestamp: string;
+}
+
+// Новые записи сверху, как в /api/admin/parser/logs; повторно полученные записи не дублируются
+const mergeLogs = (current: ParserLogEntry[], incoming: ParserLogEntry[]): ParserLogEntry[] => {
+  const byId = new Map(current.map(log => [log.id, log]));
+  incoming.forEach(log => byId.set(log.id, log));
+  return Array.from(byId.values())
+    .sort((a, b) => b.id - a.id)
+    .slice(0, MAX_LOGS);
+};
+
+// Состояние парсера и его журнал из потока /api/admin/parser/events вместо периодических запросов
+export const useParserEvents = (enabled: boolean = true) => {
+  const [status, setStatus] = useState<ParserLiveStatus | null>(null);
+  const [logs, setLogs] = useState<ParserLogEntry[]>([]);
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let isActive = true;
+    let source: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    // Последняя полученная запись журнала: с нее поток продолжается после переподключения
+    let lastLogId = 0;
+
+    const receiveLogs = (entries: ParserLogEntry[]) => {
+      entries.forEach(log => {
+        lastLogId = Math.max(lastLogId, log.id);
+      });
+      setLogs(prev => mergeLogs(prev, entries));
+    };
+
+    const connect = () => {
+      // Новый EventSource не отправляет Last-Event-ID, поэтому позиция передается в адресе
+      source = new EventSource(lastLogId ? `${EVENTS_URL}?lastEventId=${lastLogId}` : EVENTS_URL);
+
+      source.onopen = () => setConnected(true);
+      source.addEventListener('status', (event) => {
+        setStatus(JSON.parse((event as MessageEvent).data));
+      });
+      source.addEventListener('log', (event) => {
+        receiveLogs([JSON.parse((event as MessageEvent).data)]);
+      });
+      source.onerror = () => {
+        setConnected(false);
+        // При обрыве соединения браузер переподключается сам. Закрытый поток означает, что сервер
+        // отклонил запрос (обычно истек access-токен): продлеваем сессию и подключаемся заново
+        if (source?.readyState !== EventSource.CLOSED) return;
+
+        source.close();
+        reconnectTimer = setTimeout(async () => {
+          if (isActive && (await refreshSession()) && isActive) {
+            connect();
+          }
+        }, RECONNECT_DELAY);
+      };
+    };
+
+    // Поток присылает только новые записи журнала, предыдущие загружаются один раз
+    apiFetch(LOGS_URL)
+      .then(response => (response.ok ? response.json() : []))
+      .then((entries: ParserLogEntry[]) => {
+        if (isActive) receiveLogs(entries);
+      })
+      .catch(error => console.error('Ошибка загрузки журнала парсера:', error));
+
+    connect();
+
+    return () => {
+      isActive = false;
+      clearTimeout(reconnectTimer);
+      source?.close();
+    };
+  }, [enabled]);
+
+  return { status, logs, connected };
+};
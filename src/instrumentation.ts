@@ -0,0 +1,20 @@
+import { getKeyRing } from './utils/jwtKeys';
+
+// Выполняется один раз при запуске сервера: без ключа подписи JWT приложение не стартует,
+// вместо того чтобы подписывать токены предсказуемым секретом
+export function register() {
+  // Во время сборки секреты окружения могут быть недоступны
+  if (process.env.NEXT_PHASE === 'phase-production-build') {
+    return;
+  }
+
+  try {
+    getKeyRing();
+  } catch (error) {
+    console.error('JWT key ring error:', error instanceof Error ? error.message : error);
+    if (process.env.NEXT_RUNTIME === 'nodejs') {
+      process.exit(1);
+    }
+    throw error;
+  }
+}
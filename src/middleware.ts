@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ACCESS_TOKEN_COOKIE } from './utils/apiFetch';
+import { verifyAccessToken } from './utils/edgeAuth';
+import { getAdminPagePermission, hasPermission } from './utils/permissions';
+
+// Админские страницы и API закрываются до рендера. Роль берется из access-токена;
+// API-маршруты дополнительно проверяют конкретное право по БД через requirePermission
+export async function middleware(req: NextRequest) {
+  const { pathname, search } = req.nextUrl;
+  const isApiRoute = pathname.startsWith('/api/');
+
+  const bearerToken = process.env.LEGACY_BEARER_AUTH !== 'false'
+    ? req.headers.get('authorization')?.split(' ')[1]
+    : undefined;
+  const token = bearerToken || req.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+  const payload = token ? await verifyAccessToken(token) : null;
+
+  // Токены, выпущенные до появления role в payload, тоже требуют продления
+  if (!payload?.role) {
+    if (isApiRoute) {
+      return NextResponse.json({ error: 'Требуется авторизация' }, { status: 401 });
+    }
+
+    // Access-cookie живет 15 минут, а refresh-cookie видна только маршрутам /api/auth,
+    // поэтому страница отправляет на продление сессии с возвратом обратно
+    const resumeUrl = req.nextUrl.clone();
+    resumeUrl.pathname = '/api/auth/resume';
+    resumeUrl.search = `?next=${encodeURIComponent(pathname + search)}`;
+    return NextResponse.redirect(resumeUrl);
+  }
+
+  const permission = isApiRoute ? 'admin:access' : getAdminPagePermission(pathname);
+  if (!hasPermission(payload.role, permission)) {
+    if (isApiRoute) {
+      return NextResponse.json({ error: 'Доступ запрещен' }, { status: 403 });
+    }
+    return NextResponse.redirect(new URL('/', req.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/admin/:path*', '/api/admin/:path*']
+};
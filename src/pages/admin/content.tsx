@@ -3,6 +3,7 @@ import { useRouter } from 'next/router';
 import AdminLayout from '@/components/Admin/AdminLayout';
 import styled from 'styled-components';
 import { useAuth } from '@/hooks/useAuth';
+import { apiFetch, hasSession } from '@/utils/apiFetch';
 
 const ContentContainer = styled.div`
   padding: 20px;
@@ -92,7 +93,7 @@ interface PaginationState {
 
 const ContentManagement = () => {
   const router = useRouter();
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const [isAuthorized, setIsAuthorized] = useState(false);
   const [mediaItems, setMediaItems] = useState<MediaItem[]>([]);
   const [filteredItems, setFilteredItems] = useState<MediaItem[]>([]);
@@ -119,7 +120,7 @@ const ContentManagement = () => {
         return;
       }
 
-      if (user.role !== 'ADMIN') {
+      if (!can('media:view')) {
         await router.push('/');
         return;
       }
@@ -214,9 +215,8 @@ const ContentManagement = () => {
       }, 15000);
 
       try {
-        const token = localStorage.getItem('token');
-        if (!token) {
-          throw new Error('Не найден токен авторизации');
+        if (!hasSession()) {
+          throw new Error('Требуется авторизация');
         }
 
       const queryParams = new URLSearchParams({
@@ -225,9 +225,8 @@ const ContentManagement = () => {
         search: searchQuery
       });
 
-      const response = await fetch(`/api/admin/content?${queryParams}`, {
+      const response = await apiFetch(`/api/admin/content?${queryParams}`, {
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json',
           'Cache-Control': 'no-cache'
         },
@@ -345,11 +344,8 @@ const ContentManagement = () => {
   const handleDelete = async (id: number) => {
     if (window.confirm('Вы уверены, что хотите удалить этот контент?')) {
       try {
-        const response = await fetch(`/api/admin/content/${id}`, {
+        const response = await apiFetch(`/api/admin/content/${id}`, {
           method: 'DELETE',
-          headers: {
-            'Authorization': `Bearer ${localStorage.getItem('token')}`,
-          },
         });
         if (!response.ok) throw new Error('Ошибка при удалении');
         setMediaItems(prevItems => prevItems.filter(item => item.id !== id));
@@ -3,6 +3,7 @@ import { useRouter } from 'next/router';
 import AdminLayout from '@/components/Admin/AdminLayout';
 import styled from 'styled-components';
 import { useAuth } from '@/hooks/useAuth';
+import { apiFetch } from '@/utils/apiFetch';
 
 const DashboardContainer = styled.div`
   display: grid;
@@ -33,7 +34,7 @@ interface DashboardStats {
 
 const AdminDashboard = () => {
   const router = useRouter();
-  const { user, isLoading: authLoading } = useAuth();
+  const { user, isLoading: authLoading, hasAdminAccess } = useAuth();
   const [isAuthorized, setIsAuthorized] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [stats, setStats] = useState<DashboardStats>({
@@ -55,11 +56,7 @@ const AdminDashboard = () => {
         return;
       }
 
-      const response = await fetch('/api/admin/stats', {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`,
-        },
-      });
+      const response = await apiFetch('/api/admin/stats');
       
       if (!response.ok) throw new Error('Ошибка при загрузке статистики');
       
@@ -82,7 +79,7 @@ const AdminDashboard = () => {
     const checkAuth = async () => {
       if (authLoading) return;
       
-      if (!user || user.role !== 'ADMIN') {
+      if (!user || !hasAdminAccess) {
         router.push('/auth/login');
         return;
       }
@@ -3,16 +3,11 @@ import { useRouter } from 'next/router';
 import AdminLayout from '@/components/Admin/AdminLayout';
 import styled from 'styled-components';
 import { useAuth } from '@/hooks/useAuth';
+import { useParserEvents, ParserStatusValue } from '@/hooks/useParserEvents';
+import { apiFetch } from '@/utils/apiFetch';
 import ParserHistory from '@/components/Admin/ParserHistory';
 import { useTheme } from 'styled-components';
 
-interface ContentUpdateData {
-  title?: string;
-  type?: 'movie' | 'series';
-  posterUrl?: string;
-  source?: string;
-}
-
 const ParserContainer = styled.div`
   padding: 2rem;
   background: ${({ theme }) => theme.colors.background};
@@ -96,7 +91,14 @@ const Button = styled.button`
   }
 `;
 
-const StatusIndicator = styled.div<{ status: 'ACTIVE' | 'INACTIVE' | 'ERROR' }>`
+const STATUS_LABELS: Record<ParserStatusValue, string> = {
+  active: 'Активен',
+  inactive: 'Неактивен',
+  error: 'Ошибка',
+  cancelled: 'Остановлен'
+};
+
+const StatusIndicator = styled.div<{ status: ParserStatusValue }>`
   display: flex;
   align-items: center;
   gap: 0.75rem;
@@ -106,11 +108,11 @@ const StatusIndicator = styled.div<{ status: 'ACTIVE' | 'INACTIVE' | 'ERROR' }>`
   font-weight: 600;
   color: white;
   background-color: ${({ status }) =>
-    status === 'ACTIVE' ? '#10B981' :
-    status === 'INACTIVE' ? '#6B7280' : '#EF4444'};
+    status === 'active' ? '#10B981' :
+    status === 'error' ? '#EF4444' : '#6B7280'};
   box-shadow: 0 2px 4px ${({ status }) =>
-    status === 'ACTIVE' ? 'rgba(16, 185, 129, 0.2)' :
-    status === 'INACTIVE' ? 'rgba(107, 114, 128, 0.2)' : 'rgba(239, 68, 68, 0.2)'};
+    status === 'active' ? 'rgba(16, 185, 129, 0.2)' :
+    status === 'error' ? 'rgba(239, 68, 68, 0.2)' : 'rgba(107, 114, 128, 0.2)'};
 
   &::before {
     content: '';
@@ -120,7 +122,7 @@ const StatusIndicator = styled.div<{ status: 'ACTIVE' | 'INACTIVE' | 'ERROR' }>`
     border-radius: 50%;
     background-color: white;
     box-shadow: 0 0 10px rgba(255, 255, 255, 0.5);
-    animation: ${({ status }) => status === 'ACTIVE' ? 'pulse 1.5s infinite' : 'none'};
+    animation: ${({ status }) => status === 'active' ? 'pulse 1.5s infinite' : 'none'};
   }
 
   @keyframes pulse {
@@ -130,25 +132,38 @@ const StatusIndicator = styled.div<{ status: 'ACTIVE' | 'INACTIVE' | 'ERROR' }>`
   }
 `;
 
+type ApiKeyField = 'kinopoiskApiKey' | 'omdbApiKey' | 'tmdbApiKey';
+
+interface MetadataProviderInfo {
+  id: string;
+  name: string;
+  apiKeyField: ApiKeyField;
+}
+
+type ContentType = 'MOVIE' | 'SERIES';
+
+interface DiscoveryStrategyInfo {
+  id: string;
+  name: string;
+}
+
 interface ParserSettings {
   kinopoiskApiKey: string;
   omdbApiKey: string;
+  tmdbApiKey: string;
+  enabledProviders: string[];
   updateInterval: number;
   autoUpdate: boolean;
-  contentTypes: Array<'movies' | 'series'>;
+  contentTypes: ContentType[];
+  discoveryStrategies: string[];
+  discoveryYearFrom: number | null;
+  discoveryYearTo: number | null;
+  discoveryGenres: string[];
+  discoveryCountries: string[];
   lastUpdate?: string;
   isEnabled: boolean;
 }
 
-interface ParserStatus {
-  status: 'ACTIVE' | 'INACTIVE' | 'ERROR';
-  lastRun: string | null;
-  processedItems: number;
-  errors: string[];
-  currentOperation?: string;
-  progress?: number;
-}
-
 const ParserManagement = () => {
   const theme = useTheme();
   const [isAuthorized, setIsAuthorized] = useState(false);
@@ -157,20 +172,34 @@ const ParserManagement = () => {
   const [settings, setSettings] = useState<ParserSettings>({
     kinopoiskApiKey: '',
     omdbApiKey: '',
+    tmdbApiKey: '',
+    enabledProviders: [],
     updateInterval: 24,
     autoUpdate: true,
-    contentTypes: [] as Array<'movies' | 'series'>,
+    contentTypes: [],
+    discoveryStrategies: [],
+    discoveryYearFrom: null,
+    discoveryYearTo: null,
+    discoveryGenres: [],
+    discoveryCountries: [],
     isEnabled: false,
     lastUpdate: undefined
   });
-  const [status, setStatus] = useState<ParserStatus>({
-    status: 'INACTIVE',
+  const [providers, setProviders] = useState<MetadataProviderInfo[]>([]);
+  const [discoveryStrategies, setDiscoveryStrategies] = useState<DiscoveryStrategyInfo[]>([]);
+  const router = useRouter();
+  const { user, can } = useAuth();
+  // Статус парсера приходит из потока событий, поэтому страница его не опрашивает
+  const { status: liveStatus } = useParserEvents(isAuthorized);
+  const status = liveStatus || {
+    status: 'inactive' as ParserStatusValue,
     lastRun: null,
     processedItems: 0,
-    errors: []
-  });
-  const router = useRouter();
-  const { user } = useAuth();
+    errors: [],
+    currentItem: null,
+    run: null,
+    quotas: []
+  };
 
   const showError = useCallback((message: string) => {
     setError(message);
@@ -182,10 +211,7 @@ const ParserManagement = () => {
     
     try {
       const controller = new AbortController();
-      const response = await fetch('/api/admin/parser', {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`,
-        },
+      const response = await apiFetch('/api/admin/parser', {
         signal: controller.signal
       });
 
@@ -200,11 +226,11 @@ const ParserManagement = () => {
           ...data.settings
         }));
       }
-      if (data.status) {
-        setStatus(prev => ({
-          ...prev,
-          ...data.status
-        }));
+      if (data.providers) {
+        setProviders(data.providers);
+      }
+      if (data.discoveryStrategies) {
+        setDiscoveryStrategies(data.discoveryStrategies);
       }
       return () => controller.abort();
     } catch (error) {
@@ -216,27 +242,6 @@ const ParserManagement = () => {
     }
   }, [isAuthorized, isLoading, showError]);
 
-  useEffect(() => {
-    let isMounted = true;
-    let timeoutId: NodeJS.Timeout;
-    
-    const fetchStatus = async () => {
-      if (!isMounted || !isAuthorized || status.status !== 'ACTIVE') return;
-      
-      await loadParserSettings();
-      timeoutId = setTimeout(fetchStatus, 5000);
-    };
-
-    fetchStatus();
-
-    return () => {
-      isMounted = false;
-      if (timeoutId) {
-        clearTimeout(timeoutId);
-      }
-    };
-  }, [isAuthorized, status.status, loadParserSettings]);
-
   useEffect(() => {
     let isMounted = true;
     
@@ -255,7 +260,7 @@ const ParserManagement = () => {
       return;
     }
 
-    if (user?.role !== 'ADMIN') {
+    if (!can('parser:view')) {
       router.push('/');
       return;
     }
@@ -274,7 +279,7 @@ const ParserManagement = () => {
         return;
       }
 
-      if (user?.role !== 'ADMIN') {
+      if (!can('parser:view')) {
         await router.push('/');
         return;
       }
@@ -293,19 +298,31 @@ const ParserManagement = () => {
     return null;
   }
 
+  const toggleContentType = (type: ContentType, checked: boolean) => {
+    setSettings(prev => ({
+      ...prev,
+      contentTypes: checked ? [...prev.contentTypes, type] : prev.contentTypes.filter(t => t !== type)
+    }));
+  };
+
+  // Пустое поле года означает выборку за текущий и прошлый год
+  const readYear = (value: string): number | null => (value ? parseInt(value) : null);
+
   const handleSettingsUpdate = async () => {
     if (isLoading) return;
     setIsLoading(true);
     
     try {
-      if (!settings.kinopoiskApiKey || !settings.omdbApiKey) {
-        throw new Error('API ключи обязательны для заполнения');
+      const missingKey = providers.find(provider =>
+        settings.enabledProviders.includes(provider.id) && !settings[provider.apiKeyField]
+      );
+      if (missingKey) {
+        throw new Error(`Укажите API ключ для источника ${missingKey.name}`);
       }
 
-      const response = await fetch('/api/admin/parser', {
+      const response = await apiFetch('/api/admin/parser', {
         method: 'PUT',
         headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ settings }),
@@ -328,24 +345,12 @@ const ParserManagement = () => {
 
   const handleStartParser = async () => {
     if (isLoading) return;
-    if (!settings.kinopoiskApiKey || !settings.omdbApiKey) {
-      showError('Необходимо указать API ключи перед запуском парсера');
-      return;
-    }
     
     setIsLoading(true);
     try {
-      const action = status.status === 'ACTIVE' ? 'stop' : 'start';
-      const response = await fetch(`/api/admin/parser?action=${action}`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          kinopoiskApiKey: settings.kinopoiskApiKey,
-          omdbApiKey: settings.omdbApiKey
-        })
+      const action = status.status === 'active' ? 'stop' : 'start';
+      const response = await apiFetch(`/api/admin/parser?action=${action}`, {
+        method: 'POST'
       });
       
       const data = await response.json();
@@ -354,13 +359,6 @@ const ParserManagement = () => {
         throw new Error(data.error || `Ошибка при ${action === 'start' ? 'запуске' : 'остановке'} парсера`);
       }
       
-      setStatus(prev => ({
-        ...prev,
-        status: action === 'start' ? 'ACTIVE' : 'INACTIVE',
-        lastRun: action === 'start' ? new Date().toISOString() : prev.lastRun,
-        errors: []
-      }));
-
       showError(action === 'start' ? 'Парсер успешно запущен' : 'Парсер остановлен');
     } catch (error: unknown) {
       console.error('Error:', error);
@@ -378,9 +376,8 @@ const ParserManagement = () => {
         <Section>
           <h2>Статус парсера</h2>
           <div className="status-wrapper" style={{ display: 'flex', flexDirection: 'column', gap: '15px', marginBottom: '20px' }}>
-            <StatusIndicator status={status.status.toLowerCase() as 'ACTIVE' | 'INACTIVE' | 'ERROR'}>
-              {status.status === 'ACTIVE' ? 'Активен' :
-               status.status === 'INACTIVE' ? 'Неактивен' : 'Ошибка'}
+            <StatusIndicator status={status.status}>
+              {STATUS_LABELS[status.status]}
             </StatusIndicator>
             <p>Последний запуск: {status.lastRun ? 
               new Date(status.lastRun).toLocaleString('ru-RU', {
@@ -391,6 +388,15 @@ const ParserManagement = () => {
                 minute: '2-digit'
               }) : 'Нет данных'}</p>
           <p>Обработано элементов: {status.processedItems}</p>
+          {status.status === 'active' && status.currentItem && (
+            <p>Сейчас обрабатывается: {status.currentItem}</p>
+          )}
+          {status.run && (
+            <p>
+              Запуск #{status.run.id}: добавлено {status.run.createdCount}, обновлено {status.run.updatedCount},
+              пропущено {status.run.skippedCount}, ошибок {status.run.failedCount}
+            </p>
+          )}
           {status.errors.length > 0 && (
             <div>
               <h3>Ошибки:</h3>
@@ -403,29 +409,49 @@ const ParserManagement = () => {
           )}
           <Button onClick={handleStartParser} disabled={isLoading}>
             {isLoading ? 'Загрузка...' :
-             status.status === 'ACTIVE' ? 'Остановить парсер' : 'Запустить парсер'}
+             status.status === 'active' ? 'Остановить парсер' : 'Запустить парсер'}
           </Button>
           </div>
         </Section>
 
+        <Section>
+          <h2>Запросы к источникам за сутки</h2>
+          <ul>
+            {status.quotas.map(quota => (
+              <li key={quota.provider}>
+                {providers.find(provider => provider.id === quota.provider)?.name || quota.provider}:{' '}
+                {quota.dailyQuota !== null ? `${quota.requests} из ${quota.dailyQuota}` : quota.requests}
+                {quota.throttled > 0 && ` (ответов 429: ${quota.throttled})`}
+              </li>
+            ))}
+          </ul>
+        </Section>
+
         <Section>
           <h2>Настройки парсера</h2>
-          <FormGroup>
-            <Label>Kinopoisk API Key</Label>
-            <Input
-              type="text"
-              value={settings.kinopoiskApiKey}
-              onChange={(e) => setSettings(prev => ({ ...prev, kinopoiskApiKey: e.target.value }))}
-            />
-          </FormGroup>
-          <FormGroup>
-            <Label>OMDb API Key</Label>
-            <Input
-              type="text"
-              value={settings.omdbApiKey}
-              onChange={(e) => setSettings(prev => ({ ...prev, omdbApiKey: e.target.value }))}
-            />
-          </FormGroup>
+          {providers.map(provider => (
+            <FormGroup key={provider.id}>
+              <Label>
+                <input
+                  type="checkbox"
+                  checked={settings.enabledProviders.includes(provider.id)}
+                  onChange={(e) => setSettings(prev => ({
+                    ...prev,
+                    enabledProviders: e.target.checked
+                      ? [...prev.enabledProviders, provider.id]
+                      : prev.enabledProviders.filter(id => id !== provider.id)
+                  }))}
+                />
+                {provider.name}
+              </Label>
+              <Input
+                type="text"
+                placeholder="API ключ"
+                value={settings[provider.apiKeyField]}
+                onChange={(e) => setSettings(prev => ({ ...prev, [provider.apiKeyField]: e.target.value }))}
+              />
+            </FormGroup>
+          ))}
           <FormGroup>
             <Label>Интервал обновления (часы)</Label>
             <Input
@@ -450,31 +476,81 @@ const ParserManagement = () => {
               <label>
                 <input
                   type="checkbox"
-                  checked={settings.contentTypes.includes('movies')}
-                  onChange={(e) => {
-                    const newTypes = e.target.checked
-                      ? [...settings.contentTypes, 'movies'] as Array<'movies' | 'series'>
-                      : settings.contentTypes.filter(t => t !== 'movies') as Array<'movies' | 'series'>;
-                    setSettings(prev => ({ ...prev, contentTypes: newTypes }));
-                  }}
+                  checked={settings.contentTypes.includes('MOVIE')}
+                  onChange={(e) => toggleContentType('MOVIE', e.target.checked)}
                 />
                 Фильмы
               </label>
               <label style={{ marginLeft: '20px' }}>
                 <input
                   type="checkbox"
-                  checked={settings.contentTypes.includes('series')}
-                  onChange={(e) => {
-                    const newTypes = e.target.checked
-                      ? [...settings.contentTypes, 'series'] as Array<'movies' | 'series'>
-                      : settings.contentTypes.filter(t => t !== 'series') as Array<'movies' | 'series'>;
-                    setSettings(prev => ({ ...prev, contentTypes: newTypes }));
-                  }}
+                  checked={settings.contentTypes.includes('SERIES')}
+                  onChange={(e) => toggleContentType('SERIES', e.target.checked)}
                 />
                 Сериалы
               </label>
             </div>
           </FormGroup>
+          <FormGroup>
+            <Label>Поиск нового контента</Label>
+            {discoveryStrategies.map(strategy => (
+              <div key={strategy.id}>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={settings.discoveryStrategies.includes(strategy.id)}
+                    onChange={(e) => setSettings(prev => ({
+                      ...prev,
+                      discoveryStrategies: e.target.checked
+                        ? [...prev.discoveryStrategies, strategy.id]
+                        : prev.discoveryStrategies.filter(id => id !== strategy.id)
+                    }))}
+                  />
+                  {strategy.name}
+                </label>
+              </div>
+            ))}
+          </FormGroup>
+          {settings.discoveryStrategies.includes('filters') && (
+            <>
+              <FormGroup>
+                <Label>Выборка: с года</Label>
+                <Input
+                  type="number"
+                  placeholder="Прошлый год"
+                  value={settings.discoveryYearFrom ?? ''}
+                  onChange={(e) => setSettings(prev => ({ ...prev, discoveryYearFrom: readYear(e.target.value) }))}
+                />
+              </FormGroup>
+              <FormGroup>
+                <Label>Выборка: по год (включительно)</Label>
+                <Input
+                  type="number"
+                  placeholder="Текущий год"
+                  value={settings.discoveryYearTo ?? ''}
+                  onChange={(e) => setSettings(prev => ({ ...prev, discoveryYearTo: readYear(e.target.value) }))}
+                />
+              </FormGroup>
+              <FormGroup>
+                <Label>Жанры через запятую</Label>
+                <Input
+                  type="text"
+                  placeholder="драма, комедия"
+                  value={settings.discoveryGenres.join(',')}
+                  onChange={(e) => setSettings(prev => ({ ...prev, discoveryGenres: e.target.value.split(',') }))}
+                />
+              </FormGroup>
+              <FormGroup>
+                <Label>Страны через запятую</Label>
+                <Input
+                  type="text"
+                  placeholder="Россия, США"
+                  value={settings.discoveryCountries.join(',')}
+                  onChange={(e) => setSettings(prev => ({ ...prev, discoveryCountries: e.target.value.split(',') }))}
+                />
+              </FormGroup>
+            </>
+          )}
           {error && (
             <div style={{ color: error.includes('успешно') ? 'green' : 'red', marginBottom: '10px' }}>
               {error}
@@ -484,38 +560,7 @@ const ParserManagement = () => {
             {isLoading ? 'Сохранение...' : 'Сохранить настройки'}
           </Button>
         </Section>
-        <ParserHistory
-          onUpdateContent={async (id: string, data: ContentUpdateData) => {
-            try {
-              const response = await fetch(`/api/admin/parser/content/${id}`, {
-                method: 'PUT',
-                headers: {
-                  'Authorization': `Bearer ${localStorage.getItem('token')}`,
-                  'Content-Type': 'application/json'
-                },
-                body: JSON.stringify(data)
-              });
-              if (!response.ok) throw new Error('Ошибка при обновлении контента');
-            } catch (error) {
-              console.error('Error updating content:', error);
-              throw error;
-            }
-          }}
-          onDeleteContent={async (id: string) => {
-            try {
-              const response = await fetch(`/api/admin/parser/content/${id}`, {
-                method: 'DELETE',
-                headers: {
-                  'Authorization': `Bearer ${localStorage.getItem('token')}`,
-                }
-              });
-              if (!response.ok) throw new Error('Ошибка при удалении контента');
-            } catch (error) {
-              console.error('Error deleting content:', error);
-              throw error;
-            }
-          }}
-        />
+        <ParserHistory />
       </ParserContainer>
     </AdminLayout>
   );
@@ -2,6 +2,7 @@ import { useEffect, useState } from 'react';
 import { Box, Container, Typography, Paper, CircularProgress } from '@mui/material';
 import AdminLayout from '@/components/Admin/AdminLayout';
 import { useAuth } from '@/hooks/useAuth';
+import { apiFetch } from '@/utils/apiFetch';
 import { useRouter } from 'next/router';
 
 interface ParserSettings {
@@ -12,25 +13,27 @@ interface ParserSettings {
   contentTypes: string[];
 }
 
+const CONTENT_TYPE_LABELS: Record<string, string> = {
+  MOVIE: 'Фильмы',
+  SERIES: 'Сериалы'
+};
+
 export default function AdminSettings() {
-  const { token, isAdmin } = useAuth();
+  const { isAuthenticated, can } = useAuth();
+  const canManageParser = can('parser:settings');
   const router = useRouter();
   const [loading, setLoading] = useState(true);
   const [settings, setSettings] = useState<ParserSettings | null>(null);
 
   useEffect(() => {
-    if (!token || !isAdmin) {
+    if (!isAuthenticated || !canManageParser) {
       router.push('/auth/login');
       return;
     }
 
     const fetchSettings = async () => {
       try {
-        const response = await fetch('/api/admin/parser', {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        });
+        const response = await apiFetch('/api/admin/parser');
 
         if (response.ok) {
           const data = await response.json();
@@ -46,7 +49,7 @@ export default function AdminSettings() {
     };
 
     fetchSettings();
-  }, [token, isAdmin, router]);
+  }, [isAuthenticated, canManageParser, router]);
 
   if (loading) {
     return (
@@ -74,7 +77,7 @@ export default function AdminSettings() {
               <Typography>API ключ OMDB: {settings.omdbApiKey}</Typography>
               <Typography>Интервал обновления: {settings.updateInterval} минут</Typography>
               <Typography>Автообновление: {settings.autoUpdate ? 'Включено' : 'Выключено'}</Typography>
-              <Typography>Типы контента: {settings.contentTypes.join(', ')}</Typography>
+              <Typography>Типы контента: {settings.contentTypes.map(type => CONTENT_TYPE_LABELS[type] || type).join(', ')}</Typography>
             </Box>
           )}
         </Paper>
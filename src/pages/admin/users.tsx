@@ -1,14 +1,20 @@
 import { useEffect, useState } from 'react';
-import { Box, Container, Typography, Paper, CircularProgress, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, TextField, IconButton, Button, Menu, MenuItem } from '@mui/material';
+import { Box, Container, Typography, Paper, CircularProgress, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, TextField, IconButton, Button, Menu, MenuItem, Dialog, DialogTitle, DialogContent, DialogActions, Select } from '@mui/material';
 import AdminLayout from '@/components/Admin/AdminLayout';
 import { useAuth } from '@/hooks/useAuth';
+import { apiFetch } from '@/utils/apiFetch';
+import { ROLE_LABELS, USER_ROLES } from '@/utils/permissions';
+import type { UserRole } from '@prisma/client';
 import { useRouter } from 'next/router';
 
 interface User {
   id: number;
   email: string;
-  role: string;
+  role: UserRole;
   is_verified: boolean;
+  is_blocked: boolean;
+  blocked_reason?: string | null;
+  blocked_until?: string | null;
   created_at: string;
   nickname?: string;
 }
@@ -19,13 +25,16 @@ interface UserAction {
 }
 
 export default function AdminUsers() {
-  const { token, isAdmin } = useAuth();
+  const { isAuthenticated, can } = useAuth();
+  const canViewUsers = can('users:view');
   const router = useRouter();
   const [loading, setLoading] = useState(true);
   const [users, setUsers] = useState<User[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
   const [selectedUserId, setSelectedUserId] = useState<number | null>(null);
+  const [roleDialogUser, setRoleDialogUser] = useState<User | null>(null);
+  const [selectedRole, setSelectedRole] = useState<UserRole>('USER');
 
   const handleMenuOpen = (event: React.MouseEvent<HTMLElement>, userId: number) => {
     setAnchorEl(event.currentTarget);
@@ -37,30 +46,63 @@ export default function AdminUsers() {
     setSelectedUserId(null);
   };
 
-  const handleAction = async (action: string) => {
-    if (!selectedUserId) return;
+  const openRoleDialog = () => {
+    const target = users.find(user => user.id === selectedUserId);
+    if (target) {
+      setRoleDialogUser(target);
+      setSelectedRole(target.role);
+    }
+    handleMenuClose();
+  };
+
+  const handleRoleSave = async () => {
+    if (!roleDialogUser) return;
+    const userId = roleDialogUser.id;
+    setRoleDialogUser(null);
+    await handleAction('setRole', userId, { role: selectedRole });
+  };
+
+  const handleAction = async (action: string, userId = selectedUserId, extra: Record<string, unknown> = {}) => {
+    if (!userId) return;
+
+    let blockOptions = {};
+    if (action === 'block') {
+      const reason = window.prompt('Причина блокировки');
+      if (reason === null) {
+        handleMenuClose();
+        return;
+      }
+      const duration = window.prompt('Срок блокировки в часах (пусто — бессрочно)');
+      if (duration === null) {
+        handleMenuClose();
+        return;
+      }
+      blockOptions = { reason, durationHours: duration ? Number(duration) : null };
+    }
+
     const controller = new AbortController();
     try {
       setLoading(true);
-      const response = await fetch('/api/admin/update-role', {
+      const response = await apiFetch('/api/admin/update-role', {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          userId: selectedUserId,
-          action: action
+          userId,
+          action: action,
+          ...blockOptions,
+          ...extra
         }),
         signal: controller.signal
       });
 
       if (!response.ok) {
-        throw new Error('Ошибка при обновлении пользователя');
+        const data = await response.json();
+        throw new Error(data.error || 'Ошибка при обновлении пользователя');
       }
 
-      const updatedUsers = await fetch('/api/admin/users', {
-        headers: { Authorization: `Bearer ${token}` },
+      const updatedUsers = await apiFetch('/api/admin/users', {
         signal: controller.signal
       }).then(res => {
         if (!res.ok) throw new Error('Ошибка при получении обновленного списка');
@@ -72,6 +114,7 @@ export default function AdminUsers() {
       if (error instanceof Error) {
         if (error.name === 'AbortError') return;
         console.error('Ошибка при обновлении пользователя:', error.message);
+        window.alert(error.message);
       }
     } finally {
       setLoading(false);
@@ -92,7 +135,7 @@ export default function AdminUsers() {
 
   useEffect(() => {
     const checkAdminAccess = async () => {
-      if (!token || !isAdmin) {
+      if (!isAuthenticated || !canViewUsers) {
         await router.push('/auth/login');
         return;
       }
@@ -106,10 +149,7 @@ export default function AdminUsers() {
     const fetchUsers = async () => {
       try {
         setLoading(true);
-        const response = await fetch('/api/admin/users', {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
+        const response = await apiFetch('/api/admin/users', {
           signal: controller.signal
         });
 
@@ -139,7 +179,7 @@ export default function AdminUsers() {
       isSubscribed = false;
       controller.abort();
     };
-  }, [token, isAdmin, router]);
+  }, [isAuthenticated, canViewUsers, router]);
 
   if (loading) {
     return (
@@ -184,8 +224,10 @@ export default function AdminUsers() {
                   <TableRow key={user.id} style={{ cursor: 'pointer' }}>
                     <TableCell onClick={() => router.push(`/profile/${user.id}`)}>{user.id}</TableCell>
                     <TableCell onClick={() => router.push(`/profile/${user.id}`)}>{user.email}</TableCell>
-                    <TableCell onClick={() => router.push(`/profile/${user.id}`)}>{user.role}</TableCell>
-                    <TableCell onClick={() => router.push(`/profile/${user.id}`)}>{user.is_verified ? 'Подтвержден' : 'Не подтвержден'}</TableCell>
+                    <TableCell onClick={() => router.push(`/profile/${user.id}`)}>{ROLE_LABELS[user.role] || user.role}</TableCell>
+                    <TableCell onClick={() => router.push(`/profile/${user.id}`)}>{user.is_blocked
+                      ? `Заблокирован${user.blocked_until ? ` до ${new Date(user.blocked_until).toLocaleString()}` : ''}${user.blocked_reason ? `: ${user.blocked_reason}` : ''}`
+                      : (user.is_verified ? 'Подтвержден' : 'Не подтвержден')}</TableCell>
                     <TableCell onClick={() => router.push(`/profile/${user.id}`)}>{new Date(user.created_at).toLocaleDateString()}</TableCell>
                     <TableCell>
                       <Box display="flex" gap={1}>
@@ -216,11 +258,34 @@ export default function AdminUsers() {
           open={Boolean(anchorEl)}
           onClose={handleMenuClose}
         >
-          <MenuItem onClick={() => handleAction('makeAdmin')}>Назначить администратором</MenuItem>
-          <MenuItem onClick={() => handleAction('removeAdmin')}>Убрать права администратора</MenuItem>
-          <MenuItem onClick={() => handleAction('block')}>Заблокировать</MenuItem>
-          <MenuItem onClick={() => handleAction('unblock')}>Разблокировать</MenuItem>
+          {can('users:roles') && (
+            <MenuItem onClick={openRoleDialog}>Изменить роль</MenuItem>
+          )}
+          {can('users:block') && [
+            <MenuItem key="block" onClick={() => handleAction('block')}>Заблокировать</MenuItem>,
+            <MenuItem key="unblock" onClick={() => handleAction('unblock')}>Разблокировать</MenuItem>
+          ]}
         </Menu>
+        <Dialog open={Boolean(roleDialogUser)} onClose={() => setRoleDialogUser(null)}>
+          <DialogTitle>Роль пользователя {roleDialogUser?.email}</DialogTitle>
+          <DialogContent>
+            <Select
+              fullWidth
+              size="small"
+              value={selectedRole}
+              onChange={(e) => setSelectedRole(e.target.value as UserRole)}
+              sx={{ mt: 1 }}
+            >
+              {USER_ROLES.map(role => (
+                <MenuItem key={role} value={role}>{ROLE_LABELS[role]}</MenuItem>
+              ))}
+            </Select>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setRoleDialogUser(null)}>Отмена</Button>
+            <Button variant="contained" onClick={handleRoleSave}>Сохранить</Button>
+          </DialogActions>
+        </Dialog>
       </Container>
     </AdminLayout>
   );
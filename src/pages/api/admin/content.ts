@@ -1,35 +1,14 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { PrismaClient, Prisma } from '@prisma/client';
-import { verifyToken } from '@/utils/auth';
-
-type DecodedToken = {
-  userId: number;
-  role?: 'USER' | 'ADMIN';
-};
+import { requirePermission } from '@/utils/requireAuth';
 
 const prisma = new PrismaClient();
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
     // Проверка авторизации
-    const token = req.headers.authorization?.split(' ')[1];
-    if (!token) {
-      return res.status(401).json({ error: 'Требуется авторизация' });
-    }
-
-    const decoded = await verifyToken(token) as DecodedToken;
-    if (!decoded || !decoded.userId) {
-      return res.status(401).json({ error: 'Недействительный токен' });
-    }
-
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
-      select: { role: true }
-    });
-
-    if (!user || user.role !== 'ADMIN') {
-      return res.status(403).json({ error: 'Доступ запрещен' });
-    }
+    const user = await requirePermission(req, res, req.method === 'GET' ? 'media:view' : 'media:edit');
+    if (!user) return;
 
     switch (req.method) {
       case 'GET':
@@ -1,25 +1,28 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { prisma } from '@/config/database';
-import { verifyToken } from '@/utils/auth';
-import { MediaParser } from '@/services/parser/mediaParser';
+import { requirePermission } from '@/utils/requireAuth';
+import { METADATA_PROVIDERS, isMetadataProviderId } from '@/services/parser/providers';
+import { startParserRun, stopParserRun } from '@/services/parser/runner';
+import { DISCOVERY_STRATEGIES, isDiscoveryStrategy, isMediaKind } from '@/services/parser/discovery';
 import { Prisma } from '@prisma/client';
+import { Permission } from '@/utils/permissions';
 
-// Кэш для хранения результатов запросов
-const cache = new Map();
-const CACHE_TTL = 60000; // 1 минута
-
-const getCachedData = (key: string) => {
-  const data = cache.get(key);
-  if (data && Date.now() - data.timestamp < CACHE_TTL) {
-    return data.value;
-  }
-  cache.delete(key);
-  return null;
+// Просмотр, запуск/остановка и изменение настроек парсера — отдельные права
+const PARSER_METHOD_PERMISSIONS: Record<string, Permission> = {
+  GET: 'parser:view',
+  POST: 'parser:run',
+  PUT: 'parser:settings'
 };
 
-const setCachedData = (key: string, value: any) => {
-  cache.set(key, { value, timestamp: Date.now() });
-};
+// Год выборки не обязателен: без него парсер берет текущий и прошлый год
+const isDiscoveryYear = (value: unknown): value is number | null =>
+  value === null || (Number.isInteger(value) && (value as number) >= 1900 && (value as number) <= 2100);
+
+const isNameList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Пустые строки остаются от лишних запятых в поле ввода
+const cleanNames = (names: string[]): string[] => names.map(name => name.trim()).filter(Boolean);
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
@@ -28,81 +31,17 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     res.setHeader('Pragma', 'no-cache');
     res.setHeader('Expires', '0');
 
-    const authHeader = req.headers.authorization;
-    if (!authHeader) {
-      return res.status(401).json({ error: 'Требуется авторизация' });
-    }
-
-  const token = authHeader.split(' ')[1];
-  const payload = await verifyToken(token);
-
-  if (!payload || typeof payload.userId !== 'number') {
-    return res.status(401).json({ error: 'Недействительный токен' });
-  }
-
-  // Проверка прав администратора
-  const user = await prisma.user.findUnique({
-    where: { id: payload.userId },
-    select: { role: true }
-  });
-
-  if (!user || user.role !== 'ADMIN') {
-    return res.status(403).json({ error: 'Недостаточно прав' });
-  }
+  const user = await requirePermission(req, res, PARSER_METHOD_PERMISSIONS[req.method || 'GET'] || 'parser:view');
+  if (!user) return;
 
   if (req.method === 'GET') {
     try {
-      // Проверяем кэш с учетом времени жизни
-      const cacheKey = `parser_data_${payload.userId}`;
-      const cachedData = getCachedData(cacheKey);
-      const cacheLifetime = 5000; // 5 секунд
-      
-      if (cachedData && Date.now() - cachedData.timestamp < cacheLifetime) {
-        return res.status(200).json(cachedData.data);
-      }
-
-      let settings, status;
-      const maxRetries = 5; // Увеличиваем количество попыток
-      let attempt = 0;
-      
-      while (attempt < maxRetries) {
-        try {
-          // Используем более эффективную транзакцию
-          [settings, status] = await Promise.all([
-            prisma.$transaction(async (tx) => {
-              return await tx.parserSettings.findFirst();
-            }, {
-              timeout: 5000,
-              maxWait: 5000
-            }),
-            prisma.$transaction(async (tx) => {
-              return await tx.parserStatus.findFirst();
-            }, {
-              timeout: 5000,
-              maxWait: 5000
-            })
-          ]);
-          // Сохраняем результат в кэш с временной меткой
-          const result = { 
-            data: { settings, status },
-            timestamp: Date.now()
-          };
-          setCachedData(cacheKey, result);
-          break;
-        } catch (dbError) {
-          attempt++;
-          if (attempt === maxRetries) {
-            console.error('Database connection error after retries:', dbError);
-            return res.status(503).json({ 
-              error: 'База данных временно недоступна. Пожалуйста, попробуйте позже.',
-              details: dbError instanceof Error ? dbError.message : 'Неизвестная ошибка'
-            });
-          }
-          // Экспоненциальная задержка между попытками
-          const backoff = Math.min(1000 * Math.pow(2, attempt), 10000);
-          await new Promise(resolve => setTimeout(resolve, backoff));
-        }
-      }
+      // Статус парсера во время работы приходит через /api/admin/parser/events,
+      // этот маршрут читают только при открытии страницы и после сохранения настроек
+      let [settings, status] = await Promise.all([
+        prisma.parserSettings.findFirst(),
+        prisma.parserStatus.findFirst()
+      ]);
 
       if (!settings || !status) {
         try {
@@ -114,7 +53,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                 omdbApiKey: '',
                 updateInterval: 24,
                 autoUpdate: true,
-                contentTypes: ['movies', 'series']
+                contentTypes: ['MOVIE', 'SERIES']
               }
             });
             
@@ -147,7 +86,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
       return res.status(200).json({
         settings,
-        status
+        status,
+        providers: METADATA_PROVIDERS,
+        discoveryStrategies: DISCOVERY_STRATEGIES
       });
     } catch (error) {
       console.error('Error fetching parser data:', error);
@@ -163,90 +104,15 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     if (action === 'start') {
       try {
-        const currentStatus = await prisma.parserStatus.findFirst();
-        
-        // Проверяем, действительно ли парсер активен
-        if (currentStatus?.status === 'active') {
-          // Проверяем, не завис ли парсер (если последний запуск был более 30 минут назад)
-          const thirtyMinutesAgo = new Date(Date.now() - 30 * 60 * 1000);
-          
-          if (currentStatus.lastRun && new Date(currentStatus.lastRun) < thirtyMinutesAgo) {
-            // Если парсер завис, сбрасываем его статус
-            await prisma.parserStatus.update({
-              where: { id: 1 },
-              data: {
-                status: 'inactive',
-                errors: ['Предыдущая сессия была прервана из-за таймаута']
-              }
-            });
-          } else {
-            return res.status(400).json({ 
-              error: 'Парсер уже запущен',
-              details: {
-                lastRun: currentStatus.lastRun,
-                processedItems: currentStatus.processedItems
-              }
-            });
-          }
-        }
-
-        await prisma.$transaction(async (tx) => {
-          await tx.parserStatus.upsert({
-            where: { id: 1 },
-            create: {
-              status: 'active',
-              lastRun: new Date(),
-              processedItems: 0,
-              errors: []
-            },
-            update: {
-              status: 'active',
-              lastRun: new Date(),
-              errors: [],
-              processedItems: 0
-            }
-          });
-
-          await tx.parserLog.create({
-            data: {
-              message: 'Парсер запущен',
-              error: '',
-              timestamp: new Date()
-            }
+        const result = await startParserRun('manual');
+        if (!result.started) {
+          return res.status(400).json({
+            error: result.error,
+            details: result.running
           });
-        });
-
-        // Получаем API ключи из запроса
-        const { kinopoiskApiKey, omdbApiKey } = req.body;
-
-        if (!kinopoiskApiKey || !omdbApiKey) {
-          return res.status(400).json({ error: 'Необходимо указать API ключи' });
         }
 
-        // Запускаем процесс парсинга асинхронно
-        const mediaParser = new MediaParser(kinopoiskApiKey, omdbApiKey);
-        mediaParser.start().catch(async (error) => {
-          console.error('Parser error:', error);
-          await prisma.$transaction(async (tx) => {
-            await tx.parserStatus.update({
-              where: { id: 1 },
-              data: {
-                status: 'error',
-                errors: [(error as Error).message]
-              }
-            });
-
-            await tx.parserLog.create({
-              data: {
-                message: 'Ошибка парсера',
-                error: (error as Error).message,
-                timestamp: new Date()
-              }
-            });
-          });
-        });
-
-        return res.status(200).json({ message: 'Парсер запущен' });
+        return res.status(200).json({ message: 'Парсер запущен', runId: result.runId });
       } catch (error) {
         console.error('Error starting parser:', error);
         return res.status(500).json({ error: 'Ошибка при запуске парсера' });
@@ -255,40 +121,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     if (action === 'stop') {
       try {
-        const currentStatus = await prisma.parserStatus.findFirst();
-        if (currentStatus?.status !== 'active') {
-          return res.status(400).json({ error: 'Парсер не запущен' });
+        const result = await stopParserRun();
+        if (!result.stopped) {
+          return res.status(400).json({ error: result.error });
         }
 
-        await prisma.$transaction(async (tx) => {
-          await tx.parserStatus.update({
-            where: { id: 1 },
-            data: {
-              status: 'inactive',
-              errors: []
-            }
-          });
-
-          await tx.parserLog.create({
-            data: {
-              message: 'Парсер остановлен',
-              error: '',
-              timestamp: new Date()
-            }
-          });
-        });
-
-        // Останавливаем процесс парсинга
-        const kinopoiskApiKey = process.env.KINOPOISK_API_KEY;
-        const omdbApiKey = process.env.OMDB_API_KEY;
-
-        if (!kinopoiskApiKey || !omdbApiKey) {
-          return res.status(500).json({ error: 'Отсутствуют необходимые API ключи' });
-        }
-
-        const mediaParser = new MediaParser(kinopoiskApiKey, omdbApiKey);
-        await mediaParser.stop();
-
         return res.status(200).json({ message: 'Парсер остановлен' });
       } catch (error) {
         console.error('Error stopping parser:', error);
@@ -300,22 +137,59 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   if (req.method === 'PUT') {
     const { settings } = req.body;
 
+    const enabledProviders = settings?.enabledProviders;
+    if (!Array.isArray(enabledProviders) || !enabledProviders.every(isMetadataProviderId)) {
+      return res.status(400).json({ error: 'Некорректный список источников метаданных' });
+    }
+
+    const { contentTypes, discoveryStrategies, discoveryYearFrom, discoveryYearTo } = settings;
+    if (!Array.isArray(contentTypes) || !contentTypes.every(isMediaKind)) {
+      return res.status(400).json({ error: 'Некорректный список типов контента' });
+    }
+
+    if (!Array.isArray(discoveryStrategies) || !discoveryStrategies.every(isDiscoveryStrategy)) {
+      return res.status(400).json({ error: 'Некорректный список способов поиска нового контента' });
+    }
+
+    if (!isDiscoveryYear(discoveryYearFrom) || !isDiscoveryYear(discoveryYearTo) ||
+        (discoveryYearFrom !== null && discoveryYearTo !== null && discoveryYearFrom > discoveryYearTo)) {
+      return res.status(400).json({ error: 'Некорректный диапазон лет выборки' });
+    }
+
+    if (!isNameList(settings.discoveryGenres) || !isNameList(settings.discoveryCountries)) {
+      return res.status(400).json({ error: 'Некорректный список жанров или стран выборки' });
+    }
+
+    const discovery = {
+      discoveryStrategies,
+      discoveryYearFrom,
+      discoveryYearTo,
+      discoveryGenres: cleanNames(settings.discoveryGenres),
+      discoveryCountries: cleanNames(settings.discoveryCountries)
+    };
+
     try {
       const updatedSettings = await prisma.parserSettings.upsert({
         where: { id: 1 },
         create: {
           kinopoiskApiKey: settings.kinopoiskApiKey,
           omdbApiKey: settings.omdbApiKey,
+          tmdbApiKey: settings.tmdbApiKey,
           updateInterval: settings.updateInterval,
           autoUpdate: settings.autoUpdate,
-          contentTypes: settings.contentTypes
+          contentTypes,
+          enabledProviders,
+          ...discovery
         },
         update: {
           kinopoiskApiKey: settings.kinopoiskApiKey,
           omdbApiKey: settings.omdbApiKey,
+          tmdbApiKey: settings.tmdbApiKey,
           updateInterval: settings.updateInterval,
           autoUpdate: settings.autoUpdate,
-          contentTypes: settings.contentTypes
+          contentTypes,
+          enabledProviders,
+          ...discovery
         }
       });
 
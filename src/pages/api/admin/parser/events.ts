@@ -0,0 +1,158 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { prisma } from '@/config/database';
+import { requirePermission } from '@/utils/requireAuth';
+import { subscribeParserChanges } from '@/services/parser/events';
+import { METADATA_PROVIDERS } from '@/services/parser/providers';
+import { getProviderQuotaUsage } from '@/services/parser/rateLimiter';
+
+// Поток изменений парсера (Server-Sent Events): событие status — состояние парсера, счетчики
+// последнего запуска и расход квот источников, событие log — новая запись ParserLog. id события log — id записи,
+// поэтому после переподключения браузер получает пропущенные записи по Last-Event-ID. Новый
+// EventSource этот заголовок не отправляет, поэтому id последней полученной записи можно передать
+// и параметром lastEventId
+
+export const config = {
+  api: {
+    responseLimit: false
+  }
+};
+
+// Изменения запуска на другом экземпляре приложения видны только при такой проверке
+const CHECK_INTERVAL = 3000;
+// Комментарий раз в 15 секунд не дает прокси закрыть простаивающее соединение
+const KEEPALIVE_INTERVAL = 15000;
+const RECONNECT_DELAY = 5000;
+const LOGS_BATCH_SIZE = 100;
+
+const readParserState = async () => {
+  const [status, run, quotas] = await Promise.all([
+    prisma.parserStatus.findFirst(),
+    prisma.parserHistory.findFirst({
+      orderBy: { startTime: 'desc' },
+      select: {
+        id: true,
+        status: true,
+        startTime: true,
+        createdCount: true,
+        updatedCount: true,
+        skippedCount: true,
+        failedCount: true
+      }
+    }),
+    getProviderQuotaUsage(METADATA_PROVIDERS.map(({ id }) => id))
+  ]);
+
+  return {
+    status: status?.status ?? 'inactive',
+    lastRun: status?.lastRun ?? null,
+    processedItems: status?.processedItems ?? 0,
+    errors: status?.errors ?? [],
+    currentItem: status?.currentItem ?? null,
+    run,
+    quotas
+  };
+};
+
+const writeEvent = (res: NextApiResponse, event: string, data: unknown, id?: number) => {
+  res.write(`${id !== undefined ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const user = await requirePermission(req, res, 'parser:view');
+    if (!user) return;
+
+    if (req.method !== 'GET') {
+      return res.status(405).json({ error: 'Метод не поддерживается' });
+    }
+
+    // Заголовок свежее параметра: при автоматическом переподключении браузер повторяет исходный URL
+    const lastEventId = parseInt((req.headers['last-event-id'] as string) || (req.query.lastEventId as string));
+    let logCursor = Number.isNaN(lastEventId) || lastEventId < 0
+      ? (await prisma.parserLog.aggregate({ _max: { id: true } }))._max.id ?? 0
+      : lastEventId;
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Сжатие и буферизация прокси задерживали бы события до закрытия потока
+      'Content-Encoding': 'none',
+      'X-Accel-Buffering': 'no'
+    });
+    res.write(`retry: ${RECONNECT_DELAY}\n\n`);
+
+    let closed = false;
+    let checking = false;
+    let pending = false;
+    let lastState = '';
+
+    // Уведомления приходят пачками, поэтому параллельные проверки схлопываются в одну повторную
+    const check = async () => {
+      if (checking) {
+        pending = true;
+        return;
+      }
+
+      checking = true;
+      try {
+        do {
+          pending = false;
+
+          const state = await readParserState();
+          const serialized = JSON.stringify(state);
+          if (serialized !== lastState && !closed) {
+            lastState = serialized;
+            writeEvent(res, 'status', state);
+          }
+
+          const logs = await prisma.parserLog.findMany({
+            where: { id: { gt: logCursor } },
+            orderBy: { id: 'asc' },
+            take: LOGS_BATCH_SIZE
+          });
+          for (const log of logs) {
+            if (closed) break;
+            writeEvent(res, 'log', log, log.id);
+            logCursor = log.id;
+          }
+          // Накопившиеся записи отправляются следующими пачками
+          pending = pending || logs.length === LOGS_BATCH_SIZE;
+        } while (pending && !closed);
+      } catch (error) {
+        console.error('Error reading parser events:', error);
+      } finally {
+        checking = false;
+      }
+    };
+
+    const unsubscribe = subscribeParserChanges(check);
+    const checkTimer = setInterval(check, CHECK_INTERVAL);
+    const keepaliveTimer = setInterval(() => {
+      if (!closed) res.write(': keepalive\n\n');
+    }, KEEPALIVE_INTERVAL);
+
+    const stop = () => {
+      closed = true;
+      unsubscribe();
+      clearInterval(checkTimer);
+      clearInterval(keepaliveTimer);
+      res.end();
+    };
+
+    // Соединение закрывается браузером при уходе со страницы
+    res.on('close', stop);
+    if (res.destroyed) {
+      stop();
+      return;
+    }
+
+    await check();
+  } catch (error) {
+    console.error('Error in parser events endpoint:', error);
+    if (!res.headersSent) {
+      return res.status(500).json({ error: 'Внутренняя ошибка сервера' });
+    }
+    res.end();
+  }
+}
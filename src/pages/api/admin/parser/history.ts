@@ -1,30 +1,11 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { prisma } from '@/config/database';
-import { verifyToken } from '@/utils/auth';
+import { requirePermission } from '@/utils/requireAuth';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader) {
-      return res.status(401).json({ error: 'Требуется авторизация' });
-    }
-
-    const token = authHeader.split(' ')[1];
-    const payload = await verifyToken(token);
-
-    if (!payload || typeof payload.userId !== 'number') {
-      return res.status(401).json({ error: 'Недействительный токен' });
-    }
-
-    // Проверка прав администратора
-    const user = await prisma.user.findUnique({
-      where: { id: payload.userId },
-      select: { role: true }
-    });
-
-    if (!user || user.role !== 'ADMIN') {
-      return res.status(403).json({ error: 'Недостаточно прав' });
-    }
+    const user = await requirePermission(req, res, 'parser:view');
+    if (!user) return;
 
     if (req.method === 'GET') {
       const parserHistory = await prisma.parserHistory.findMany({
@@ -38,6 +19,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           startTime: true,
           endTime: true,
           itemsProcessed: true,
+          createdCount: true,
+          updatedCount: true,
+          skippedCount: true,
+          failedCount: true,
           source: true,
           details: true,
           errors: true
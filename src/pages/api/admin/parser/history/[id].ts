@@ -0,0 +1,59 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { ParserItemOutcome } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { requirePermission } from '@/utils/requireAuth';
+
+const PAGE_SIZE = 50;
+
+const isOutcome = (value: unknown): value is ParserItemOutcome =>
+  Object.values(ParserItemOutcome).includes(value as ParserItemOutcome);
+
+// Один запуск парсера с итогами обработки тайтлов. Итоги можно отфильтровать параметром outcome
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const user = await requirePermission(req, res, 'parser:view');
+    if (!user) return;
+
+    if (req.method !== 'GET') {
+      return res.status(405).json({ error: 'Метод не поддерживается' });
+    }
+
+    const runId = parseInt(req.query.id as string);
+    if (isNaN(runId)) {
+      return res.status(400).json({ error: 'Неверный ID запуска' });
+    }
+
+    const { outcome } = req.query;
+    if (outcome !== undefined && !isOutcome(outcome)) {
+      return res.status(400).json({ error: 'Неизвестный итог обработки' });
+    }
+
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+
+    const run = await prisma.parserHistory.findUnique({ where: { id: runId } });
+    if (!run) {
+      return res.status(404).json({ error: 'Запуск не найден' });
+    }
+
+    const where = { runId, ...(outcome ? { outcome } : {}) };
+    const [items, total] = await Promise.all([
+      prisma.parserHistoryItem.findMany({
+        where,
+        orderBy: { id: 'asc' },
+        skip: (page - 1) * PAGE_SIZE,
+        take: PAGE_SIZE
+      }),
+      prisma.parserHistoryItem.count({ where })
+    ]);
+
+    return res.status(200).json({
+      run,
+      items,
+      page,
+      totalPages: Math.max(1, Math.ceil(total / PAGE_SIZE))
+    });
+  } catch (error) {
+    console.error('Error in parser run endpoint:', error);
+    return res.status(500).json({ error: 'Внутренняя ошибка сервера' });
+  }
+}
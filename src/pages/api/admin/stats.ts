@@ -1,5 +1,5 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { verifyToken } from '@/utils/auth';
+import { requirePermission } from '@/utils/requireAuth';
 import prisma from '@/config/database';
 
 let statsCache: any = null;
@@ -11,25 +11,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return res.status(405).json({ error: 'Метод не поддерживается' });
   }
 
-  const token = req.headers.authorization?.split(' ')[1];
-  if (!token) {
-    return res.status(401).json({ error: 'Требуется авторизация' });
-  }
-
   try {
-    const payload = await verifyToken(token);
-    if (!payload || typeof payload.userId !== 'number') {
-      return res.status(401).json({ error: 'Недействительный токен' });
-    }
-
-    const user = await prisma.user.findUnique({
-      where: { id: payload.userId },
-      select: { role: true }
-    });
-
-    if (!user || user.role !== 'ADMIN') {
-      return res.status(403).json({ error: 'Недостаточно прав' });
-    }
+    const user = await requirePermission(req, res, 'stats:view');
+    if (!user) return;
 
     const currentTime = Date.now();
     if (statsCache && (currentTime - lastCacheTime) < CACHE_DURATION) {
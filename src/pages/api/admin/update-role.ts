@@ -1,43 +1,36 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { PrismaClient } from '@prisma/client';
-import { verifyToken } from '@/utils/auth';
-
-type DecodedToken = {
-  userId: number;
-  role?: 'USER' | 'ADMIN';
-};
+import { PrismaClient, Prisma } from '@prisma/client';
+import { requirePermission } from '@/utils/requireAuth';
+import { hasPermission, isUserRole, Permission } from '@/utils/permissions';
+import { revokeUserSessions } from '@/utils/session';
+import { isTwoFactorRequired } from '@/utils/twoFactor';
 
 const prisma = new PrismaClient();
 
+const ACTION_PERMISSIONS: Record<string, Permission> = {
+  setRole: 'users:roles',
+  block: 'users:block',
+  unblock: 'users:block'
+};
+
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Метод не поддерживается' });
   }
 
-  const token = req.headers.authorization?.split(' ')[1];
-  if (!token) {
-    return res.status(401).json({ error: 'Требуется авторизация' });
+  const { userId, action, role, reason, durationHours } = req.body || {};
+
+  if (typeof userId !== 'number' || !Number.isInteger(userId) || !action) {
+    return res.status(400).json({ error: 'Некорректные данные' });
   }
 
-  const { userId, action } = req.body;
+  if (typeof action !== 'string' || !Object.prototype.hasOwnProperty.call(ACTION_PERMISSIONS, action)) {
+    return res.status(400).json({ error: 'Неизвестное действие' });
+  }
 
   try {
-    const decoded = await verifyToken(token) as DecodedToken;
-    if (!decoded || !decoded.userId) {
-      return res.status(401).json({ error: 'Недействительный токен' });
-    }
-
-    const currentUser = await prisma.user.findUnique({
-      where: { id: decoded.userId }
-    });
-
-    if (!currentUser || currentUser.role !== 'ADMIN') {
-      return res.status(403).json({ error: 'Доступ запрещен' });
-    }
-
-    if (!userId || !action) {
-      return res.status(400).json({ error: 'Некорректные данные' });
-    }
+    const currentUser = await requirePermission(req, res, ACTION_PERMISSIONS[action]);
+    if (!currentUser) return;
 
     const targetUser = await prisma.user.findUnique({
       where: { id: userId }
@@ -47,20 +40,55 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(404).json({ error: 'Пользователь не найден' });
     }
 
-    let updateData = {};
+    // Без права управления ролями можно блокировать только обычных пользователей
+    if (hasPermission(targetUser.role, 'admin:access') && !hasPermission(currentUser.role, 'users:roles')) {
+      return res.status(403).json({ error: 'Недостаточно прав для действий с сотрудником' });
+    }
+
+    let updateData: Prisma.UserUpdateInput = {};
 
     switch (action) {
-      case 'makeAdmin':
-        updateData = { role: 'ADMIN' };
+      case 'setRole':
+        if (!isUserRole(role)) {
+          return res.status(400).json({ error: 'Неизвестная роль' });
+        }
+        if (targetUser.id === currentUser.id) {
+          return res.status(400).json({ error: 'Нельзя изменить собственную роль' });
+        }
+        updateData = { role };
+        // Сотрудник без 2FA при следующем входе проходит ее настройку с новым секретом: секрет
+        // от незавершенной прежней настройки не переиспользуется
+        if (isTwoFactorRequired(role) && !targetUser.totp_enabled) {
+          updateData = { ...updateData, totp_secret: null, totp_last_step: null };
+        }
         break;
-      case 'removeAdmin':
-        updateData = { role: 'USER' };
-        break;
-      case 'block':
-        updateData = { is_blocked: true };
+      case 'block': {
+        if (targetUser.id === currentUser.id) {
+          return res.status(400).json({ error: 'Нельзя заблокировать самого себя' });
+        }
+
+        const hours = durationHours ? Number(durationHours) : null;
+        if (hours !== null && (isNaN(hours) || hours <= 0)) {
+          return res.status(400).json({ error: 'Некорректный срок блокировки' });
+        }
+
+        updateData = {
+          is_blocked: true,
+          blocked_reason: reason || null,
+          blocked_at: new Date(),
+          blocked_until: hours ? new Date(Date.now() + hours * 60 * 60 * 1000) : null,
+          blocked_by: { connect: { id: currentUser.id } }
+        };
         break;
+      }
       case 'unblock':
-        updateData = { is_blocked: false };
+        updateData = {
+          is_blocked: false,
+          blocked_reason: null,
+          blocked_at: null,
+          blocked_until: null,
+          blocked_by: { disconnect: true }
+        };
         break;
       default:
         return res.status(400).json({ error: 'Неизвестное действие' });
@@ -68,9 +96,26 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     const updatedUser = await prisma.user.update({
       where: { id: userId },
-      data: updateData
+      data: updateData,
+      select: {
+        id: true,
+        email: true,
+        role: true,
+        is_verified: true,
+        is_blocked: true,
+        blocked_reason: true,
+        blocked_until: true,
+        created_at: true
+      }
     });
 
+    // Блокировка сразу завершает все сессии пользователя. Смена роли тоже: роль записана в
+    // access-токене, и без отзыва сессий middleware до его истечения видел бы прежнюю роль,
+    // а повышенный сотрудник не прошел бы обязательную настройку 2FA
+    if (action === 'block' || (action === 'setRole' && role !== targetUser.role)) {
+      await revokeUserSessions(userId);
+    }
+
     return res.status(200).json(updatedUser);
   } catch (error) {
     console.error('Update User API Error:', error);
@@ -78,4 +123,4 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   } finally {
     await prisma.$disconnect();
   }
-}
\ No newline at end of file
+}
@@ -1,11 +1,6 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { PrismaClient } from '@prisma/client';
-import { verifyToken } from '@/utils/auth';
-
-type DecodedToken = {
-  userId: number;
-  role?: 'USER' | 'ADMIN';
-};
+import { requirePermission } from '@/utils/requireAuth';
 
 const prisma = new PrismaClient();
 
@@ -14,25 +9,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return res.status(405).json({ error: 'Метод не поддерживается' });
   }
 
-  const token = req.headers.authorization?.split(' ')[1];
-  if (!token) {
-    return res.status(401).json({ error: 'Требуется авторизация' });
-  }
-
   try {
-    const decoded = await verifyToken(token) as DecodedToken;
-    if (!decoded || !decoded.userId) {
-      return res.status(401).json({ error: 'Недействительный токен' });
-    }
-
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
-      select: { role: true }
-    });
-
-    if (!user || user.role !== 'ADMIN') {
-      return res.status(403).json({ error: 'Доступ запрещен' });
-    }
+    const user = await requirePermission(req, res, 'users:view');
+    if (!user) return;
 
     const users = await prisma.user.findMany({
       select: {
@@ -40,6 +19,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         email: true,
         role: true,
         is_verified: true,
+        is_blocked: true,
+        blocked_reason: true,
+        blocked_until: true,
         created_at: true
       },
       orderBy: {
@@ -0,0 +1,55 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '../../../config/database';
+import { sendPasswordResetEmail } from '../../../utils/email';
+import { createPasswordResetToken } from '../../../utils/passwordReset';
+import {
+  checkThrottle,
+  getThrottleKeys,
+  registerFailedAttempt,
+  sendTooManyAttempts
+} from '../../../utils/authThrottle';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { email } = req.body;
+
+  if (!email || typeof email !== 'string') {
+    return res.status(400).json({ error: 'Email обязателен' });
+  }
+
+  try {
+    // Каждый запрос учитывается как попытка, иначе через форму можно заваливать письмами любой адрес
+    const throttleKeys = getThrottleKeys('forgot-password', req, email);
+    const retryAfter = await checkThrottle(throttleKeys);
+    if (retryAfter) {
+      return sendTooManyAttempts(res, retryAfter);
+    }
+    await registerFailedAttempt(throttleKeys);
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, is_verified: true }
+    });
+
+    // Ответ не зависит от существования аккаунта, чтобы не раскрывать зарегистрированные email,
+    // поэтому ошибка отправки письма только записывается в журнал сервера
+    if (user && user.is_verified) {
+      const token = await createPasswordResetToken(user.id);
+      const emailSent = await sendPasswordResetEmail(email, token);
+
+      if (!emailSent) {
+        console.error(`Forgot password: failed to send reset email to user ${user.id}`);
+      }
+    }
+
+    res.status(200).json({
+      message: 'Если аккаунт существует, на него отправлена ссылка для восстановления пароля'
+    });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({ error: 'Ошибка при запросе восстановления пароля' });
+  }
+}
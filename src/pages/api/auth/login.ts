@@ -1,26 +1,86 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import prisma from '../../../config/database';
-import { comparePassword, generateToken } from '../../../utils/auth';
+import { comparePassword, generateChallengeToken, verifyChallengeToken } from '../../../utils/auth';
+import { startSession } from '../../../utils/session';
+import { sendSession } from '../../../utils/authCookies';
+import {
+  buildOtpAuthUrl,
+  confirmTotp,
+  generateTotpSecret,
+  isTwoFactorRequired,
+  regenerateBackupCodes,
+  verifySecondFactor
+} from '../../../utils/twoFactor';
+import { isBlockActive, sendBlocked } from '../../../utils/requireAuth';
+import {
+  checkThrottle,
+  getThrottleKeys,
+  registerFailedAttempt,
+  resetThrottle,
+  sendTooManyAttempts
+} from '../../../utils/authThrottle';
+
+// Вход в аккаунт, ожидающий удаления, закрыт: вернуть его можно только по ссылке из письма
+const sendDeletionScheduled = (res: NextApiResponse, scheduledAt: Date) => {
+  return res.status(403).json({
+    error: 'Аккаунт ожидает удаления. Чтобы отменить удаление, перейдите по ссылке из письма',
+    deletionScheduledAt: scheduledAt
+  });
+};
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  // Второй шаг входа: код 2FA по промежуточному токену
+  if (req.body?.challengeToken) {
+    return handleSecondFactor(req, res);
+  }
+
   const { email, password } = req.body;
 
+  if (!email || !password || typeof email !== 'string' || typeof password !== 'string') {
+    return res.status(400).json({ error: 'Email и пароль обязательны' });
+  }
+
   try {
+    // Проверяем блокировку по email и IP до обращения к паролю
+    const throttleKeys = getThrottleKeys('login', req, email);
+    const [emailKey] = throttleKeys;
+    const retryAfter = await checkThrottle(throttleKeys);
+    if (retryAfter) {
+      return sendTooManyAttempts(res, retryAfter);
+    }
+
     // Получаем пользователя по email
     const user = await prisma.user.findUnique({
       where: { email },
       select: {
         id: true,
+        email: true,
+        role: true,
         password_hash: true,
-        is_verified: true
+        is_verified: true,
+        totp_enabled: true,
+        totp_secret: true,
+        is_blocked: true,
+        blocked_reason: true,
+        blocked_until: true,
+        deletion_scheduled_at: true
       }
     });
 
     if (!user) {
+      await registerFailedAttempt(throttleKeys);
+      return res.status(401).json({ error: 'Неверный email или пароль' });
+    }
+
+    // Проверяем пароль
+    const isValidPassword = await comparePassword(password, user.password_hash);
+
+    if (!isValidPassword) {
+      await registerFailedAttempt(throttleKeys);
       return res.status(401).json({ error: 'Неверный email или пароль' });
     }
 
@@ -29,22 +89,130 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(401).json({ error: 'Email не подтвержден' });
     }
 
-    // Проверяем пароль
-    const isValidPassword = await comparePassword(password, user.password_hash);
+    if (isBlockActive(user)) {
+      return sendBlocked(res, user);
+    }
 
-    if (!isValidPassword) {
-      return res.status(401).json({ error: 'Неверный email или пароль' });
+    if (user.deletion_scheduled_at) {
+      return sendDeletionScheduled(res, user.deletion_scheduled_at);
     }
 
-    // Генерируем токен
-    const token = generateToken(user.id);
+    // При включенной 2FA сессия создается только после проверки кода
+    if (user.totp_enabled) {
+      return res.status(200).json({
+        twoFactorRequired: true,
+        challengeToken: generateChallengeToken(user.id)
+      });
+    }
 
-    res.status(200).json({
-      token,
-      message: 'Успешный вход'
-    });
+    // Администратор без 2FA обязан подключить ее прямо при входе
+    if (isTwoFactorRequired(user.role)) {
+      const secret = user.totp_secret || generateTotpSecret();
+      if (!user.totp_secret) {
+        await prisma.user.update({
+          where: { id: user.id },
+          data: { totp_secret: secret, totp_last_step: null }
+        });
+      }
+
+      return res.status(200).json({
+        twoFactorSetupRequired: true,
+        challengeToken: generateChallengeToken(user.id),
+        secret,
+        otpauthUrl: buildOtpAuthUrl(secret, user.email)
+      });
+    }
+
+    // Успешный вход снимает счетчик по email, счетчик по IP продолжает действовать
+    await resetThrottle([emailKey]);
+
+    // Создаем сессию устройства и генерируем пару токенов
+    const tokens = await startSession(user, req);
+
+    sendSession(req, res, tokens, { message: 'Успешный вход' });
   } catch (error) {
     console.error('Login error:', error);
     res.status(500).json({ error: 'Ошибка при входе в систему' });
   }
-}
\ No newline at end of file
+}
+
+async function handleSecondFactor(req: NextApiRequest, res: NextApiResponse) {
+  const { challengeToken, code } = req.body;
+
+  if (!code || typeof code !== 'string') {
+    return res.status(400).json({ error: 'Введите код подтверждения' });
+  }
+
+  const userId = verifyChallengeToken(challengeToken);
+  if (!userId) {
+    return res.status(401).json({ error: 'Время на ввод кода истекло, войдите снова' });
+  }
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        role: true,
+        is_blocked: true,
+        blocked_reason: true,
+        blocked_until: true,
+        totp_enabled: true,
+        totp_secret: true,
+        totp_last_step: true,
+        deletion_scheduled_at: true
+      }
+    });
+
+    if (!user) {
+      return res.status(401).json({ error: 'Пользователь не найден' });
+    }
+
+    const throttleKeys = getThrottleKeys('login-2fa', req, user.email);
+    const retryAfter = await checkThrottle(throttleKeys);
+    if (retryAfter) {
+      return sendTooManyAttempts(res, retryAfter);
+    }
+
+    if (isBlockActive(user)) {
+      return sendBlocked(res, user);
+    }
+
+    if (user.deletion_scheduled_at) {
+      return sendDeletionScheduled(res, user.deletion_scheduled_at);
+    }
+
+    let backupCodes: string[] | undefined;
+
+    if (user.totp_enabled) {
+      if (!(await verifySecondFactor(user, code))) {
+        await registerFailedAttempt(throttleKeys);
+        return res.status(401).json({ error: 'Неверный код' });
+      }
+    } else if (isTwoFactorRequired(user.role) && user.totp_secret) {
+      // Завершение обязательной настройки: первый верный код включает 2FA
+      if (!(await confirmTotp(user, code))) {
+        await registerFailedAttempt(throttleKeys);
+        return res.status(401).json({ error: 'Неверный код' });
+      }
+
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { totp_enabled: true }
+      });
+      backupCodes = await regenerateBackupCodes(user.id);
+    } else {
+      return res.status(400).json({ error: 'Двухфакторная аутентификация не настроена' });
+    }
+
+    await resetThrottle([throttleKeys[0], getThrottleKeys('login', req, user.email)[0]]);
+
+    const tokens = await startSession(user, req);
+
+    sendSession(req, res, tokens, { backupCodes, message: 'Успешный вход' });
+  } catch (error) {
+    console.error('Login 2FA error:', error);
+    res.status(500).json({ error: 'Ошибка при входе в систему' });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { revokeRefreshToken } from '../../../utils/session';
+import { clearAuthCookies } from '../../../utils/authCookies';
+import { REFRESH_TOKEN_COOKIE } from '../../../utils/apiFetch';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Старые клиенты передают refresh-токен в теле, новые — в httpOnly-cookie
+  const refreshToken = req.body?.refreshToken || req.cookies[REFRESH_TOKEN_COOKIE];
+
+  try {
+    if (refreshToken && typeof refreshToken === 'string') {
+      await revokeRefreshToken(refreshToken);
+    }
+
+    clearAuthCookies(res);
+    res.status(200).json({ message: 'Выход выполнен' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Ошибка при выходе из системы' });
+  }
+}
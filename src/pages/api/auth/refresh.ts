@@ -0,0 +1,65 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '../../../config/database';
+import { revokeSession, rotateRefreshToken } from '../../../utils/session';
+import { isBlockActive, sendBlocked } from '../../../utils/requireAuth';
+import { isTwoFactorRequired } from '../../../utils/twoFactor';
+import { clearAuthCookies, getLegacyTokenBody, isCsrfValid, setAuthCookies } from '../../../utils/authCookies';
+import { REFRESH_TOKEN_COOKIE } from '../../../utils/apiFetch';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Токен из тела — старая схема, из cookie — новая; для cookie нужен CSRF-токен
+  const bodyToken = req.body?.refreshToken;
+  const refreshToken = bodyToken || req.cookies[REFRESH_TOKEN_COOKIE];
+
+  if (!refreshToken || typeof refreshToken !== 'string') {
+    return res.status(401).json({ error: 'Требуется refresh-токен' });
+  }
+
+  if (!bodyToken && !isCsrfValid(req)) {
+    return res.status(403).json({ error: 'Недействительный CSRF-токен' });
+  }
+
+  try {
+    const rotated = await rotateRefreshToken(refreshToken, req);
+
+    if (!rotated) {
+      clearAuthCookies(res);
+      return res.status(401).json({ error: 'Сессия истекла, войдите снова' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: rotated.userId },
+      select: {
+        role: true,
+        is_blocked: true,
+        blocked_reason: true,
+        blocked_until: true,
+        totp_enabled: true
+      }
+    });
+
+    if (!user || isBlockActive(user)) {
+      await revokeSession(rotated.sessionId);
+      clearAuthCookies(res);
+      return user ? sendBlocked(res, user) : res.status(401).json({ error: 'Пользователь не найден' });
+    }
+
+    // Сессии администратора, начатые до подключения обязательной 2FA, не продлеваются
+    if (isTwoFactorRequired(user.role) && !user.totp_enabled) {
+      await revokeSession(rotated.sessionId);
+      clearAuthCookies(res);
+      return res.status(401).json({ error: 'Требуется двухфакторная аутентификация, войдите снова' });
+    }
+
+    const tokens = { token: rotated.token, refreshToken: rotated.refreshToken };
+    setAuthCookies(req, res, tokens, false);
+    res.status(200).json(getLegacyTokenBody(tokens));
+  } catch (error) {
+    console.error('Refresh error:', error);
+    res.status(500).json({ error: 'Ошибка при обновлении токена' });
+  }
+}
@@ -1,8 +1,8 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import prisma from '../../../config/database';
-import { hashPassword } from '../../../utils/auth';
 import { sendVerificationEmail } from '../../../utils/email';
-import { generateVerificationCode } from '../../../utils/auth';
+import { getResendCooldown, savePendingRegistration } from '../../../utils/registration';
+import { sendTooManyAttempts } from '../../../utils/authThrottle';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -16,46 +16,27 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(400).json({ error: 'Все поля обязательны для заполнения' });
     }
 
-    // Проверяем существующего пользователя и удаляем если не подтвержден
     const existingUser = await prisma.user.findUnique({
       where: { email },
-      include: { verification_codes: true }
+      select: { id: true }
     });
 
     if (existingUser) {
-      if (existingUser.is_verified) {
-        return res.status(400).json({ error: 'Email уже зарегистрирован' });
-      }
-      // Удаляем неподтвержденного пользователя и его коды
-      await prisma.verificationCode.deleteMany({
-        where: { email }
-      });
-      await prisma.user.delete({
-        where: { email }
-      });
+      return res.status(400).json({ error: 'Email уже зарегистрирован' });
     }
 
-    // Генерируем код подтверждения
-    const verificationCode = generateVerificationCode();
-    const expiresAt = new Date(Date.now() + 10 * 60 * 1000); // 10 минут
+    // Повторная регистрация обновляет заявку, но не чаще, чем позволяет интервал отправки писем
+    const pending = await prisma.pendingRegistration.findUnique({
+      where: { email },
+      select: { code_sent_at: true }
+    });
 
-    // Хешируем пароль
-    const hashedPassword = await hashPassword(password);
+    const cooldown = pending && getResendCooldown(pending);
+    if (cooldown) {
+      return sendTooManyAttempts(res, cooldown, `Повторно отправить код можно через ${cooldown} сек.`);
+    }
 
-    // Создаем пользователя
-    const user = await prisma.user.create({
-      data: {
-        email,
-        username,
-        password_hash: hashedPassword,
-        verification_codes: {
-          create: {
-            code: verificationCode,
-            expires_at: expiresAt
-          }
-        }
-      }
-    });
+    const verificationCode = await savePendingRegistration(email, username, password);
 
     // Отправляем код на почту
     const emailSent = await sendVerificationEmail(email, verificationCode);
@@ -65,12 +46,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
 
     return res.status(200).json({
-      message: 'Пользователь успешно зарегистрирован',
-      userId: user.id
+      message: 'Код подтверждения отправлен на email'
     });
 
   } catch (error) {
     console.error('Registration error:', error);
     return res.status(500).json({ error: 'Ошибка при регистрации' });
   }
-}
\ No newline at end of file
+}
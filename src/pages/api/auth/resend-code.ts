@@ -0,0 +1,45 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '../../../config/database';
+import { sendVerificationEmail } from '../../../utils/email';
+import { getResendCooldown, refreshPendingCode } from '../../../utils/registration';
+import { sendTooManyAttempts } from '../../../utils/authThrottle';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { email } = req.body;
+
+  if (!email) {
+    return res.status(400).json({ error: 'Email обязателен' });
+  }
+
+  try {
+    const pending = await prisma.pendingRegistration.findUnique({
+      where: { email },
+      select: { code_sent_at: true, expires_at: true }
+    });
+
+    if (!pending || pending.expires_at <= new Date()) {
+      return res.status(404).json({ error: 'Заявка на регистрацию не найдена, зарегистрируйтесь заново' });
+    }
+
+    const cooldown = getResendCooldown(pending);
+    if (cooldown) {
+      return sendTooManyAttempts(res, cooldown, `Повторно отправить код можно через ${cooldown} сек.`);
+    }
+
+    const verificationCode = await refreshPendingCode(email);
+    const emailSent = await sendVerificationEmail(email, verificationCode);
+
+    if (!emailSent) {
+      return res.status(500).json({ error: 'Ошибка отправки email' });
+    }
+
+    res.status(200).json({ message: 'Новый код отправлен на email' });
+  } catch (error) {
+    console.error('Resend code error:', error);
+    res.status(500).json({ error: 'Ошибка при повторной отправке кода' });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { resetPasswordWithToken } from '../../../utils/passwordReset';
+
+const MIN_PASSWORD_LENGTH = 6;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { token, password } = req.body;
+
+  if (!token || !password || typeof token !== 'string' || typeof password !== 'string') {
+    return res.status(400).json({ error: 'Токен и новый пароль обязательны' });
+  }
+
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return res.status(400).json({ error: `Пароль должен содержать не менее ${MIN_PASSWORD_LENGTH} символов` });
+  }
+
+  try {
+    const isReset = await resetPasswordWithToken(token, password);
+
+    if (!isReset) {
+      return res.status(400).json({ error: 'Ссылка недействительна или срок ее действия истек' });
+    }
+
+    res.status(200).json({ message: 'Пароль успешно изменен' });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({ error: 'Ошибка при изменении пароля' });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { cancelAccountDeletion } from '../../../utils/accountDeletion';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { token } = req.body || {};
+
+  if (!token || typeof token !== 'string') {
+    return res.status(400).json({ error: 'Токен обязателен' });
+  }
+
+  try {
+    const isRestored = await cancelAccountDeletion(token);
+
+    if (!isRestored) {
+      return res.status(400).json({ error: 'Ссылка недействительна или аккаунт уже удален' });
+    }
+
+    res.status(200).json({ message: 'Удаление аккаунта отменено' });
+  } catch (error) {
+    console.error('Restore account error:', error);
+    res.status(500).json({ error: 'Ошибка при отмене удаления аккаунта' });
+  }
+}
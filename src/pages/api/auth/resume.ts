@@ -0,0 +1,55 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '../../../config/database';
+import { resumeSession, revokeSession } from '../../../utils/session';
+import { isBlockActive } from '../../../utils/requireAuth';
+import { isTwoFactorRequired } from '../../../utils/twoFactor';
+import { clearAuthCookies, setAccessCookie } from '../../../utils/authCookies';
+import { REFRESH_TOKEN_COOKIE } from '../../../utils/apiFetch';
+import { getReturnPath } from '../../../utils/returnPath';
+
+// Продление сессии при переходе на защищенную страницу: middleware перенаправляет сюда,
+// когда access-cookie истекла. Refresh-токен здесь не ротируется — GET может прийти и с чужой
+// страницы, — выдается только новый access-токен. Затем возвращает на исходную страницу
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const returnTo = getReturnPath(req.query.next);
+  const refreshToken = req.cookies[REFRESH_TOKEN_COOKIE];
+
+  if (!refreshToken) {
+    return res.redirect(302, '/auth/login');
+  }
+
+  try {
+    const resumed = await resumeSession(refreshToken, req);
+
+    if (!resumed) {
+      clearAuthCookies(res);
+      return res.redirect(302, '/auth/login');
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: resumed.userId },
+      select: {
+        role: true,
+        is_blocked: true,
+        blocked_until: true,
+        totp_enabled: true
+      }
+    });
+
+    if (!user || isBlockActive(user) || (isTwoFactorRequired(user.role) && !user.totp_enabled)) {
+      await revokeSession(resumed.sessionId);
+      clearAuthCookies(res);
+      return res.redirect(302, '/auth/login');
+    }
+
+    setAccessCookie(res, resumed.token);
+    res.redirect(302, returnTo);
+  } catch (error) {
+    console.error('Resume session error:', error);
+    res.redirect(302, '/auth/login');
+  }
+}
@@ -1,6 +1,17 @@
 import { NextApiRequest, NextApiResponse } from 'next';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../../../config/database';
-import { generateToken } from '../../../utils/auth';
+import { MAX_VERIFICATION_ATTEMPTS } from '../../../utils/auth';
+import { startSession } from '../../../utils/session';
+import { sendSession } from '../../../utils/authCookies';
+import { isPendingCodeValid } from '../../../utils/registration';
+import {
+  checkThrottle,
+  getThrottleKeys,
+  registerFailedAttempt,
+  resetThrottle,
+  sendTooManyAttempts
+} from '../../../utils/authThrottle';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -10,57 +21,80 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   const { email, code } = req.body;
 
   try {
-    if (!email || !code) {
+    if (!email || !code || typeof email !== 'string') {
       return res.status(400).json({ error: 'Email и код подтверждения обязательны' });
     }
 
-    // Проверяем код подтверждения
-    const verificationCode = await prisma.verificationCode.findFirst({
-      where: {
-        email,
-        code,
-        expires_at: {
-          gt: new Date()
-        }
-      },
-      include: {
-        user: true
-      }
+    const throttleKeys = getThrottleKeys('verify', req, email);
+    const [emailKey] = throttleKeys;
+    const retryAfter = await checkThrottle(throttleKeys);
+    if (retryAfter) {
+      return sendTooManyAttempts(res, retryAfter);
+    }
+
+    const pending = await prisma.pendingRegistration.findUnique({
+      where: { email }
     });
 
-    if (!verificationCode) {
-      return res.status(400).json({ error: 'Неверный код или срок действия истек' });
+    if (!pending || pending.expires_at <= new Date()) {
+      return res.status(400).json({ error: 'Заявка на регистрацию не найдена, зарегистрируйтесь заново' });
     }
 
-    // Проверяем существование пользователя в коде верификации
-    if (!verificationCode.user) {
-      return res.status(404).json({ error: 'Пользователь не найден' });
+    if (!isPendingCodeValid(pending, String(code))) {
+      await registerFailedAttempt(throttleKeys);
+
+      if (pending.code_hash) {
+        const { code_attempts } = await prisma.pendingRegistration.update({
+          where: { id: pending.id },
+          data: { code_attempts: { increment: 1 } }
+        });
+
+        // После N неудачных попыток код аннулируется, нужно запросить новый
+        if (code_attempts >= MAX_VERIFICATION_ATTEMPTS) {
+          await prisma.pendingRegistration.update({
+            where: { id: pending.id },
+            data: { code_hash: null, code_expires_at: null }
+          });
+          return res.status(400).json({ error: 'Превышено число попыток, запросите новый код' });
+        }
+      }
+
+      return res.status(400).json({ error: 'Неверный код или срок действия истек' });
     }
 
-    // Подтверждаем пользователя
-    const user = await prisma.user.update({
-      where: { email },
-      data: { is_verified: true }
-    });
+    // Создаем пользователя и удаляем заявку атомарно
+    let user;
+    try {
+      user = await prisma.$transaction(async (tx) => {
+        await tx.pendingRegistration.delete({
+          where: { id: pending.id }
+        });
 
-    if (!user) {
-      return res.status(404).json({ error: 'Пользователь не найден' });
+        return tx.user.create({
+          data: {
+            email: pending.email,
+            username: pending.username,
+            password_hash: pending.password_hash,
+            is_verified: true
+          }
+        });
+      });
+    } catch (error) {
+      // Параллельный запрос уже подтвердил эту заявку
+      if (error instanceof Prisma.PrismaClientKnownRequestError && ['P2002', 'P2025'].includes(error.code)) {
+        return res.status(400).json({ error: 'Email уже подтвержден' });
+      }
+      throw error;
     }
 
-    // Удаляем использованный код
-    await prisma.verificationCode.deleteMany({
-      where: { email }
-    });
+    await resetThrottle([emailKey]);
 
     // Генерируем токен для автоматического входа
-    const token = generateToken(user.id);
+    const tokens = await startSession(user, req);
 
-    res.status(200).json({
-      message: 'Email подтвержден',
-      token
-    });
+    sendSession(req, res, tokens, { message: 'Email подтвержден' });
   } catch (error) {
     console.error('Verification error:', error);
     res.status(500).json({ error: 'Ошибка при подтверждении email' });
   }
-}
\ No newline at end of file
+}
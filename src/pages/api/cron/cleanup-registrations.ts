@@ -0,0 +1,21 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { isCronRequest } from '@/utils/cron';
+import { cleanupExpiredRegistrations } from '@/utils/registration';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    return res.status(405).json({ error: 'Метод не поддерживается' });
+  }
+
+  if (!isCronRequest(req)) {
+    return res.status(401).json({ error: 'Требуется авторизация' });
+  }
+
+  try {
+    const removed = await cleanupExpiredRegistrations();
+    return res.status(200).json({ removed });
+  } catch (error) {
+    console.error('Registration cleanup error:', error);
+    return res.status(500).json({ error: 'Ошибка при очистке неподтвержденных регистраций' });
+  }
+}
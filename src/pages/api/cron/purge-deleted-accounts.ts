@@ -0,0 +1,21 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { isCronRequest } from '@/utils/cron';
+import { purgeScheduledAccounts } from '@/utils/accountDeletion';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    return res.status(405).json({ error: 'Метод не поддерживается' });
+  }
+
+  if (!isCronRequest(req)) {
+    return res.status(401).json({ error: 'Требуется авторизация' });
+  }
+
+  try {
+    const purged = await purgeScheduledAccounts();
+    return res.status(200).json({ purged });
+  } catch (error) {
+    console.error('Account purge error:', error);
+    return res.status(500).json({ error: 'Ошибка при удалении аккаунтов' });
+  }
+}
@@ -1,6 +1,6 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { PrismaClient, Media as PrismaMedia, Genre, Episode, ViewingHistory, Favorites, Watchlist } from '@prisma/client';
-import { verifyToken } from '../../../utils/auth';
+import { requireScope } from '../../../utils/requireAuth';
 
 type MediaResponse = Omit<PrismaMedia, 'genres'> & {
   genres: string[];
@@ -32,16 +32,9 @@ export default async function handler(
   }
 
   try {
-    const token = req.headers.authorization?.split(' ')[1];
-    if (!token) {
-      return res.status(401).json({ error: 'Требуется авторизация' });
-    }
-
-    const decoded = await verifyToken(token);
-    if (!decoded || typeof decoded !== 'object' || !('userId' in decoded)) {
-      return res.status(401).json({ error: 'Недействительный токен' });
-    }
-    const userId = decoded.userId;
+    const user = await requireScope(req, res, 'catalog:read');
+    if (!user) return;
+    const userId = user.id;
 
     const { id } = req.query;
     const movieId = parseInt(id as string);
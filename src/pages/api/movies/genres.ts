@@ -1,6 +1,6 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { PrismaClient } from '@prisma/client';
-import { verifyToken } from '@/utils/auth';
+import { requireScope } from '@/utils/requireAuth';
 
 const prisma = new PrismaClient();
 
@@ -10,15 +10,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const token = req.headers.authorization?.split(' ')[1];
-    if (!token) {
-      return res.status(401).json({ error: 'Требуется авторизация' });
-    }
-
-    const userId = await verifyToken(token);
-    if (!userId) {
-      return res.status(401).json({ error: 'Недействительный токен' });
-    }
+    const user = await requireScope(req, res, 'catalog:read');
+    if (!user) return;
 
     const genres = await prisma.genre.findMany({
       select: {
@@ -1,6 +1,6 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { PrismaClient, Prisma } from '@prisma/client';
-import { verifyToken } from '@/utils/auth';
+import { requireScope } from '@/utils/requireAuth';
 
 const prisma = new PrismaClient();
 
@@ -10,15 +10,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const token = req.headers.authorization?.split(' ')[1];
-    if (!token) {
-      return res.status(401).json({ error: 'Unauthorized' });
-    }
-
-    const decoded = await verifyToken(token);
-    if (!decoded) {
-      return res.status(401).json({ error: 'Invalid token' });
-    }
+    const user = await requireScope(req, res, 'catalog:read');
+    if (!user) return;
 
     const { filters = { genre: [], year: '', rating: '', sort: 'date' }, page = 1, limit = 100 } = req.body;
     const skip = (page - 1) * limit;
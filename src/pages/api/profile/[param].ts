@@ -1,6 +1,6 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { PrismaClient, Prisma } from '@prisma/client';
-import { verifyToken } from '../../../utils/auth';
+import { requireScope } from '../../../utils/requireAuth';
 
 type ProfileInfo = {
   bio?: string;
@@ -21,18 +21,11 @@ const prisma = new PrismaClient();
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   const { param } = req.query;
-  const token = req.headers.authorization?.split(' ')[1];
-
-  if (!token) {
-    return res.status(401).json({ error: 'Не авторизован' });
-  }
 
   try {
-    const payload = await verifyToken(token);
-    if (!payload || typeof payload.userId !== 'number') {
-      return res.status(401).json({ error: 'Недействительный токен' });
-    }
-    const userId = payload.userId;
+    const authUser = await requireScope(req, res, req.method === 'GET' ? 'profile:read' : 'profile:write');
+    if (!authUser) return;
+    const userId = authUser.id;
 
     // Если param является числом, обрабатываем как запрос профиля по ID
     if (!isNaN(Number(param))) {
@@ -0,0 +1,115 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { prisma } from '@/config/database';
+import { requireAuth } from '@/utils/requireAuth';
+import { generateApiToken, MAX_API_TOKENS_PER_USER } from '@/utils/apiTokens';
+import { isApiTokenScope } from '@/utils/permissions';
+
+const MAX_TOKEN_NAME_LENGTH = 64;
+const ALLOWED_EXPIRATION_DAYS = [30, 90, 365];
+
+// Управление персональными API-токенами доступно только из браузерной сессии:
+// requireAuth не принимает сами API-токены, поэтому токен не может выпустить новый
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const authUser = await requireAuth(req, res);
+    if (!authUser) return;
+
+    const activeFilter = {
+      user_id: authUser.id,
+      revoked_at: null,
+      OR: [{ expires_at: null }, { expires_at: { gt: new Date() } }]
+    };
+
+    switch (req.method) {
+      case 'GET': {
+        const tokens = await prisma.apiToken.findMany({
+          where: activeFilter,
+          orderBy: { created_at: 'desc' },
+          select: {
+            id: true,
+            name: true,
+            token_prefix: true,
+            scopes: true,
+            expires_at: true,
+            last_used_at: true,
+            last_used_ip: true,
+            created_at: true
+          }
+        });
+
+        return res.status(200).json(tokens);
+      }
+
+      case 'POST': {
+        const { name, scopes, expiresInDays } = req.body || {};
+        const trimmedName = typeof name === 'string' ? name.trim() : '';
+
+        if (!trimmedName || trimmedName.length > MAX_TOKEN_NAME_LENGTH) {
+          return res.status(400).json({ error: `Укажите название токена (до ${MAX_TOKEN_NAME_LENGTH} символов)` });
+        }
+
+        if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiTokenScope)) {
+          return res.status(400).json({ error: 'Выберите хотя бы одну допустимую область доступа' });
+        }
+
+        if (expiresInDays !== undefined && expiresInDays !== null && !ALLOWED_EXPIRATION_DAYS.includes(expiresInDays)) {
+          return res.status(400).json({ error: 'Недопустимый срок действия токена' });
+        }
+
+        const activeCount = await prisma.apiToken.count({ where: activeFilter });
+        if (activeCount >= MAX_API_TOKENS_PER_USER) {
+          return res.status(400).json({ error: `Можно создать не более ${MAX_API_TOKENS_PER_USER} токенов` });
+        }
+
+        const { token, tokenHash, tokenPrefix } = generateApiToken();
+        const created = await prisma.apiToken.create({
+          data: {
+            user_id: authUser.id,
+            name: trimmedName,
+            token_hash: tokenHash,
+            token_prefix: tokenPrefix,
+            scopes: Array.from(new Set<string>(scopes)),
+            expires_at: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null
+          },
+          select: {
+            id: true,
+            name: true,
+            token_prefix: true,
+            scopes: true,
+            expires_at: true,
+            created_at: true
+          }
+        });
+
+        // Открытое значение токена возвращается только в этом ответе
+        return res.status(201).json({ ...created, token });
+      }
+
+      case 'DELETE': {
+        const { tokenId } = req.body || {};
+
+        if (typeof tokenId !== 'number') {
+          return res.status(400).json({ error: 'Не указан токен' });
+        }
+
+        const { count } = await prisma.apiToken.updateMany({
+          where: { id: tokenId, user_id: authUser.id, revoked_at: null },
+          data: { revoked_at: new Date() }
+        });
+
+        if (count === 0) {
+          return res.status(404).json({ error: 'Токен не найден' });
+        }
+
+        return res.status(200).json({ message: 'Токен отозван' });
+      }
+
+      default:
+        res.setHeader('Allow', ['GET', 'POST', 'DELETE']);
+        return res.status(405).json({ error: 'Метод не поддерживается' });
+    }
+  } catch (error) {
+    console.error('API tokens error:', error);
+    return res.status(500).json({ error: 'Ошибка при работе с API-токенами' });
+  }
+}
@@ -1,5 +1,5 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { verifyToken } from '@/utils/auth';
+import { requireScope } from '@/utils/requireAuth';
 import { prisma } from '@/config/database';
 import formidable from 'formidable';
 import fs from 'fs';
@@ -17,16 +17,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const token = req.headers.authorization?.split(' ')[1];
-    if (!token) {
-      return res.status(401).json({ error: 'Не авторизован' });
-    }
-
-    const payload = await verifyToken(token);
-    if (!payload || typeof payload.userId !== 'number') {
-      return res.status(401).json({ error: 'Недействительный токен' });
-    }
-    const userId = payload.userId;
+    const authUser = await requireScope(req, res, 'profile:write');
+    if (!authUser) return;
+    const userId = authUser.id;
 
     const form = formidable({
       uploadDir: path.join(process.cwd(), 'public/uploads'),
@@ -0,0 +1,172 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { requireAuth } from '@/utils/requireAuth';
+import { comparePassword } from '@/utils/auth';
+import { revokeUserSessions } from '@/utils/session';
+import { sendEmailChangeCode, sendEmailChangeNotice } from '@/utils/email';
+import {
+  checkThrottle,
+  getThrottleKeys,
+  registerFailedAttempt,
+  resetThrottle,
+  sendTooManyAttempts
+} from '@/utils/authThrottle';
+import {
+  cancelEmailChange,
+  checkEmailChangeCode,
+  createEmailChangeRequest,
+  EMAIL_CHANGE_PURPOSE,
+  getEmailChangeCooldown,
+  getPendingEmailChange,
+  isValidEmail
+} from '@/utils/emailChange';
+
+// Адрес занят, если он принадлежит другому пользователю или ожидающей регистрации
+const isEmailTaken = async (email: string): Promise<boolean> => {
+  const [user, pending] = await Promise.all([
+    prisma.user.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' } },
+      select: { id: true }
+    }),
+    prisma.pendingRegistration.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' }, expires_at: { gt: new Date() } },
+      select: { id: true }
+    })
+  ]);
+  return Boolean(user || pending);
+};
+
+// Смена email в два шага: POST отправляет код на новый адрес и уведомление на текущий,
+// PUT с кодом меняет адрес. До подтверждения аккаунт остается на прежнем email
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const authUser = await requireAuth(req, res);
+    if (!authUser) return;
+
+    const user = await prisma.user.findUnique({
+      where: { id: authUser.id },
+      select: { id: true, email: true, password_hash: true }
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'Пользователь не найден' });
+    }
+
+    switch (req.method) {
+      case 'GET': {
+        const pending = await getPendingEmailChange(user.id);
+        return res.status(200).json({
+          email: user.email,
+          pendingEmail: pending?.email || null,
+          expiresAt: pending?.expires_at || null
+        });
+      }
+
+      case 'POST': {
+        const { email, password } = req.body || {};
+        const newEmail = typeof email === 'string' ? email.trim() : '';
+
+        if (!newEmail || !isValidEmail(newEmail)) {
+          return res.status(400).json({ error: 'Укажите корректный email' });
+        }
+
+        if (newEmail.toLowerCase() === user.email.toLowerCase()) {
+          return res.status(400).json({ error: 'Это ваш текущий email' });
+        }
+
+        const throttleKeys = getThrottleKeys('email-change', req, user.email);
+        const retryAfter = await checkThrottle(throttleKeys);
+        if (retryAfter) {
+          return sendTooManyAttempts(res, retryAfter);
+        }
+
+        if (typeof password !== 'string' || !(await comparePassword(password, user.password_hash))) {
+          await registerFailedAttempt(throttleKeys);
+          return res.status(401).json({ error: 'Неверный пароль' });
+        }
+        await resetThrottle([throttleKeys[0]]);
+
+        const cooldown = getEmailChangeCooldown(await getPendingEmailChange(user.id));
+        if (cooldown) {
+          return sendTooManyAttempts(res, cooldown, `Повторно отправить код можно через ${cooldown} сек.`);
+        }
+
+        if (await isEmailTaken(newEmail)) {
+          return res.status(400).json({ error: 'Email уже зарегистрирован' });
+        }
+
+        const code = await createEmailChangeRequest(user.id, newEmail);
+
+        if (!(await sendEmailChangeCode(newEmail, code))) {
+          await cancelEmailChange(user.id);
+          return res.status(500).json({ error: 'Ошибка отправки email' });
+        }
+        await sendEmailChangeNotice(user.email, newEmail);
+
+        return res.status(200).json({ message: 'Код подтверждения отправлен на новый email', pendingEmail: newEmail });
+      }
+
+      case 'PUT': {
+        const { code } = req.body || {};
+
+        if (!code || typeof code !== 'string') {
+          return res.status(400).json({ error: 'Введите код из письма' });
+        }
+
+        const pending = await getPendingEmailChange(user.id);
+        if (!pending) {
+          return res.status(400).json({ error: 'Запрос на смену email не найден или истек' });
+        }
+
+        if (!(await checkEmailChangeCode(pending, code.trim()))) {
+          return res.status(400).json({ error: 'Неверный код подтверждения' });
+        }
+
+        // Адрес могли занять, пока письмо шло к пользователю
+        const taken = await prisma.user.findFirst({
+          where: { email: { equals: pending.email, mode: 'insensitive' }, id: { not: user.id } },
+          select: { id: true }
+        });
+        if (taken) {
+          await cancelEmailChange(user.id);
+          return res.status(409).json({ error: 'Email уже зарегистрирован' });
+        }
+
+        try {
+          await prisma.$transaction([
+            prisma.user.update({
+              where: { id: user.id },
+              data: { email: pending.email }
+            }),
+            prisma.verificationCode.deleteMany({
+              where: { user_id: user.id, purpose: EMAIL_CHANGE_PURPOSE }
+            })
+          ]);
+        } catch (error) {
+          if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            return res.status(409).json({ error: 'Email уже зарегистрирован' });
+          }
+          throw error;
+        }
+
+        // Остальные устройства входили под прежним адресом, их сессии завершаются
+        await revokeUserSessions(user.id, authUser.sessionId);
+
+        return res.status(200).json({ message: 'Email изменен', email: pending.email });
+      }
+
+      case 'DELETE': {
+        await cancelEmailChange(user.id);
+        return res.status(200).json({ message: 'Смена email отменена' });
+      }
+
+      default:
+        res.setHeader('Allow', ['GET', 'POST', 'PUT', 'DELETE']);
+        return res.status(405).json({ error: 'Метод не поддерживается' });
+    }
+  } catch (error) {
+    console.error('Email change error:', error);
+    return res.status(500).json({ error: 'Ошибка при смене email' });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { prisma } from '@/config/database';
+import { requireAuth } from '@/utils/requireAuth';
+import { sendTooManyAttempts } from '@/utils/authThrottle';
+import { getExportCooldown, processDataExport, requestDataExport } from '@/utils/dataExport';
+
+// Выгрузка персональных данных. Архив собирается в фоне; если процесс завершится раньше,
+// ожидающую выгрузку доберет плановая задача /api/cron/process-exports
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const authUser = await requireAuth(req, res);
+    if (!authUser) return;
+
+    switch (req.method) {
+      case 'GET': {
+        const exports = await prisma.dataExport.findMany({
+          where: { user_id: authUser.id },
+          orderBy: { created_at: 'desc' },
+          take: 5,
+          select: {
+            id: true,
+            status: true,
+            file_size: true,
+            expires_at: true,
+            created_at: true,
+            completed_at: true
+          }
+        });
+
+        return res.status(200).json(exports);
+      }
+
+      case 'POST': {
+        const cooldown = await getExportCooldown(authUser.id);
+        if (cooldown) {
+          return sendTooManyAttempts(res, cooldown, `Новый архив можно запросить через ${Math.ceil(cooldown / 60)} мин.`);
+        }
+
+        const dataExport = await requestDataExport(authUser.id);
+
+        processDataExport(dataExport.id).catch(error => {
+          console.error('Background data export error:', error);
+        });
+
+        return res.status(202).json({
+          id: dataExport.id,
+          status: dataExport.status,
+          message: 'Архив готовится, ссылка для скачивания придет на email'
+        });
+      }
+
+      default:
+        res.setHeader('Allow', ['GET', 'POST']);
+        return res.status(405).json({ error: 'Метод не поддерживается' });
+    }
+  } catch (error) {
+    console.error('Data export API error:', error);
+    return res.status(500).json({ error: 'Ошибка при выгрузке данных' });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAuth } from '@/utils/requireAuth';
+import { findDownloadableExport, openExportFile } from '@/utils/dataExport';
+
+// Скачивание архива: по токену из письма без входа в аккаунт или по id из настроек профиля
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: 'Метод не поддерживается' });
+  }
+
+  const { token, id } = req.query;
+
+  try {
+    let dataExport;
+
+    if (typeof token === 'string' && token) {
+      dataExport = await findDownloadableExport({ token });
+    } else if (typeof id === 'string' && id) {
+      const authUser = await requireAuth(req, res);
+      if (!authUser) return;
+      dataExport = await findDownloadableExport({ id, userId: authUser.id });
+    } else {
+      return res.status(400).json({ error: 'Не указан архив' });
+    }
+
+    if (!dataExport) {
+      return res.status(404).json({ error: 'Ссылка недействительна или срок ее действия истек' });
+    }
+
+    const fileName = `mediaapp-export-${dataExport.created_at.toISOString().slice(0, 10)}.zip`;
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.setHeader('Cache-Control', 'no-store');
+    if (dataExport.file_size) {
+      res.setHeader('Content-Length', dataExport.file_size);
+    }
+
+    const stream = openExportFile(dataExport.id);
+    stream.on('error', (error) => {
+      console.error('Export file read error:', error);
+      if (!res.headersSent) {
+        res.status(404).json({ error: 'Архив не найден' });
+      } else {
+        res.end();
+      }
+    });
+    stream.pipe(res);
+  } catch (error) {
+    console.error('Data export download error:', error);
+    return res.status(500).json({ error: 'Ошибка при скачивании архива' });
+  }
+}
@@ -1,26 +1,23 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { prisma } from '../../../config/database';
-import { verifyToken } from '../../../utils/auth';
+import { requireAuth, requireScope } from '../../../utils/requireAuth';
+import { comparePassword } from '../../../utils/auth';
+import { scheduleAccountDeletion } from '../../../utils/accountDeletion';
+import { clearAuthCookies } from '../../../utils/authCookies';
+import { sendAccountDeletionEmail } from '../../../utils/email';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  // Проверяем токен
-  const authHeader = req.headers.authorization;
-  if (!authHeader) {
-    return res.status(401).json({ error: 'Требуется авторизация' });
-  }
-
-  const token = authHeader.split(' ')[1];
-  const payload = await verifyToken(token);
-
-  if (!payload || typeof payload.userId !== 'number') {
-    return res.status(401).json({ error: 'Недействительный токен' });
-  }
+  // Проверяем токен и состояние аккаунта. Удалить аккаунт можно только из браузерной сессии
+  const authUser = req.method === 'DELETE'
+    ? await requireAuth(req, res)
+    : await requireScope(req, res, req.method === 'GET' ? 'profile:read' : 'profile:write');
+  if (!authUser) return;
 
   if (req.method === 'GET') {
     try {
       // Получаем данные пользователя и его настройки
       const user = await prisma.user.findUnique({
-        where: { id: payload.userId },
+        where: { id: authUser.id },
         include: {
           settings: true
         }
@@ -60,16 +57,16 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       await prisma.$transaction(async (prisma) => {
         if (username) {
           await prisma.user.update({
-            where: { id: payload.userId },
+            where: { id: authUser.id },
             data: { username }
           });
         }
 
         if (settings) {
           await prisma.userSettings.upsert({
-            where: { user_id: payload.userId },
+            where: { user_id: authUser.id },
             create: {
-              user_id: payload.userId,
+              user_id: authUser.id,
               notification_email: settings.notification_email,
               notification_web: settings.notification_web,
               privacy_profile: settings.privacy_profile,
@@ -92,6 +89,33 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       console.error('Profile update error:', error);
       res.status(500).json({ error: 'Ошибка при обновлении профиля' });
     }
+  } else if (req.method === 'DELETE') {
+    const { password } = req.body || {};
+
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: authUser.id },
+        select: { email: true, password_hash: true }
+      });
+
+      if (!user) {
+        return res.status(404).json({ error: 'Пользователь не найден' });
+      }
+
+      if (typeof password !== 'string' || !(await comparePassword(password, user.password_hash))) {
+        return res.status(401).json({ error: 'Неверный пароль' });
+      }
+
+      // Данные удаляются не сразу: в течение льготного периода удаление можно отменить по ссылке из письма
+      const { token, scheduledAt } = await scheduleAccountDeletion(authUser.id);
+      await sendAccountDeletionEmail(user.email, token, scheduledAt);
+      clearAuthCookies(res);
+
+      res.status(200).json({ message: 'Аккаунт будет удален', deletionScheduledAt: scheduledAt });
+    } catch (error) {
+      console.error('Account deletion error:', error);
+      res.status(500).json({ error: 'Ошибка при удалении аккаунта' });
+    }
   } else {
     res.status(405).json({ error: 'Method not allowed' });
   }
@@ -0,0 +1,71 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { prisma } from '@/config/database';
+import { requireAuth } from '@/utils/requireAuth';
+import { revokeSession, revokeUserSessions } from '@/utils/session';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const authUser = await requireAuth(req, res);
+    if (!authUser) return;
+
+    switch (req.method) {
+      case 'GET': {
+        // Активной считается сессия, у которой остался действующий refresh-токен
+        const sessions = await prisma.session.findMany({
+          where: {
+            user_id: authUser.id,
+            revoked_at: null,
+            refresh_tokens: {
+              some: { revoked_at: null, expires_at: { gt: new Date() } }
+            }
+          },
+          orderBy: { last_seen_at: 'desc' },
+          select: {
+            id: true,
+            device: true,
+            ip: true,
+            created_at: true,
+            last_seen_at: true
+          }
+        });
+
+        return res.status(200).json(sessions.map(session => ({
+          ...session,
+          is_current: session.id === authUser.sessionId
+        })));
+      }
+
+      case 'DELETE': {
+        const { sessionId, all } = req.body || {};
+
+        // all: завершить все сессии, кроме текущей
+        if (all) {
+          const count = await revokeUserSessions(authUser.id, authUser.sessionId);
+          return res.status(200).json({ message: 'Сессии завершены', count });
+        }
+
+        if (!sessionId || typeof sessionId !== 'string') {
+          return res.status(400).json({ error: 'Не указана сессия' });
+        }
+
+        const session = await prisma.session.findFirst({
+          where: { id: sessionId, user_id: authUser.id }
+        });
+
+        if (!session) {
+          return res.status(404).json({ error: 'Сессия не найдена' });
+        }
+
+        await revokeSession(session.id);
+        return res.status(200).json({ message: 'Сессия завершена' });
+      }
+
+      default:
+        res.setHeader('Allow', ['GET', 'DELETE']);
+        return res.status(405).json({ error: 'Метод не поддерживается' });
+    }
+  } catch (error) {
+    console.error('Sessions API error:', error);
+    return res.status(500).json({ error: 'Ошибка при работе с сессиями' });
+  }
+}
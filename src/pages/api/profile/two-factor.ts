@@ -0,0 +1,157 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { prisma } from '@/config/database';
+import { requireAuth } from '@/utils/requireAuth';
+import { comparePassword } from '@/utils/auth';
+import {
+  checkThrottle,
+  getThrottleKeys,
+  registerFailedAttempt,
+  resetThrottle,
+  sendTooManyAttempts
+} from '@/utils/authThrottle';
+import {
+  buildOtpAuthUrl,
+  confirmTotp,
+  countBackupCodes,
+  generateTotpSecret,
+  isTwoFactorRequired,
+  regenerateBackupCodes
+} from '@/utils/twoFactor';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const authUser = await requireAuth(req, res);
+    if (!authUser) return;
+
+    const user = await prisma.user.findUnique({
+      where: { id: authUser.id },
+      select: {
+        id: true,
+        email: true,
+        role: true,
+        password_hash: true,
+        totp_enabled: true,
+        totp_secret: true,
+        totp_last_step: true
+      }
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'Пользователь не найден' });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json({
+        enabled: user.totp_enabled,
+        required: isTwoFactorRequired(user.role),
+        backupCodesLeft: user.totp_enabled ? await countBackupCodes(user.id) : 0
+      });
+    }
+
+    if (req.method !== 'POST' && req.method !== 'DELETE') {
+      res.setHeader('Allow', ['GET', 'POST', 'DELETE']);
+      return res.status(405).json({ error: 'Метод не поддерживается' });
+    }
+
+    const { action, code, password } = req.body || {};
+
+    // Новый секрет для подключения: 2FA включится только после подтверждения кодом
+    if (req.method === 'POST' && action === 'setup') {
+      if (user.totp_enabled) {
+        return res.status(400).json({ error: 'Двухфакторная аутентификация уже включена' });
+      }
+
+      const secret = generateTotpSecret();
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { totp_secret: secret, totp_last_step: null }
+      });
+
+      return res.status(200).json({
+        secret,
+        otpauthUrl: buildOtpAuthUrl(secret, user.email)
+      });
+    }
+
+    if (!code || typeof code !== 'string') {
+      return res.status(400).json({ error: 'Введите код из приложения' });
+    }
+
+    const throttleKeys = getThrottleKeys('two-factor', req, user.email);
+    const retryAfter = await checkThrottle(throttleKeys);
+    if (retryAfter) {
+      return sendTooManyAttempts(res, retryAfter);
+    }
+
+    if (req.method === 'DELETE') {
+      if (isTwoFactorRequired(user.role)) {
+        return res.status(403).json({ error: 'Для сотрудников с доступом к админ-панели двухфакторная аутентификация обязательна' });
+      }
+
+      if (!user.totp_enabled) {
+        return res.status(400).json({ error: 'Двухфакторная аутентификация не включена' });
+      }
+
+      // Отключение требует и пароль, и код, чтобы украденная сессия не снимала защиту
+      const isValid = typeof password === 'string'
+        && await comparePassword(password, user.password_hash)
+        && await confirmTotp(user, code);
+
+      if (!isValid) {
+        await registerFailedAttempt(throttleKeys);
+        return res.status(401).json({ error: 'Неверный пароль или код' });
+      }
+
+      await prisma.$transaction([
+        prisma.twoFactorBackupCode.deleteMany({ where: { user_id: user.id } }),
+        prisma.user.update({
+          where: { id: user.id },
+          data: { totp_enabled: false, totp_secret: null, totp_last_step: null }
+        })
+      ]);
+      await resetThrottle([throttleKeys[0]]);
+
+      return res.status(200).json({ message: 'Двухфакторная аутентификация отключена' });
+    }
+
+    switch (action) {
+      case 'enable': {
+        if (user.totp_enabled) {
+          return res.status(400).json({ error: 'Двухфакторная аутентификация уже включена' });
+        }
+        if (!user.totp_secret) {
+          return res.status(400).json({ error: 'Сначала начните настройку' });
+        }
+        break;
+      }
+      case 'backup-codes': {
+        if (!user.totp_enabled) {
+          return res.status(400).json({ error: 'Двухфакторная аутентификация не включена' });
+        }
+        break;
+      }
+      default:
+        return res.status(400).json({ error: 'Неизвестное действие' });
+    }
+
+    if (!(await confirmTotp(user, code))) {
+      await registerFailedAttempt(throttleKeys);
+      return res.status(401).json({ error: 'Неверный код' });
+    }
+    await resetThrottle([throttleKeys[0]]);
+
+    if (action === 'enable') {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { totp_enabled: true }
+      });
+    }
+
+    // И при включении, и по запросу выдается новый набор резервных кодов
+    const backupCodes = await regenerateBackupCodes(user.id);
+    return res.status(200).json({ backupCodes });
+  } catch (error) {
+    console.error('Two-factor API error:', error);
+    return res.status(500).json({ error: 'Ошибка при настройке двухфакторной аутентификации' });
+  }
+}
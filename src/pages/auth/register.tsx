@@ -67,6 +67,23 @@ const SuccessMessage = styled.div`
   text-align: center;
 `;
 
+const ResendButton = styled.button`
+  background: none;
+  border: none;
+  color: ${({ theme }) => theme.colors.primary};
+  font-size: ${({ theme }) => theme.typography.fontSize.sm};
+  cursor: pointer;
+
+  &:hover {
+    text-decoration: underline;
+  }
+
+  &:disabled {
+    opacity: 0.7;
+    cursor: not-allowed;
+  }
+`;
+
 const RegisterPage: React.FC = () => {
   const router = useRouter();
   const [step, setStep] = useState<'register' | 'verify'>('register');
@@ -128,9 +145,7 @@ const RegisterPage: React.FC = () => {
         throw new Error(data.error);
       }
 
-      // Сохраняем токен
-      localStorage.setItem('token', data.token);
-      
+      // Токены сессии сервер выставил в httpOnly-cookie
       setSuccess('Email подтвержден! Перенаправляем...');
       setTimeout(() => router.push('/profile'), 1500);
     } catch (err) {
@@ -140,6 +155,32 @@ const RegisterPage: React.FC = () => {
     }
   };
 
+  const handleResendCode = async () => {
+    setError('');
+    setSuccess('');
+    setLoading(true);
+
+    try {
+      const res = await fetch('/api/auth/resend-code', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: formData.email }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error);
+      }
+
+      setSuccess('Новый код отправлен на ваш email');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Ошибка при отправке кода');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <Layout>
       <AuthContainer>
@@ -187,7 +228,7 @@ const RegisterPage: React.FC = () => {
               placeholder="Введите код подтверждения"
               value={verificationCode}
               onChange={(e) => setVerificationCode(e.target.value)}
-              maxLength={4}
+              maxLength={6}
               required
             />
             <Button
@@ -198,6 +239,9 @@ const RegisterPage: React.FC = () => {
             >
               {loading ? 'Проверка...' : 'Подтвердить'}
             </Button>
+            <ResendButton type="button" onClick={handleResendCode} disabled={loading}>
+              Отправить код повторно
+            </ResendButton>
           </Form>
         )}
       </AuthContainer>
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { motion } from 'framer-motion';
+import Layout from '../../../components/Layout/Layout';
+
+const AuthContainer = styled.div`
+  max-width: 400px;
+  margin: 40px auto;
+  padding: ${({ theme }) => theme.spacing.xl};
+  background: ${({ theme }) => theme.colors.background};
+  border-radius: ${({ theme }) => theme.borderRadius.lg};
+  box-shadow: ${({ theme }) => theme.shadows.lg};
+`;
+
+const Title = styled.h1`
+  font-size: ${({ theme }) => theme.typography.fontSize['2xl']};
+  font-weight: ${({ theme }) => theme.typography.fontWeight.bold};
+  margin-bottom: ${({ theme }) => theme.spacing.xl};
+  text-align: center;
+`;
+
+const Description = styled.p`
+  color: ${({ theme }) => theme.colors.textSecondary};
+  font-size: ${({ theme }) => theme.typography.fontSize.sm};
+  text-align: center;
+  margin-bottom: ${({ theme }) => theme.spacing.lg};
+`;
+
+const Button = styled(motion.button)`
+  width: 100%;
+  padding: ${({ theme }) => theme.spacing.md};
+  background: ${({ theme }) => theme.colors.primary};
+  color: white;
+  border: none;
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+  font-size: ${({ theme }) => theme.typography.fontSize.base};
+  font-weight: ${({ theme }) => theme.typography.fontWeight.semibold};
+  cursor: pointer;
+
+  &:disabled {
+    opacity: 0.7;
+    cursor: not-allowed;
+  }
+`;
+
+const ErrorMessage = styled.div`
+  color: ${({ theme }) => theme.colors.error};
+  font-size: ${({ theme }) => theme.typography.fontSize.sm};
+  text-align: center;
+  margin-bottom: ${({ theme }) => theme.spacing.md};
+`;
+
+const SuccessMessage = styled.div`
+  color: ${({ theme }) => theme.colors.success};
+  font-size: ${({ theme }) => theme.typography.fontSize.sm};
+  text-align: center;
+  margin-bottom: ${({ theme }) => theme.spacing.md};
+`;
+
+const BackLink = styled(Link)`
+  display: block;
+  margin-top: ${({ theme }) => theme.spacing.lg};
+  color: ${({ theme }) => theme.colors.primary};
+  font-size: ${({ theme }) => theme.typography.fontSize.sm};
+  text-align: center;
+`;
+
+// Отмена удаления выполняется по кнопке, а не при открытии страницы,
+// чтобы ссылку не активировали почтовые сканеры, проверяющие ссылки в письмах
+const RestoreAccountPage: React.FC = () => {
+  const router = useRouter();
+  const { token } = router.query;
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleRestore = async () => {
+    setError('');
+    setLoading(true);
+
+    try {
+      const res = await fetch('/api/auth/restore-account', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error);
+      }
+
+      setSuccess('Удаление отменено! Перенаправляем на страницу входа...');
+      setTimeout(() => router.push('/auth/login'), 1500);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Ошибка при отмене удаления аккаунта');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <AuthContainer>
+        <Title>Восстановление аккаунта</Title>
+        <Description>Аккаунт поставлен в очередь на удаление. Вы можете отменить удаление и снова войти в аккаунт.</Description>
+
+        {error && <ErrorMessage>{error}</ErrorMessage>}
+        {success && <SuccessMessage>{success}</SuccessMessage>}
+
+        <Button
+          onClick={handleRestore}
+          disabled={loading || !token || !!success}
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+        >
+          {loading ? 'Восстановление...' : 'Отменить удаление'}
+        </Button>
+        <BackLink href="/auth/login">Вернуться ко входу</BackLink>
+      </AuthContainer>
+    </Layout>
+  );
+};
+
+export default RestoreAccountPage;
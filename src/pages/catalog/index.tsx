@@ -4,6 +4,7 @@ import Layout from '../../components/Layout/Layout';
 import { motion, AnimatePresence, HTMLMotionProps } from 'framer-motion';
 import { FiFilter, FiChevronDown } from 'react-icons/fi';
 import { useRouter } from 'next/router';
+import { apiFetch } from '../../utils/apiFetch';
 
 interface Movie {
   id: number;
@@ -225,11 +226,10 @@ const CatalogPage: React.FC = () => {
           return;
         }
 
-        const response = await fetch('/api/movies/list', {
+        const response = await apiFetch('/api/movies/list', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
-            'Authorization': `Bearer ${localStorage.getItem('token')}`
           },
           body: JSON.stringify({
             filters: filters,
@@ -280,11 +280,7 @@ const CatalogPage: React.FC = () => {
   useEffect(() => {
     const fetchGenres = async () => {
       try {
-        const response = await fetch('/api/movies/genres', {
-          headers: {
-            'Authorization': `Bearer ${localStorage.getItem('token')}`
-          }
-        });
+        const response = await apiFetch('/api/movies/genres');
         if (response.ok) {
           const data = await response.json();
           setGenres(data);
@@ -2,6 +2,7 @@ import { useEffect, useState } from 'react';
 import { useRouter } from 'next/router';
 import { Box, Container, Typography, Paper, CircularProgress, Avatar } from '@mui/material';
 import { useAuth } from '@/hooks/useAuth';
+import { apiFetch } from '@/utils/apiFetch';
 import type { Theme } from '@mui/material/styles';
 
 interface UserProfile {
@@ -35,20 +36,16 @@ interface UserProfile {
 export default function UserProfile() {
   const router = useRouter();
   const { id } = router.query;
-  const { token } = useAuth();
+  const { isAuthenticated } = useAuth();
   const [loading, setLoading] = useState(true);
   const [profile, setProfile] = useState<UserProfile | null>(null);
 
   useEffect(() => {
-    if (!id || !token) return;
+    if (!id || !isAuthenticated) return;
 
     const fetchProfile = async () => {
       try {
-        const response = await fetch(`/api/profile/${id}`, {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        });
+        const response = await apiFetch(`/api/profile/${id}`);
 
         if (response.ok) {
           const data = await response.json();
@@ -64,7 +61,7 @@ export default function UserProfile() {
     };
 
     fetchProfile();
-  }, [id, token]);
+  }, [id, isAuthenticated]);
 
   if (loading) {
     return (
@@ -3,6 +3,7 @@ import { useRouter } from 'next/router';
 import styled from 'styled-components';
 import Layout from '../../components/Layout/Layout';
 import { motion } from 'framer-motion';
+import { apiFetch } from '../../utils/apiFetch';
 
 interface Movie {
   id: number;
@@ -262,11 +263,7 @@ const WatchPage: React.FC = () => {
       if (!id) return;
 
       try {
-        const response = await fetch(`/api/movies/${id}`, {
-          headers: {
-            'Authorization': `Bearer ${localStorage.getItem('token')}`
-          }
-        });
+        const response = await apiFetch(`/api/movies/${id}`);
 
         if (!response.ok) {
           if (response.status === 404) {
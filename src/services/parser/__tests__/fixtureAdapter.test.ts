@@ -0,0 +1,32 @@
+import path from 'path';
+import axios from 'axios';
+import { createFixtureAdapter, FixtureMode } from '../fixtureAdapter';
+
+const FIXTURES_DIR = path.join(__dirname, '..', '__fixtures__', 'kinopoisk');
+
+const createHttp = (mode: FixtureMode) =>
+  axios.create({ baseURL: 'https://kinopoiskapiunofficial.tech/api', adapter: createFixtureAdapter(FIXTURES_DIR, mode) });
+
+describe('createFixtureAdapter', () => {
+  it('отдает ответ для тех же параметров без ключа API', async () => {
+    const response = await createHttp('strict').get('/v1/staff', { params: { filmId: 447301, apikey: 'secret' } });
+
+    expect(response.status).toBe(200);
+    expect(response.data.length).toBeGreaterThan(0);
+  });
+
+  it('в режиме replay берет ответ для любых параметров, если точного нет', async () => {
+    const response = await createHttp('replay').get('/v2.1/films/search-by-keyword', { params: { keyword: 'Начало', page: 1 } });
+
+    expect(response.data.films.length).toBeGreaterThan(0);
+  });
+
+  it('в режиме strict завершает запрос без точной фикстуры ошибкой', async () => {
+    await expect(
+      createHttp('strict').get('/v2.1/films/search-by-keyword', { params: { keyword: 'Начало', page: 1 } })
+    ).rejects.toThrow('Нет фикстуры');
+    await expect(
+      createHttp('strict').get('/v2.2/films/collections', { params: { type: 'TOP_POPULAR_MOVIES', page: 2 } })
+    ).rejects.toThrow('Нет фикстуры');
+  });
+});
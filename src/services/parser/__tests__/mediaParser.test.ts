@@ -0,0 +1,223 @@
+import path from 'path';
+import { prisma } from '@/config/database';
+import { MediaParser } from '../mediaParser';
+import { DiscoverySettings } from '../discovery';
+import { KinopoiskProvider } from '../providers/kinopoisk';
+import { OmdbProvider } from '../providers/omdb';
+import { TmdbProvider } from '../providers/tmdb';
+
+// Движка Prisma в тестах нет: парсер работает с таблицами в памяти
+jest.mock('@/config/database', () => {
+  type Row = Record<string, unknown>;
+
+  interface MediaWhere {
+    source_type?: string;
+    source_id?: { in: string[] };
+    type?: string;
+    status?: string;
+    updated_at?: { lt: Date };
+  }
+
+  const tables: Record<string, Row[]> = {
+    parserStatus: [],
+    media: [],
+    episode: [],
+    videoSource: [],
+    parserHistory: [],
+    parserHistoryItem: [],
+    parserLog: []
+  };
+
+  const insert = (table: string, data: Row): Row => {
+    const row = { id: tables[table].length + 1, created_at: new Date(), updated_at: new Date(), ...data };
+    tables[table].push(row);
+    return row;
+  };
+
+  const isStale = (row: Row, where: MediaWhere) =>
+    row.updated_at instanceof Date && !!where.updated_at && row.updated_at < where.updated_at.lt;
+
+  const prisma = {
+    tables,
+    parserStatus: {
+      findFirst: async () => tables.parserStatus[0] || null,
+      updateMany: async ({ where, data }: { where: { id: number; status: { not: string } }; data: Row }) => {
+        const rows = tables.parserStatus.filter(row => row.id === where.id && row.status !== where.status.not);
+        rows.forEach(row => Object.assign(row, data));
+        return { count: rows.length };
+      }
+    },
+    media: {
+      findMany: async ({ where, skip = 0 }: { where: MediaWhere; skip?: number }) =>
+        tables.media.filter(row =>
+          where.source_id
+            ? row.source_type === where.source_type && where.source_id.in.includes(String(row.source_id))
+            : row.type === where.type && row.status === where.status && isStale(row, where)
+        ).slice(skip),
+      findUnique: async ({ where }: { where: { id: number } }) => tables.media.find(row => row.id === where.id) || null,
+      create: async ({ data }: { data: Row }) => insert('media', data),
+      update: async ({ where, data }: { where: { id: number }; data: Row }) =>
+        Object.assign(tables.media.find(row => row.id === where.id)!, data)
+    },
+    episode: {
+      create: async ({ data }: { data: Row }) => insert('episode', data),
+      upsert: async ({ where, create, update }: { where: { media_id_season_number_episode_number: Row }; create: Row; update: Row }) => {
+        const key = where.media_id_season_number_episode_number;
+        const episode = tables.episode.find(row =>
+          row.media_id === key.media_id && row.season_number === key.season_number && row.episode_number === key.episode_number
+        );
+        return episode ? Object.assign(episode, update) : insert('episode', create);
+      }
+    },
+    videoSource: {
+      create: async ({ data }: { data: Row }) => insert('videoSource', data),
+      createMany: async ({ data }: { data: Row[] }) => ({ count: data.map(row => insert('videoSource', row)).length })
+    },
+    parserHistoryItem: {
+      create: async ({ data }: { data: Row }) => insert('parserHistoryItem', data)
+    },
+    parserHistory: {
+      update: async ({ where, data }: { where: { id: number }; data: Record<string, { increment: number }> }) => {
+        const run = tables.parserHistory.find(row => row.id === where.id)!;
+        Object.entries(data).forEach(([field, value]) => {
+          run[field] = (Number(run[field]) || 0) + value.increment;
+        });
+        return run;
+      }
+    },
+    parserLog: {
+      create: async ({ data }: { data: Row }) => insert('parserLog', data)
+    },
+    parserQuotaUsage: {
+      findUnique: async () => null
+    },
+    $transaction: (operations: Promise<unknown>[]) => Promise.all(operations)
+  };
+
+  return { prisma, default: prisma };
+});
+
+interface CastMember {
+  name: string;
+  character: string | null;
+  photo_url: string | null;
+}
+
+const { tables } = prisma as unknown as { tables: Record<string, Record<string, unknown>[]> };
+
+const discovery: DiscoverySettings = {
+  strategies: ['popular'],
+  options: {
+    contentTypes: ['MOVIE', 'SERIES'],
+    filters: { yearFrom: 2008, yearTo: 2010, genres: [], countries: [] }
+  }
+};
+
+const createParser = () =>
+  new MediaParser([new KinopoiskProvider('test'), new OmdbProvider('test'), new TmdbProvider('test')], discovery);
+
+describe('MediaParser на фикстурах', () => {
+  beforeAll(() => {
+    process.env.PARSER_FIXTURES_DIR = path.join(__dirname, '..', '__fixtures__');
+    process.env.PARSER_FIXTURES_MODE = 'strict';
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    Object.values(tables).forEach(rows => rows.splice(0));
+    tables.parserStatus.push({ id: 1, status: 'inactive', processedItems: 0, errors: [] });
+    tables.parserHistory.push({ id: 1 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('импортирует найденные тайтлы с эпизодами и трейлерами', async () => {
+    await createParser().start(1);
+
+    // Ошибки дополнительных источников, в том числе отсутствующие фикстуры, попадают в журнал
+    expect(tables.parserLog).toEqual([]);
+    expect(tables.media.map(media => media.title)).toEqual(['Начало', 'Во все тяжкие']);
+
+    const [inception, breakingBad] = tables.media;
+    expect(inception).toMatchObject({
+      type: 'MOVIE',
+      original_title: 'Inception',
+      source_type: 'kinopoisk',
+      source_id: '447301',
+      duration: 148
+    });
+    expect(breakingBad).toMatchObject({ type: 'SERIES', original_title: 'Breaking Bad', source_id: '404900', imdb_id: 'tt0903747' });
+    expect(inception.director).toBeTruthy();
+    expect((inception.actors as string[]).length).toBeGreaterThan(0);
+
+    expect(tables.episode).toHaveLength(7);
+    expect(tables.episode.every(episode => episode.media_id === breakingBad.id && episode.season_number === 1)).toBe(true);
+    expect(tables.videoSource.map(source => source.media_id).sort()).toEqual([inception.id, breakingBad.id]);
+
+    expect(tables.parserHistory[0]).toMatchObject({ createdCount: 2 });
+    expect(tables.parserStatus[0]).toMatchObject({ status: 'inactive', processedItems: 2, currentItem: null });
+  });
+
+  it('дополняет людей данными всех источников', async () => {
+    const getStaff = KinopoiskProvider.prototype.getStaff;
+    jest.spyOn(KinopoiskProvider.prototype, 'getStaff').mockImplementation(async function (this: KinopoiskProvider, ref) {
+      const staff = await getStaff.call(this, ref);
+      return staff.map(person => (person.originalName === 'Aaron Paul' ? { ...person, character: null, photoUrl: null } : person));
+    });
+    const tmdbStaff = jest.spyOn(TmdbProvider.prototype, 'getStaff');
+
+    await createParser().start(1);
+
+    // Фото есть у всех людей Кинопоиска в «Начале», но остальные источники все равно запрашиваются
+    expect(tmdbStaff).toHaveBeenCalledTimes(2);
+    const { cast } = tables.media[1].crew as { cast: CastMember[] };
+    expect(cast.find(person => person.name === 'Аарон Пол')).toEqual({
+      name: 'Аарон Пол',
+      character: 'Jesse Pinkman',
+      photo_url: 'https://image.tmdb.org/t/p/w185/8Kce1utfytAG5m1PbtVoDzmDZJH.jpg'
+    });
+    expect(cast.find(person => person.name === 'Брайан Крэнстон')).toMatchObject({
+      photo_url: 'https://kinopoiskapiunofficial.tech/images/actor_posters/kp/22574.jpg'
+    });
+  });
+
+  it('обновляет эпизоды сериала из всех источников', async () => {
+    const updatedAt = new Date(2020, 0, 1);
+    // Сериал добавлен до появления IMDb id в каталоге, поэтому id узнается из деталей Кинопоиска
+    tables.media.push({
+      id: 100,
+      title: 'Во все тяжкие',
+      type: 'SERIES',
+      status: 'ACTIVE',
+      source_type: 'kinopoisk',
+      source_id: '404900',
+      imdb_id: null,
+      updated_at: updatedAt
+    });
+    tables.episode.push({ id: 100, media_id: 100, season_number: 1, episode_number: 1, title: 'Старое название', still_url: null });
+
+    await createParser().start(1);
+
+    expect(tables.parserLog).toEqual([]);
+    expect(tables.media[0]).toMatchObject({ imdb_id: 'tt0903747', updated_at: updatedAt });
+    const episodes = tables.episode.filter(episode => episode.media_id === 100);
+    expect(episodes).toHaveLength(7);
+    expect(episodes[0].title).not.toBe('Старое название');
+    // Кадры серий есть только у TMDB, который находит сериал по IMDb id
+    expect(episodes.every(episode => episode.still_url)).toBe(true);
+    expect(tables.parserHistoryItem.filter(item => item.outcome === 'updated')).toEqual([
+      expect.objectContaining({ sourceId: '404900', mediaId: 100 })
+    ]);
+  });
+
+  it('пропускает тайтлы, которые уже есть в каталоге', async () => {
+    await createParser().start(1);
+    await createParser().start(1);
+
+    expect(tables.media).toHaveLength(2);
+    expect(tables.parserHistoryItem.map(item => item.outcome)).toEqual(['created', 'created', 'skipped', 'skipped']);
+    expect(tables.parserHistory[0]).toMatchObject({ createdCount: 2, skippedCount: 2 });
+  });
+});
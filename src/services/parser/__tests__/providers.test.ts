@@ -0,0 +1,153 @@
+import path from 'path';
+import { MediaApi } from '../mediaApi';
+import { DiscoveryOptions, DiscoveryStrategy, MediaReference, MediaSearchResult, MetadataProvider } from '../types';
+import { KinopoiskProvider } from '../providers/kinopoisk';
+import { OmdbProvider } from '../providers/omdb';
+import { TmdbProvider } from '../providers/tmdb';
+
+// Воспроизведение фикстур не учитывает квоту, поэтому база данных источникам не нужна
+jest.mock('@/config/database', () => ({ prisma: {} }));
+
+// Источники читают настройки фикстур при создании
+process.env.PARSER_FIXTURES_DIR = path.join(__dirname, '..', '__fixtures__');
+process.env.PARSER_FIXTURES_MODE = 'strict';
+
+const INCEPTION: Record<string, MediaReference> = {
+  kinopoisk: { provider: 'kinopoisk', sourceId: '447301', imdbId: null },
+  imdb: { provider: 'kinopoisk', sourceId: '447301', imdbId: 'tt1375666' }
+};
+
+const BREAKING_BAD: Record<string, MediaReference> = {
+  kinopoisk: { provider: 'kinopoisk', sourceId: '404900', imdbId: null },
+  imdb: { provider: 'kinopoisk', sourceId: '404900', imdbId: 'tt0903747' }
+};
+
+const collect = async (provider: MetadataProvider, strategy: DiscoveryStrategy, options: DiscoveryOptions) => {
+  const pages: MediaSearchResult[][] = [];
+  for await (const page of provider.discover(strategy, options)) {
+    pages.push(page);
+  }
+  return pages;
+};
+
+const options = (contentTypes: DiscoveryOptions['contentTypes'], genres: string[] = []): DiscoveryOptions => ({
+  contentTypes,
+  filters: { yearFrom: 2010, yearTo: 2010, genres, countries: [] }
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('KinopoiskProvider', () => {
+  const provider = new KinopoiskProvider('test');
+
+  it('ищет тайтлы по названию', async () => {
+    expect(await provider.search('Inception')).toEqual([
+      { sourceId: '447301', title: 'Начало', year: 2010, type: 'MOVIE', imdbId: null }
+    ]);
+  });
+
+  it('отдает детали, сезоны, людей и трейлеры своих тайтлов', async () => {
+    expect(await provider.getDetails(INCEPTION.kinopoisk)).toMatchObject({
+      sourceId: '447301',
+      imdbId: 'tt1375666',
+      title: 'Начало',
+      originalTitle: 'Inception',
+      type: 'MOVIE',
+      duration: 148,
+      genres: ['фантастика', 'боевик', 'триллер', 'драма', 'детектив']
+    });
+
+    const episodes = await provider.getEpisodes(BREAKING_BAD.kinopoisk);
+    expect(episodes).toHaveLength(7);
+    expect(episodes[0]).toMatchObject({ seasonNumber: 1, episodeNumber: 1 });
+
+    const staff = await provider.getStaff(INCEPTION.kinopoisk);
+    expect(staff.filter(person => person.role === 'director').map(person => person.originalName)).toEqual(['Christopher Nolan']);
+    expect(staff.find(person => person.originalName === 'Leonardo DiCaprio')).toMatchObject({ role: 'actor', character: 'Cobb' });
+
+    expect((await provider.getVideos(INCEPTION.kinopoisk)).length).toBeGreaterThan(0);
+  });
+
+  it('не отвечает на ссылки на тайтлы других источников', async () => {
+    expect(await provider.getDetails({ provider: 'tmdb', sourceId: 'movie/27205', imdbId: 'tt1375666' })).toBeNull();
+  });
+
+  it('находит популярные фильмы и сериалы', async () => {
+    const pages = await collect(provider, 'popular', options(['MOVIE', 'SERIES']));
+
+    expect(pages.map(page => page.map(item => [item.sourceId, item.type]))).toEqual([
+      [['447301', 'MOVIE']],
+      [['404900', 'SERIES']]
+    ]);
+  });
+
+  it('находит премьеры текущего и следующего месяца', async () => {
+    jest.useFakeTimers({ now: new Date(2010, 6, 1), doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'queueMicrotask'] });
+
+    const pages = await collect(provider, 'premieres', options(['MOVIE']));
+
+    expect(pages.map(page => page.map(item => item.title))).toEqual([['Начало'], []]);
+    expect(await collect(provider, 'premieres', options(['SERIES']))).toEqual([]);
+  });
+
+  it('делает выборку по году и жанру', async () => {
+    const pages = await collect(provider, 'filters', options(['MOVIE'], ['Фантастика']));
+
+    expect(pages.map(page => page.map(item => item.sourceId))).toEqual([['447301']]);
+    await expect(collect(provider, 'filters', options(['MOVIE'], ['вестерн']))).rejects.toThrow('Кинопоиск не знает жанров');
+  });
+});
+
+describe('OmdbProvider', () => {
+  const provider = new OmdbProvider('test');
+
+  it('ищет тайтлы по названию', async () => {
+    const results = await provider.search('Inception');
+
+    expect(results[0]).toMatchObject({ title: 'Inception', year: 2010, type: 'MOVIE', imdbId: 'tt1375666' });
+  });
+
+  it('дополняет тайтлы других источников по IMDb id', async () => {
+    expect(await provider.getDetails(INCEPTION.imdb)).toMatchObject({ imdbId: 'tt1375666', originalTitle: 'Inception', type: 'MOVIE' });
+    expect((await provider.getStaff(BREAKING_BAD.imdb)).length).toBeGreaterThan(0);
+    expect(await provider.getDetails(INCEPTION.kinopoisk)).toBeNull();
+  });
+
+  it('не ищет новый контент', async () => {
+    expect(await collect(provider, 'popular', options(['MOVIE']))).toEqual([]);
+  });
+});
+
+describe('TmdbProvider', () => {
+  it('ищет тайтлы по названию', async () => {
+    expect(await new TmdbProvider('test').search('Inception')).toEqual([
+      { sourceId: 'movie/27205', title: 'Inception', year: 2010, type: 'MOVIE', imdbId: null }
+    ]);
+  });
+
+  it('дополняет тайтлы других источников по IMDb id', async () => {
+    const provider = new TmdbProvider('test');
+
+    expect(await provider.getDetails(INCEPTION.imdb)).toMatchObject({ sourceId: 'movie/27205', title: 'Inception', type: 'MOVIE' });
+    expect(await provider.getStaff(INCEPTION.imdb)).toContainEqual(
+      expect.objectContaining({ originalName: 'Leonardo DiCaprio', role: 'actor', character: 'Dom Cobb' })
+    );
+    expect((await provider.getVideos(INCEPTION.imdb)).length).toBeGreaterThan(0);
+    expect(await provider.getEpisodes(INCEPTION.imdb)).toEqual([]);
+  });
+
+  it('запрашивает детали сериала один раз для описания и эпизодов', async () => {
+    const provider = new TmdbProvider('test');
+    const getTmdbDetails = jest.spyOn(MediaApi.prototype, 'getTmdbDetails');
+
+    expect(await provider.getDetails(BREAKING_BAD.imdb)).toMatchObject({ sourceId: 'tv/1396', type: 'SERIES' });
+    const episodes = await provider.getEpisodes(BREAKING_BAD.imdb);
+
+    expect(episodes).toHaveLength(7);
+    expect(episodes.every(episode => episode.stillUrl)).toBe(true);
+    expect(getTmdbDetails).toHaveBeenCalledTimes(1);
+  });
+});
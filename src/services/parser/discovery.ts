@@ -0,0 +1,48 @@
+import { ParserSettings } from '@prisma/client';
+import { DiscoveryOptions, DiscoveryStrategy, MediaKind } from './types';
+
+export interface DiscoveryStrategyInfo {
+  id: DiscoveryStrategy;
+  name: string;
+}
+
+// Порядок задает очередность: тайтл, найденный несколькими способами, обрабатывается один раз
+export const DISCOVERY_STRATEGIES: DiscoveryStrategyInfo[] = [
+  { id: 'popular', name: 'Популярные' },
+  { id: 'top', name: 'Лучшие (топ-250)' },
+  { id: 'premieres', name: 'Премьеры текущего и следующего месяца' },
+  { id: 'filters', name: 'Выборка по году, жанру и стране' }
+];
+
+export const CONTENT_TYPES: MediaKind[] = ['MOVIE', 'SERIES'];
+
+export interface DiscoverySettings {
+  strategies: DiscoveryStrategy[];
+  options: DiscoveryOptions;
+}
+
+export const isDiscoveryStrategy = (value: unknown): value is DiscoveryStrategy =>
+  DISCOVERY_STRATEGIES.some(strategy => strategy.id === value);
+
+export const isMediaKind = (value: unknown): value is MediaKind =>
+  CONTENT_TYPES.includes(value as MediaKind);
+
+// Без заданных лет выборка идет по текущему и прошлому году, а без начального — по году до конечного
+export const getDiscoverySettings = (settings: ParserSettings): DiscoverySettings => {
+  const yearTo = settings.discoveryYearTo ?? new Date().getFullYear();
+
+  return {
+    strategies: DISCOVERY_STRATEGIES
+      .map(({ id }) => id)
+      .filter(id => settings.discoveryStrategies.includes(id)),
+    options: {
+      contentTypes: CONTENT_TYPES.filter(type => settings.contentTypes.includes(type)),
+      filters: {
+        yearFrom: settings.discoveryYearFrom ?? yearTo - 1,
+        yearTo,
+        genres: settings.discoveryGenres,
+        countries: settings.discoveryCountries
+      }
+    }
+  };
+};
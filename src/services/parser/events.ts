@@ -0,0 +1,31 @@
+import { EventEmitter } from 'events';
+
+// Уведомления об изменении состояния парсера в текущем процессе. Подписчики (потоки SSE)
+// перечитывают состояние из БД сразу, не дожидаясь очередной проверки по таймеру.
+// Запуск на другом экземпляре приложения уведомлений не шлет: его изменения
+// видны только при такой проверке
+
+const CHANGE_EVENT = 'change';
+
+declare global {
+  var parserEvents: EventEmitter | undefined;
+}
+
+const emitter = global.parserEvents || new EventEmitter();
+// Каждая открытая вкладка админ-панели — отдельный подписчик
+emitter.setMaxListeners(0);
+
+if (process.env.NODE_ENV !== 'production') {
+  global.parserEvents = emitter;
+}
+
+export const notifyParserChange = (): void => {
+  emitter.emit(CHANGE_EVENT);
+};
+
+export const subscribeParserChanges = (listener: () => void): (() => void) => {
+  emitter.on(CHANGE_EVENT, listener);
+  return () => {
+    emitter.off(CHANGE_EVENT, listener);
+  };
+};
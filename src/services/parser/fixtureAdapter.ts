@@ -0,0 +1,84 @@
+import fs from 'fs';
+import path from 'path';
+import axios, { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+// Сохраненные ответы внешних API вместо сетевых запросов. Каталог фикстур — свой у каждого
+// источника, путь ответа строится относительно базового URL API, поэтому не зависит от адреса:
+// <каталог>/<путь>__<параметры>.json, например kinopoisk/v1/staff__filmId=404900.json.
+// Если файла с параметрами нет, берется <каталог>/<путь>.json — ответ для любых параметров
+
+// replay — только отдавать сохраненные ответы, strict — то же, но без ответа для любых параметров:
+// запрос без своей фикстуры завершается ошибкой, а не получает чужие данные (например, ту же
+// страницу выдачи вместо следующей). record — выполнять запросы и сохранять ответы
+export type FixtureMode = 'replay' | 'strict' | 'record';
+
+// Ключи API не попадают ни в имена файлов, ни в сами фикстуры
+const SECRET_PARAMS = ['apikey', 'api_key'];
+
+const getFixturePaths = (dir: string, config: InternalAxiosRequestConfig): { exact: string; fallback: string } => {
+  const url = new URL(axios.getUri(config));
+  const basePath = config.baseURL ? new URL(config.baseURL).pathname.replace(/\/+$/, '') : '';
+  const relativePath = url.pathname.startsWith(basePath) ? url.pathname.slice(basePath.length) : url.pathname;
+  // Корень API (как у OMDb) сохраняется в index.json
+  const name = relativePath.replace(/^\/+|\/+$/g, '') || 'index';
+
+  const query = Array.from(url.searchParams.entries())
+    .filter(([key]) => !SECRET_PARAMS.includes(key))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join('&');
+
+  return {
+    exact: path.join(dir, query ? `${name}__${query}.json` : `${name}.json`),
+    fallback: path.join(dir, `${name}.json`)
+  };
+};
+
+const readFixture = async (file: string): Promise<unknown | null> => {
+  try {
+    return JSON.parse(await fs.promises.readFile(file, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+};
+
+const notFound = (config: InternalAxiosRequestConfig, file: string): AxiosError => {
+  const response: AxiosResponse = {
+    data: { message: 'Фикстура не найдена' },
+    status: 404,
+    statusText: 'Not Found',
+    headers: {},
+    config
+  };
+  return new AxiosError(`Нет фикстуры ${file}`, AxiosError.ERR_BAD_REQUEST, config, null, response);
+};
+
+export const createFixtureAdapter = (dir: string, mode: FixtureMode = 'replay'): AxiosAdapter => async config => {
+  const { exact, fallback } = getFixturePaths(dir, config);
+
+  if (mode === 'record') {
+    // Ответы с ошибкой не сохраняются: адаптер axios отклоняет их до записи
+    const response = await axios.getAdapter(axios.defaults.adapter)(config);
+    // Адаптер отдает тело текстом, JSON разбирается позже, в transformResponse
+    const data = typeof response.data === 'string' ? JSON.parse(response.data) : response.data;
+    await fs.promises.mkdir(path.dirname(exact), { recursive: true });
+    await fs.promises.writeFile(exact, `${JSON.stringify(data, null, 2)}\n`);
+    return response;
+  }
+
+  const data = (await readFixture(exact)) ?? (mode === 'strict' ? null : await readFixture(fallback));
+  if (data === null) {
+    throw notFound(config, exact);
+  }
+
+  return {
+    data,
+    status: 200,
+    statusText: 'OK',
+    headers: { 'content-type': 'application/json' },
+    config
+  };
+};
@@ -0,0 +1,37 @@
+// Реестр запусков парсера в текущем процессе: по идентификатору запуска (ParserHistory.id)
+// можно найти его AbortController и кооперативно остановить работу
+
+interface ParserJob {
+  controller: AbortController;
+  startedAt: Date;
+}
+
+declare global {
+  var parserJobs: Map<number, ParserJob> | undefined;
+}
+
+// Реестр переживает перезагрузку модулей в режиме разработки, как и клиент Prisma
+const jobs = global.parserJobs || new Map<number, ParserJob>();
+
+if (process.env.NODE_ENV !== 'production') {
+  global.parserJobs = jobs;
+}
+
+export const registerParserJob = (runId: number, controller: AbortController): void => {
+  jobs.set(runId, { controller, startedAt: new Date() });
+};
+
+export const unregisterParserJob = (runId: number): void => {
+  jobs.delete(runId);
+};
+
+export const getParserJobIds = (): number[] => Array.from(jobs.keys());
+
+// Возвращает false, если запуск выполняется не в этом процессе или уже завершен
+export const cancelParserJob = (runId: number): boolean => {
+  const job = jobs.get(runId);
+  if (!job) return false;
+
+  job.controller.abort();
+  return true;
+};
@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+import os from 'os';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+
+// Право на запуск парсера — строка ParserLease с id = 1. Ее захват атомарен в Postgres,
+// поэтому одновременно работает только один запуск на всех экземплярах приложения
+
+const LEASE_ID = 1;
+export const PARSER_HEARTBEAT_INTERVAL = 30 * 1000;
+// Аренда без heartbeat дольше этого срока считается брошенной упавшим процессом
+const LEASE_TTL = 2 * 60 * 1000;
+
+// Причина прерывания запуска, потерявшего аренду (AbortSignal.reason). Такой запуск завершается
+// со статусом failed, а не cancelled: его никто не останавливал, и место мог занять другой запуск
+export const PARSER_LEASE_LOST = 'parser-lease-lost';
+
+export const isParserLeaseLost = (signal: AbortSignal): boolean => signal.reason === PARSER_LEASE_LOST;
+
+export interface ParserLeaseState {
+  held: boolean;
+  cancelRequested: boolean;
+}
+
+// Уникален для каждого запуска; имя хоста и pid помогают понять, где работает парсер
+export const createLeaseOwner = (): string => `${os.hostname()}:${process.pid}:${crypto.randomUUID()}`;
+
+export const acquireParserLease = async (owner: string): Promise<boolean> => {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + LEASE_TTL);
+
+  try {
+    await prisma.parserLease.create({
+      data: { id: LEASE_ID, owner, acquiredAt: now, heartbeatAt: now, expiresAt }
+    });
+    return true;
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+      throw error;
+    }
+  }
+
+  // Строка уже есть: забираем ее, только если прежний владелец перестал продлевать аренду
+  const { count } = await prisma.parserLease.updateMany({
+    where: { id: LEASE_ID, expiresAt: { lt: now } },
+    data: { owner, runId: null, acquiredAt: now, heartbeatAt: now, expiresAt, cancelRequestedAt: null }
+  });
+
+  return count > 0;
+};
+
+export const attachRunToLease = async (owner: string, runId: number): Promise<void> => {
+  await prisma.parserLease.updateMany({
+    where: { id: LEASE_ID, owner },
+    data: { runId }
+  });
+};
+
+// Heartbeat: продлевает аренду и сообщает, не потеряна ли она и не запрошена ли отмена
+export const renewParserLease = async (owner: string): Promise<ParserLeaseState> => {
+  const now = new Date();
+  const { count } = await prisma.parserLease.updateMany({
+    where: { id: LEASE_ID, owner },
+    data: { heartbeatAt: now, expiresAt: new Date(now.getTime() + LEASE_TTL) }
+  });
+
+  if (count === 0) {
+    return { held: false, cancelRequested: false };
+  }
+
+  const lease = await prisma.parserLease.findUnique({
+    where: { id: LEASE_ID },
+    select: { cancelRequestedAt: true }
+  });
+
+  return { held: true, cancelRequested: Boolean(lease?.cancelRequestedAt) };
+};
+
+export const releaseParserLease = async (owner: string): Promise<void> => {
+  await prisma.parserLease.deleteMany({ where: { id: LEASE_ID, owner } });
+};
+
+// Отмена запуска на другом экземпляре: владелец увидит запрос при следующем heartbeat.
+// Возвращает false, если живой аренды нет
+export const requestParserLeaseCancel = async (): Promise<boolean> => {
+  const now = new Date();
+  const { count } = await prisma.parserLease.updateMany({
+    where: { id: LEASE_ID, expiresAt: { gt: now } },
+    data: { cancelRequestedAt: now }
+  });
+
+  return count > 0;
+};
+
+// Есть ли живая аренда у какого-либо запуска
+export const isParserLeaseHeld = async (): Promise<boolean> => {
+  const lease = await prisma.parserLease.findFirst({
+    where: { id: LEASE_ID, expiresAt: { gt: new Date() } },
+    select: { id: true }
+  });
+
+  return Boolean(lease);
+};
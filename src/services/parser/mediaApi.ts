@@ -1,4 +1,7 @@
-import axios from 'axios';
+import path from 'path';
+import axios, { AxiosAdapter, AxiosInstance } from 'axios';
+import { createFixtureAdapter, FixtureMode } from './fixtureAdapter';
+import { createProviderHttp } from './rateLimiter';
 
 export interface KinopoiskMovie {
   kinopoiskId: number;
@@ -33,7 +36,7 @@ export interface KinopoiskMovie {
   };
 }
 
-interface OmdbMovie {
+export interface OmdbMovie {
   Title: string;
   Year: string;
   Rated: string | 'N/A';
@@ -57,18 +60,186 @@ interface OmdbMovie {
   Response: 'True' | 'False';
 }
 
+export interface KinopoiskStaff {
+  staffId: number;
+  nameRu: string | null;
+  nameEn: string | null;
+  description: string | null;
+  posterUrl: string | null;
+  professionText: string | null;
+  professionKey: string;
+}
+
+export interface KinopoiskVideo {
+  url: string;
+  name: string | null;
+  site: string;
+}
+
+// Элемент списков Кинопоиска: коллекций, премьер и выборки по фильтрам. У премьер нет типа и IMDb id
+export interface KinopoiskFilmListItem {
+  kinopoiskId: number;
+  imdbId?: string | null;
+  nameRu: string | null;
+  nameEn: string | null;
+  nameOriginal?: string | null;
+  year: number | null;
+  type?: string;
+}
+
+// Премьеры приходят одной страницей, поэтому totalPages есть только у коллекций и фильтров
+export interface KinopoiskFilmList {
+  total: number;
+  totalPages?: number;
+  items: KinopoiskFilmListItem[];
+}
+
+export type KinopoiskCollectionType = 'TOP_250_MOVIES' | 'TOP_250_TV_SHOWS' | 'TOP_POPULAR_MOVIES' | 'POPULAR_SERIES';
+
+// Фильтр поиска принимает id жанров и стран, их соответствие названиям отдает /v2.2/films/filters
+export interface KinopoiskFilters {
+  genres: Array<{ id: number; genre: string }>;
+  countries: Array<{ id: number; country: string }>;
+}
+
+export interface KinopoiskFilmQuery {
+  type: 'FILM' | 'TV_SERIES' | 'MINI_SERIES';
+  yearFrom: number;
+  yearTo: number;
+  genre?: number;
+  country?: number;
+}
+
+export interface TmdbFindResult {
+  movie_results: Array<{ id: number }>;
+  tv_results: Array<{ id: number }>;
+}
+
+// Общие поля фильма и сериала TMDB: у фильма title/release_date/runtime, у сериала name/first_air_date
+export interface TmdbDetails {
+  id: number;
+  imdb_id?: string | null;
+  title?: string;
+  name?: string;
+  original_title?: string;
+  original_name?: string;
+  original_language: string;
+  overview: string | null;
+  poster_path: string | null;
+  backdrop_path: string | null;
+  release_date?: string;
+  first_air_date?: string;
+  vote_average: number | null;
+  runtime?: number | null;
+  episode_run_time?: number[];
+  seasons?: Array<{ season_number: number; episode_count: number }>;
+}
+
+export interface TmdbCredits {
+  cast: Array<{ name: string; original_name: string; character: string | null; profile_path: string | null }>;
+  crew: Array<{ name: string; original_name: string; job: string; profile_path: string | null }>;
+}
+
+export interface TmdbSeason {
+  season_number: number;
+  episodes: Array<{
+    episode_number: number;
+    season_number: number;
+    name: string | null;
+    overview: string | null;
+    air_date: string | null;
+    still_path: string | null;
+  }>;
+}
+
+export interface TmdbVideo {
+  key: string;
+  name: string | null;
+  site: string;
+  type: string;
+}
+
+export interface TmdbSearchResult {
+  id: number;
+  media_type: 'movie' | 'tv' | 'person';
+  title?: string;
+  name?: string;
+  release_date?: string;
+  first_air_date?: string;
+}
+
+export type TmdbMediaType = 'movie' | 'tv';
+
+export type MediaApiService = 'kinopoisk' | 'omdb' | 'tmdb';
+
+// Каждый источник метаданных создает клиент только со своим ключом
+export interface MediaApiOptions {
+  kinopoiskApiKey?: string;
+  omdbApiKey?: string;
+  tmdbApiKey?: string;
+  // Адреса API, например локального сервера-заглушки; по умолчанию из переменных окружения
+  baseUrls?: Partial<Record<MediaApiService, string>>;
+  adapter?: AxiosAdapter;
+  // Сигнал отмены запуска парсера: прерывает текущие и последующие запросы клиента
+  signal?: AbortSignal;
+}
+
+const DEFAULT_BASE_URLS: Record<MediaApiService, string> = {
+  kinopoisk: 'https://kinopoiskapiunofficial.tech/api',
+  omdb: 'http://www.omdbapi.com',
+  tmdb: 'https://api.themoviedb.org/3'
+};
+
+const BASE_URL_ENV: Record<MediaApiService, string> = {
+  kinopoisk: 'KINOPOISK_API_URL',
+  omdb: 'OMDB_API_URL',
+  tmdb: 'TMDB_API_URL'
+};
+
+const FIXTURE_MODES: FixtureMode[] = ['replay', 'strict', 'record'];
+
+// С PARSER_FIXTURES_DIR запросы к внешним API отдаются из сохраненных ответов без сети, с
+// PARSER_FIXTURES_MODE=strict — только из ответов для тех же параметров, а с
+// PARSER_FIXTURES_MODE=record выполняются и сохраняются в этот каталог
+const createHttp = (service: MediaApiService, { baseUrls, adapter, signal }: MediaApiOptions): AxiosInstance => {
+  const baseURL = baseUrls?.[service] || process.env[BASE_URL_ENV[service]] || DEFAULT_BASE_URLS[service];
+  const fixturesDir = process.env.PARSER_FIXTURES_DIR;
+
+  if (adapter || !fixturesDir) {
+    return createProviderHttp(service, { baseURL, adapter, signal });
+  }
+
+  const mode = FIXTURE_MODES.find(value => value === process.env.PARSER_FIXTURES_MODE) || 'replay';
+  const isRecording = mode === 'record';
+  const fixtureAdapter = createFixtureAdapter(path.join(fixturesDir, service), mode);
+
+  // Воспроизведение не обращается к API, поэтому скорость запросов и квота не учитываются
+  return isRecording
+    ? createProviderHttp(service, { baseURL, adapter: fixtureAdapter, signal })
+    : axios.create({ baseURL, adapter: fixtureAdapter, signal });
+};
+
 export class MediaApi {
   private kinopoiskApi: string;
   private omdbApi: string;
+  private tmdbApi: string;
+  // У каждого источника свой клиент: скорость запросов и квота считаются по источнику
+  private kinopoiskHttp: AxiosInstance;
+  private omdbHttp: AxiosInstance;
+  private tmdbHttp: AxiosInstance;
 
-  constructor(kinopoiskApiKey: string, omdbApiKey: string) {
-    this.kinopoiskApi = kinopoiskApiKey;
-    this.omdbApi = omdbApiKey;
+  constructor(options: MediaApiOptions) {
+    this.kinopoiskApi = options.kinopoiskApiKey || '';
+    this.omdbApi = options.omdbApiKey || '';
+    this.tmdbApi = options.tmdbApiKey || '';
+    this.kinopoiskHttp = createHttp('kinopoisk', options);
+    this.omdbHttp = createHttp('omdb', options);
+    this.tmdbHttp = createHttp('tmdb', options);
   }
 
   async searchKinopoisk(query: string): Promise<Partial<KinopoiskMovie>[]> {
     try {
-      const response = await axios.get('https://kinopoiskapiunofficial.tech/api/v2.1/films/search-by-keyword', {
+      const response = await this.kinopoiskHttp.get('/v2.1/films/search-by-keyword', {
         headers: {
           'X-API-KEY': this.kinopoiskApi,
           'Content-Type': 'application/json',
@@ -97,7 +268,7 @@ export class MediaApi {
 
   async getKinopoiskDetails(id: number): Promise<KinopoiskMovie> {
     try {
-      const response = await axios.get(`https://kinopoiskapiunofficial.tech/api/v2.2/films/${id}`, {
+      const response = await this.kinopoiskHttp.get(`/v2.2/films/${id}`, {
         headers: {
           'X-API-KEY': this.kinopoiskApi,
           'Content-Type': 'application/json',
@@ -113,7 +284,7 @@ export class MediaApi {
 
   async searchOmdb(query: string): Promise<OmdbMovie[]> {
     try {
-      const response = await axios.get('http://www.omdbapi.com/', {
+      const response = await this.omdbHttp.get('/', {
         params: {
           apikey: this.omdbApi,
           s: query,
@@ -134,7 +305,7 @@ export class MediaApi {
 
   async getOmdbDetails(imdbId: string): Promise<OmdbMovie> {
     try {
-      const response = await axios.get('http://www.omdbapi.com/', {
+      const response = await this.omdbHttp.get('/', {
         params: {
           apikey: this.omdbApi,
           i: imdbId,
@@ -155,8 +326,8 @@ export class MediaApi {
 
   async getSeriesEpisodes(kinopoiskId: number): Promise<Array<{ seasonNumber: number; number: number; episodes: Array<{ episodeNumber: number; nameRu: string | null; nameEn: string | null; synopsis: string | null; releaseDate: string | null }> }>> {
     try {
-      const response = await axios.get(
-        `https://kinopoiskapiunofficial.tech/api/v2.2/films/${kinopoiskId}/seasons`,
+      const response = await this.kinopoiskHttp.get(
+        `/v2.2/films/${kinopoiskId}/seasons`,
         {
           headers: {
             'X-API-KEY': this.kinopoiskApi,
@@ -171,4 +342,219 @@ export class MediaApi {
       throw new Error('Ошибка при получении информации о сериях');
     }
   }
+
+  async getKinopoiskStaff(kinopoiskId: number): Promise<KinopoiskStaff[]> {
+    try {
+      const response = await this.kinopoiskHttp.get('/v1/staff', {
+        headers: {
+          'X-API-KEY': this.kinopoiskApi,
+          'Content-Type': 'application/json',
+        },
+        params: {
+          filmId: kinopoiskId
+        }
+      });
+
+      return Array.isArray(response.data) ? response.data : [];
+    } catch (error) {
+      console.error('Kinopoisk staff error:', error);
+      throw new Error('Ошибка при получении съемочной группы из Кинопоиска');
+    }
+  }
+
+  async getKinopoiskVideos(kinopoiskId: number): Promise<KinopoiskVideo[]> {
+    try {
+      const response = await this.kinopoiskHttp.get(
+        `/v2.2/films/${kinopoiskId}/videos`,
+        {
+          headers: {
+            'X-API-KEY': this.kinopoiskApi,
+            'Content-Type': 'application/json',
+          }
+        }
+      );
+
+      return response.data.items || [];
+    } catch (error) {
+      console.error('Kinopoisk videos error:', error);
+      throw new Error('Ошибка при получении видео из Кинопоиска');
+    }
+  }
+
+  async getKinopoiskCollection(type: KinopoiskCollectionType, page: number): Promise<KinopoiskFilmList> {
+    try {
+      const response = await this.kinopoiskHttp.get('/v2.2/films/collections', {
+        headers: {
+          'X-API-KEY': this.kinopoiskApi,
+          'Content-Type': 'application/json',
+        },
+        params: {
+          type,
+          page
+        }
+      });
+
+      return response.data;
+    } catch (error) {
+      console.error('Kinopoisk collection error:', error);
+      throw new Error('Ошибка при получении подборки Кинопоиска');
+    }
+  }
+
+  // Месяц передается названием на английском: JANUARY, FEBRUARY и т.д.
+  async getKinopoiskPremieres(year: number, month: string): Promise<KinopoiskFilmList> {
+    try {
+      const response = await this.kinopoiskHttp.get('/v2.2/films/premieres', {
+        headers: {
+          'X-API-KEY': this.kinopoiskApi,
+          'Content-Type': 'application/json',
+        },
+        params: {
+          year,
+          month
+        }
+      });
+
+      return response.data;
+    } catch (error) {
+      console.error('Kinopoisk premieres error:', error);
+      throw new Error('Ошибка при получении премьер из Кинопоиска');
+    }
+  }
+
+  async getKinopoiskFilters(): Promise<KinopoiskFilters> {
+    try {
+      const response = await this.kinopoiskHttp.get('/v2.2/films/filters', {
+        headers: {
+          'X-API-KEY': this.kinopoiskApi,
+          'Content-Type': 'application/json',
+        }
+      });
+
+      return response.data;
+    } catch (error) {
+      console.error('Kinopoisk filters error:', error);
+      throw new Error('Ошибка при получении списка жанров и стран Кинопоиска');
+    }
+  }
+
+  async getKinopoiskFilms(query: KinopoiskFilmQuery, page: number): Promise<KinopoiskFilmList> {
+    try {
+      const response = await this.kinopoiskHttp.get('/v2.2/films', {
+        headers: {
+          'X-API-KEY': this.kinopoiskApi,
+          'Content-Type': 'application/json',
+        },
+        params: {
+          type: query.type,
+          yearFrom: query.yearFrom,
+          yearTo: query.yearTo,
+          genres: query.genre,
+          countries: query.country,
+          order: 'NUM_VOTE',
+          page
+        }
+      });
+
+      return response.data;
+    } catch (error) {
+      console.error('Kinopoisk films filter error:', error);
+      throw new Error('Ошибка при выборке фильмов Кинопоиска');
+    }
+  }
+
+  async findTmdbByImdbId(imdbId: string): Promise<TmdbFindResult> {
+    try {
+      const response = await this.tmdbHttp.get(`/find/${imdbId}`, {
+        params: {
+          api_key: this.tmdbApi,
+          external_source: 'imdb_id'
+        }
+      });
+
+      return response.data;
+    } catch (error) {
+      console.error('TMDB find error:', error);
+      throw new Error('Ошибка при поиске в TMDB по IMDb id');
+    }
+  }
+
+  async searchTmdb(query: string): Promise<TmdbSearchResult[]> {
+    try {
+      const response = await this.tmdbHttp.get(`/search/multi`, {
+        params: {
+          api_key: this.tmdbApi,
+          query,
+          language: 'en-US'
+        }
+      });
+
+      return response.data.results || [];
+    } catch (error) {
+      console.error('TMDB search error:', error);
+      throw new Error('Ошибка при поиске в TMDB');
+    }
+  }
+
+  async getTmdbDetails(type: TmdbMediaType, tmdbId: number): Promise<TmdbDetails> {
+    try {
+      const response = await this.tmdbHttp.get(`/${type}/${tmdbId}`, {
+        params: {
+          api_key: this.tmdbApi,
+          language: 'en-US'
+        }
+      });
+
+      return response.data;
+    } catch (error) {
+      console.error('TMDB details error:', error);
+      throw new Error('Ошибка при получении деталей из TMDB');
+    }
+  }
+
+  async getTmdbCredits(type: TmdbMediaType, tmdbId: number): Promise<TmdbCredits> {
+    try {
+      const response = await this.tmdbHttp.get(`/${type}/${tmdbId}/credits`, {
+        params: {
+          api_key: this.tmdbApi
+        }
+      });
+
+      return response.data;
+    } catch (error) {
+      console.error('TMDB credits error:', error);
+      throw new Error('Ошибка при получении съемочной группы из TMDB');
+    }
+  }
+
+  async getTmdbSeason(tvId: number, seasonNumber: number): Promise<TmdbSeason> {
+    try {
+      const response = await this.tmdbHttp.get(`/tv/${tvId}/season/${seasonNumber}`, {
+        params: {
+          api_key: this.tmdbApi,
+          language: 'en-US'
+        }
+      });
+
+      return response.data;
+    } catch (error) {
+      console.error('TMDB season error:', error);
+      throw new Error('Ошибка при получении сезона из TMDB');
+    }
+  }
+
+  async getTmdbVideos(type: TmdbMediaType, tmdbId: number): Promise<TmdbVideo[]> {
+    try {
+      const response = await this.tmdbHttp.get(`/${type}/${tmdbId}/videos`, {
+        params: {
+          api_key: this.tmdbApi
+        }
+      });
+
+      return response.data.results || [];
+    } catch (error) {
+      console.error('TMDB videos error:', error);
+      throw new Error('Ошибка при получении видео из TMDB');
+    }
+  }
 }
\ No newline at end of file
@@ -1,64 +1,165 @@
-import { MediaApi, KinopoiskMovie } from './mediaApi';
 import { prisma } from '@/config/database';
-import { Prisma, MediaType, MediaStatus, ParserStatusType } from '@prisma/client';
+import { Prisma, MediaType, MediaStatus, ParserItemOutcome, ParserStatusType } from '@prisma/client';
 import { VideoProcessor } from './videoProcessor';
+import { PARSER_HEARTBEAT_INTERVAL } from './lease';
+import { notifyParserChange } from './events';
+import { isProviderQuotaExhausted } from './rateLimiter';
+import { DiscoverySettings } from './discovery';
+import { EpisodeInfo, MediaDetails, MediaReference, MetadataProvider, StaffMember, VideoInfo } from './types';
+
+// Незаполненные поля основного источника дополняются данными следующего
+const mergeDetails = (base: MediaDetails, extra: MediaDetails): MediaDetails => ({
+  ...base,
+  imdbId: base.imdbId || extra.imdbId,
+  title: base.title || extra.title,
+  originalTitle: base.originalTitle || extra.originalTitle,
+  description: base.description || extra.description,
+  posterUrl: base.posterUrl || extra.posterUrl,
+  backdropUrl: base.backdropUrl || extra.backdropUrl,
+  releaseDate: base.releaseDate || extra.releaseDate,
+  rating: base.rating || extra.rating,
+  duration: base.duration || extra.duration,
+  genres: base.genres.length ? base.genres : extra.genres
+});
+
+const isComplete = (details: MediaDetails): boolean =>
+  Boolean(
+    details.imdbId && details.title && details.originalTitle && details.description && details.posterUrl &&
+    details.backdropUrl && details.releaseDate && details.rating && details.duration && details.genres.length
+  );
+
+// Люди сопоставляются по оригинальному имени: русские имена в источниках не совпадают.
+// Фото берется у любой роли человека, персонаж — только у той же роли
+const mergeStaff = (base: StaffMember[], extra: StaffMember[]): StaffMember[] => {
+  const people = new Map<string, StaffMember[]>();
+  for (const person of extra) {
+    const key = person.originalName?.toLowerCase();
+    if (key) people.set(key, [...(people.get(key) || []), person]);
+  }
 
-
-
-interface SeriesEpisode {
-  episodeNumber: number;
-  nameRu: string | null;
-  nameEn: string | null;
-  synopsis: string | null;
-  releaseDate: string | null;
+  return base.map(person => {
+    const matches = (person.originalName && people.get(person.originalName.toLowerCase())) || [];
+    return {
+      ...person,
+      photoUrl: person.photoUrl || matches.find(match => match.photoUrl)?.photoUrl || null,
+      character: person.character || matches.find(match => match.role === person.role)?.character || null
+    };
+  });
+};
+
+const episodeKey = (episode: EpisodeInfo) => `${episode.seasonNumber}:${episode.episodeNumber}`;
+
+// Счетчик запуска в ParserHistory для каждого итога обработки тайтла
+const OUTCOME_COUNTERS: Record<ParserItemOutcome, 'createdCount' | 'updatedCount' | 'skippedCount' | 'failedCount'> = {
+  created: 'createdCount',
+  updated: 'updatedCount',
+  skipped: 'skippedCount',
+  failed: 'failedCount'
+};
+
+export interface MediaParserOptions {
+  // Отмена запуска: парсер завершает текущий шаг и выходит, запросы источников прерываются
+  signal?: AbortSignal;
+  // Периодически подтверждает, что запуск жив (продлевает аренду ParserLease)
+  heartbeat?: () => Promise<void>;
 }
 
-interface SeriesSeason {
-  seasonNumber: number;
-  number: number;
-  episodes: SeriesEpisode[];
+interface ParsedItem {
+  sourceType: string;
+  sourceId: string;
+  title?: string | null;
+  mediaId?: number;
+  message?: string;
 }
 
 export class MediaParser {
-  private mediaApi: MediaApi;
+  private providers: MetadataProvider[];
+  // Источник, в котором ищется новый контент
+  private source: MetadataProvider;
+  // Способы поиска нового контента и типы контента, которые парсер обрабатывает
+  private discovery: DiscoverySettings;
+  private signal: AbortSignal;
+  private heartbeat?: () => Promise<void>;
+  // Запись ParserHistory текущего запуска, в которую сохраняются итоги обработки тайтлов
+  private runId?: number;
   private isRunning: boolean = false;
+  // Источники, суточная квота которых исчерпана в этом запуске
+  private exhaustedProviders = new Set<string>();
 
   private videoProcessor: VideoProcessor;
 
-  constructor(kinopoiskApiKey: string, omdbApiKey: string) {
-    if (!kinopoiskApiKey || !omdbApiKey) {
-      throw new Error('Необходимо указать API ключи для Kinopoisk и OMDB');
+  constructor(providers: MetadataProvider[], discovery: DiscoverySettings, options: MediaParserOptions = {}) {
+    const source = providers.find(provider => provider.canDiscover);
+    if (!source) {
+      throw new Error('Не включен ни один источник метаданных с поиском нового контента');
     }
-    this.mediaApi = new MediaApi(kinopoiskApiKey, omdbApiKey);
-    this.videoProcessor = new VideoProcessor(kinopoiskApiKey);
+    this.providers = providers;
+    this.source = source;
+    this.discovery = discovery;
+    this.signal = options.signal || new AbortController().signal;
+    this.heartbeat = options.heartbeat;
+    this.videoProcessor = new VideoProcessor();
   }
 
-  async start() {
+  async start(runId?: number) {
     if (this.isRunning) {
       throw new Error('Парсер уже запущен');
     }
 
     this.isRunning = true;
+    this.runId = runId;
+    this.exhaustedProviders.clear();
     await this.updateParserStatus('active');
 
+    const heartbeatTimer = this.heartbeat ? setInterval(() => this.sendHeartbeat(), PARSER_HEARTBEAT_INTERVAL) : null;
+
     try {
       await this.processNewContent();
       await this.updateExistingContent();
     } catch (error) {
-      console.error('Parser error:', error);
-      await this.updateParserStatus('error', [(error as Error).message]);
-    await this.logError('Ошибка парсера', error);
-      this.isRunning = false;
-      throw error;
+      // Ошибки прерванных запросов после отмены не считаются сбоем парсера
+      if (!this.isCancelled()) {
+        console.error('Parser error:', error);
+        await this.updateParserStatus('error', [(error as Error).message]);
+        await this.logError('Ошибка парсера', error);
+        this.isRunning = false;
+        throw error;
+      }
+    } finally {
+      if (heartbeatTimer) clearInterval(heartbeatTimer);
+      await this.setCurrentItem(null);
     }
 
     this.isRunning = false;
+    // Итог прерванного запуска записывают stopParserRun или runner
     await this.updateParserStatus('inactive');
   }
 
-  async stop() {
-    this.isRunning = false;
-    await this.updateParserStatus('inactive');
+  private async sendHeartbeat(): Promise<void> {
+    try {
+      await this.heartbeat?.();
+    } catch (error) {
+      // Единичный сбой не страшен: аренда истекает только после нескольких пропущенных heartbeat
+      console.error('Parser heartbeat error:', error);
+    }
+  }
+
+  private isCancelled(): boolean {
+    return this.signal.aborted;
+  }
+
+  // Без квоты основного источника запросы будут отклоняться до конца суток, поэтому запуск завершается
+  private async stopOnExhaustedQuota(provider: MetadataProvider): Promise<boolean> {
+    if (this.exhaustedProviders.has(provider.id)) {
+      return true;
+    }
+    if (!(await isProviderQuotaExhausted(provider.id))) {
+      return false;
+    }
+
+    this.exhaustedProviders.add(provider.id);
+    await this.logError('Обработка остановлена', `Исчерпана суточная квота запросов к источнику ${provider.name}`);
+    return true;
   }
 
   private async processNewContent() {
@@ -68,167 +169,182 @@ export class MediaParser {
         throw new Error('Парсер не активен');
       }
 
-      const currentYear = new Date().getFullYear();
-      const lastYear = currentYear - 1;
-      
-      // Получаем фильмы за текущий и прошлый год
-      const [currentYearMovies, lastYearMovies] = await Promise.all([
-        this.mediaApi.searchKinopoisk(String(currentYear)),
-        this.mediaApi.searchKinopoisk(String(lastYear))
-      ]);
-
-      const movies = [...(currentYearMovies || []), ...(lastYearMovies || [])];
-      
-      if (!movies.length) {
-        console.log('No movies found for the specified years');
+      const { strategies, options } = this.discovery;
+      if (!strategies.length || !options.contentTypes.length) {
+        console.log('No discovery strategies or content types enabled');
         return;
       }
 
       let processedCount = 0;
-      const batchSize = 10;
-      const movieBatches = [];
-
-      // Группируем фильмы по батчам для оптимизации запросов
-      for (let i = 0; i < movies.length; i += batchSize) {
-        movieBatches.push(movies.slice(i, i + batchSize));
-      }
+      // Тайтл, найденный несколькими способами или на соседних страницах, обрабатывается один раз
+      const seenIds = new Set<string>();
 
-      for (const batch of movieBatches) {
-        if (!this.isRunning) break;
+      for (const strategy of strategies) {
+        if (this.isCancelled()) break;
+        if (await this.stopOnExhaustedQuota(this.source)) return;
 
         try {
-          // Проверяем существующие медиа в батче
-          const existingMedia = await prisma.media.findMany({
-            where: {
-              OR: batch.map(movie => ({
-                AND: [
-                  { source_id: String(movie.filmId) },
-                  { source_type: 'kinopoisk' }
-                ]
-              }))
-            }
-          });
-
-          const existingIds = new Set(existingMedia.map(media => media.source_id));
+          // Каждая страница источника обрабатывается сразу, не дожидаясь следующих
+          for await (const page of this.source.discover(strategy, options)) {
+            if (this.isCancelled()) break;
 
-          for (const movie of batch) {
-            if (!this.isRunning) break;
-            if (existingIds.has(String(movie.filmId))) continue;
+            const batch = page.filter(movie =>
+              !seenIds.has(movie.sourceId) && (!movie.type || options.contentTypes.includes(movie.type))
+            );
+            batch.forEach(movie => seenIds.add(movie.sourceId));
+            if (!batch.length) continue;
 
             try {
-              const details = await this.mediaApi.getKinopoiskDetails(Number(movie.filmId));
-              if (!details) {
-                console.log(`Не найдены детали для фильма ${movie.filmId}`);
-                continue;
-              }
+              // Проверяем существующие медиа в батче
+              const existingMedia = await prisma.media.findMany({
+                where: {
+                  source_type: this.source.id,
+                  source_id: { in: batch.map(movie => movie.sourceId) }
+                }
+              });
 
-              const mediaType = details.type === 'FILM' ? MediaType.MOVIE : MediaType.SERIES;
-              const releaseDate = details.year ? new Date(details.year, 0) : null;
+              const existingIds = new Set(existingMedia.map(media => media.source_id));
 
-              // Создаем запись о медиаконтенте
-              let posterUrl = details.posterUrl;
-              let backdropUrl = details.coverUrl;
+              for (const movie of batch) {
+                if (this.isCancelled()) break;
 
-              // Если постер отсутствует, пробуем найти через OMDB
-              if (!posterUrl && details.imdbId) {
-                try {
-                  const omdbDetails = await this.mediaApi.getOmdbDetails(details.imdbId);
-                  if (omdbDetails.Poster && omdbDetails.Poster !== 'N/A') {
-                    posterUrl = omdbDetails.Poster;
-                  }
-                } catch (omdbError) {
-                  console.error(`Ошибка получения постера из OMDB для ${details.imdbId}:`, omdbError);
+                const item: ParsedItem = { sourceType: this.source.id, sourceId: movie.sourceId, title: movie.title };
+                if (existingIds.has(movie.sourceId)) {
+                  await this.recordItem('skipped', { ...item, message: 'Уже есть в каталоге' });
+                  continue;
                 }
-              }
-
-              const mediaData: Prisma.MediaCreateInput = {
-                title: details.nameRu || details.nameOriginal || String(movie.filmId),
-                original_title: details.nameOriginal,
-                type: mediaType,
-                description: details.description || '',
-                poster_url: posterUrl || null,
-                backdrop_url: backdropUrl || null,
-                release_date: releaseDate,
-                rating: details.ratingKinopoisk || 0,
-                duration: details.filmLength || null,
-                status: MediaStatus.ACTIVE,
-                source_id: String(movie.filmId),
-                source_type: 'kinopoisk',
-                genres: details.genres?.length ? {
-                  connectOrCreate: details.genres.map(g => ({
-                    where: { name: g.genre },
-                    create: { name: g.genre }
-                  }))
-                } : undefined
-              };
-
-              const createdMedia = await prisma.media.create({
-                data: mediaData
-              });
 
-              // Обработка видео или трейлера
-              await this.videoProcessor.processMediaVideo(createdMedia.id, String(movie.filmId));
+                if (await this.stopOnExhaustedQuota(this.source)) return;
+                await this.setCurrentItem(movie.title);
 
-              // Если это сериал, получаем информацию о сериях
-              if (mediaType === 'SERIES') {
                 try {
-                  const episodes = await this.mediaApi.getSeriesEpisodes(Number(movie.filmId));
-                  if (episodes && Array.isArray(episodes)) {
-                    for (const season of episodes) {
-                      if (!season.episodes) continue;
-                      for (const episode of season.episodes) {
+                  const ref: MediaReference = { provider: this.source.id, sourceId: movie.sourceId, imdbId: movie.imdbId };
+                  const details = await this.fetchDetails(ref);
+                  if (!details) {
+                    console.log(`Не найдены детали для фильма ${movie.sourceId}`);
+                    await this.recordItem('skipped', { ...item, message: 'Источник не вернул данные о тайтле' });
+                    continue;
+                  }
+
+                  // Тип премьер и результатов без типа известен только из деталей
+                  if (!options.contentTypes.includes(details.type)) {
+                    await this.recordItem('skipped', { ...item, message: 'Тип контента отключен в настройках' });
+                    continue;
+                  }
+
+                  // Остальные источники находят тайтл по IMDb id из деталей
+                  ref.imdbId = details.imdbId;
+                  const mediaType = details.type === 'MOVIE' ? MediaType.MOVIE : MediaType.SERIES;
+                  const staff = await this.fetchStaff(ref);
+                  const director = staff.find(person => person.role === 'director');
+
+                  // Создаем запись о медиаконтенте
+                  const mediaData: Prisma.MediaCreateInput = {
+                    title: details.title || details.originalTitle || movie.sourceId,
+                    original_title: details.originalTitle,
+                    type: mediaType,
+                    description: details.description || '',
+                    poster_url: details.posterUrl,
+                    backdrop_url: details.backdropUrl,
+                    release_date: details.releaseDate,
+                    rating: details.rating || 0,
+                    duration: details.duration,
+                    status: MediaStatus.ACTIVE,
+                    source_id: movie.sourceId,
+                    source_type: this.source.id,
+                    imdb_id: details.imdbId,
+                    actors: staff.filter(person => person.role === 'actor').map(person => person.name),
+                    director: director?.name || null,
+                    writers: staff.filter(person => person.role === 'writer').map(person => person.name),
+                    crew: staff.length ? {
+                      director: director ? { name: director.name, photo_url: director.photoUrl } : null,
+                      producers: staff
+                        .filter(person => person.role === 'producer')
+                        .map(person => ({ name: person.name, photo_url: person.photoUrl })),
+                      cast: staff
+                        .filter(person => person.role === 'actor')
+                        .map(person => ({ name: person.name, character: person.character, photo_url: person.photoUrl }))
+                    } : undefined,
+                    genres: details.genres.length ? {
+                      connectOrCreate: details.genres.map(genre => ({
+                        where: { name: genre },
+                        create: { name: genre }
+                      }))
+                    } : undefined
+                  };
+
+                  const createdMedia = await prisma.media.create({
+                    data: mediaData
+                  });
+
+                  // Обработка видео или трейлера
+                  await this.videoProcessor.processMediaVideo(createdMedia.id, movie.sourceId, () => this.fetchVideos(ref));
+
+                  // Если это сериал, получаем информацию о сериях
+                  if (mediaType === 'SERIES') {
+                    try {
+                      const episodes = await this.fetchEpisodes(ref);
+                      for (const episode of episodes) {
                         try {
                           await prisma.episode.create({
                             data: {
-                              title: episode.nameRu || episode.nameEn || `Серия ${episode.episodeNumber}`,
+                              title: episode.title || `Серия ${episode.episodeNumber}`,
                               episode_number: episode.episodeNumber,
-                              season_number: season.number,
-                              air_date: episode.releaseDate ? new Date(episode.releaseDate) : null,
-                              description: episode.synopsis || null,
+                              season_number: episode.seasonNumber,
+                              air_date: episode.airDate,
+                              description: episode.description,
+                              still_url: episode.stillUrl,
                               media_id: createdMedia.id
                             }
                           });
                         } catch (episodeCreateError) {
-                          console.error(`Error creating episode for media ${movie.filmId}:`, episodeCreateError);
-                          await this.logError(`Ошибка создания эпизода для медиа ${movie.filmId}`, episodeCreateError);
+                          console.error(`Error creating episode for media ${movie.sourceId}:`, episodeCreateError);
+                          await this.logError(`Ошибка создания эпизода для медиа ${movie.sourceId}`, episodeCreateError);
                         }
                       }
+                    } catch (episodeError) {
+                      if (this.isCancelled()) throw episodeError;
+                      console.error(`Error processing episodes for media ${movie.sourceId}:`, episodeError);
+                      await this.updateParserStatus('error', [`Ошибка обработки эпизодов: ${(episodeError as Error).message}`]);
+                      await this.logError(`Ошибка обработки эпизодов для медиа ${movie.sourceId}`, episodeError);
                     }
                   }
-                } catch (episodeError) {
-                  console.error(`Error processing episodes for media ${movie.filmId}:`, episodeError);
-                  await this.updateParserStatus('error', [`Ошибка обработки эпизодов: ${(episodeError as Error).message}`]);
-                  await this.logError(`Ошибка обработки эпизодов для медиа ${movie.filmId}`, episodeError);
+
+                  await this.recordItem('created', { ...item, title: createdMedia.title, mediaId: createdMedia.id });
+                  processedCount++;
+                  await this.updateProcessedItems(processedCount);
+                  await this.updateParserStatus('active', []);
+                } catch (movieError) {
+                  if (this.isCancelled()) break;
+                  console.error(`Error processing movie ${movie.sourceId}:`, movieError);
+                  const errorMessage = movieError instanceof Error ? movieError.message : 'Неизвестная ошибка';
+                  await this.updateParserStatus('error', [`Ошибка обработки фильма: ${errorMessage}`]);
+                  await this.logError(`Ошибка обработки фильма ${movie.sourceId}`, movieError);
+                  await this.recordItem('failed', { ...item, message: errorMessage });
+                  continue;
                 }
               }
-
-              processedCount++;
-              await this.updateProcessedItems(processedCount);
-              await this.updateParserStatus('active', []);
-              
-              // Добавляем задержку между запросами для избежания блокировки API
-              const delay = processedCount % 10 === 0 ? 2000 : 1000;
-              await new Promise(resolve => setTimeout(resolve, delay));
-            } catch (movieError) {
-              console.error(`Error processing movie ${movie.filmId}:`, movieError);
-              const errorMessage = movieError instanceof Error ? movieError.message : 'Неизвестная ошибка';
-              await this.updateParserStatus('error', [`Ошибка обработки фильма: ${errorMessage}`]);
-              await this.logError(`Ошибка обработки фильма ${movie.filmId}`, movieError);
+            } catch (batchError) {
+              if (this.isCancelled()) break;
+              console.error('Error processing batch:', batchError);
+              await this.updateParserStatus('error', [`Ошибка обработки пакета: ${(batchError as Error).message}`]);
+              await this.logError('Ошибка обработки пакета', batchError);
               continue;
             }
           }
-        } catch (batchError) {
-          console.error('Error processing batch:', batchError);
-          await this.updateParserStatus('error', [`Ошибка обработки пакета: ${(batchError as Error).message}`]);
-          await this.logError('Ошибка обработки пакета', batchError);
-          continue;
+        } catch (strategyError) {
+          if (this.isCancelled()) break;
+          console.error(`Error discovering content with ${strategy} strategy:`, strategyError);
+          await this.updateParserStatus('error', [`Ошибка поиска нового контента: ${(strategyError as Error).message}`]);
+          await this.logError(`Ошибка поиска нового контента (${strategy})`, strategyError);
         }
       }
     } catch (error) {
-      console.error('Parser error:', error);
-      await this.updateParserStatus('error', [`Общая ошибка парсера: ${(error as Error).message}`]);
-      await this.logError('Общая ошибка парсера', error);
-      this.isRunning = false;
+      if (!this.isCancelled()) {
+        console.error('Parser error:', error);
+        await this.updateParserStatus('error', [`Общая ошибка парсера: ${(error as Error).message}`]);
+        await this.logError('Общая ошибка парсера', error);
+      }
       throw error;
     }
   }
@@ -240,11 +356,16 @@ export class MediaParser {
         throw new Error('Парсер не активен');
       }
 
+      // Обновляются только сериалы, поэтому шаг пропускается, если они отключены в настройках
+      if (!this.discovery.options.contentTypes.includes('SERIES')) {
+        return;
+      }
+
       const batchSize = 20;
       let processedCount = 0;
       let hasMore = true;
 
-      while (hasMore && this.isRunning) {
+      while (hasMore && !this.isCancelled()) {
         const existingMedia = await prisma.media.findMany({
           where: {
             type: MediaType.SERIES,
@@ -266,50 +387,79 @@ export class MediaParser {
         }
 
         for (const media of existingMedia) {
-          if (!this.isRunning) break;
+          if (this.isCancelled()) break;
+
+          const item: ParsedItem = {
+            sourceType: media.source_type || '',
+            sourceId: media.source_id || '',
+            title: media.title,
+            mediaId: media.id
+          };
+          const provider = this.providers.find(({ id }) => id === media.source_type);
+          if (provider && (await this.stopOnExhaustedQuota(provider))) return;
+          await this.setCurrentItem(media.title);
 
           try {
-            if (media.source_type === 'kinopoisk' && media.source_id) {
-              const episodes = await this.mediaApi.getSeriesEpisodes(parseInt(media.source_id));
-              if (!episodes || !Array.isArray(episodes)) continue;
-
-              for (const season of episodes) {
-                if (!season.episodes || !season.number) continue;
-                for (const episode of season.episodes) {
-                  try {
-                    await prisma.episode.upsert({
-                      where: {
-                        media_id_season_number_episode_number: {
-                          media_id: media.id,
-                          season_number: season.number,
-                          episode_number: episode.episodeNumber
-                        }
-                      },
-                      create: {
-                        title: episode.nameRu || episode.nameEn || `Серия ${episode.episodeNumber}`,
-                        episode_number: episode.episodeNumber,
-                        season_number: season.number,
-                        air_date: episode.releaseDate ? new Date(episode.releaseDate) : null,
-                        description: episode.synopsis || null,
-                        media_id: media.id
-                      },
-                      update: {
-                        title: episode.nameRu || episode.nameEn || `Серия ${episode.episodeNumber}`,
-                        air_date: episode.releaseDate ? new Date(episode.releaseDate) : null,
-                        description: episode.synopsis || null
+            // Сериалы обновляются из источника, в котором они были найдены, если он включен
+            if (media.source_id && provider) {
+              const ref: MediaReference = { provider: provider.id, sourceId: media.source_id, imdbId: media.imdb_id };
+
+              // Без IMDb id остальные источники не найдут сериал: для записей, добавленных до появления
+              // поля, его узнаем из деталей основного источника. Дата обновления сохраняется, чтобы
+              // сериал не выпал из текущей выборки и не сдвинул страницы
+              if (!ref.imdbId) {
+                ref.imdbId = (await provider.getDetails(ref))?.imdbId || null;
+                if (ref.imdbId) {
+                  await prisma.media.update({
+                    where: { id: media.id },
+                    data: { imdb_id: ref.imdbId, updated_at: media.updated_at }
+                  });
+                }
+              }
+
+              const episodes = await this.fetchEpisodes(ref);
+
+              for (const episode of episodes) {
+                try {
+                  await prisma.episode.upsert({
+                    where: {
+                      media_id_season_number_episode_number: {
+                        media_id: media.id,
+                        season_number: episode.seasonNumber,
+                        episode_number: episode.episodeNumber
                       }
-                    });
-                  } catch (episodeError) {
-                    console.error(`Error updating episode for media ${media.id}:`, episodeError);
-                    await this.logError(`Ошибка обновления эпизода для медиа ${media.id}`, episodeError);
-                  }
+                    },
+                    create: {
+                      title: episode.title || `Серия ${episode.episodeNumber}`,
+                      episode_number: episode.episodeNumber,
+                      season_number: episode.seasonNumber,
+                      air_date: episode.airDate,
+                      description: episode.description,
+                      still_url: episode.stillUrl,
+                      media_id: media.id
+                    },
+                    update: {
+                      title: episode.title || `Серия ${episode.episodeNumber}`,
+                      air_date: episode.airDate,
+                      description: episode.description,
+                      still_url: episode.stillUrl ?? undefined
+                    }
+                  });
+                } catch (episodeError) {
+                  console.error(`Error updating episode for media ${media.id}:`, episodeError);
+                  await this.logError(`Ошибка обновления эпизода для медиа ${media.id}`, episodeError);
                 }
               }
               await this.updateParserStatus('active', []);
+              await this.recordItem('updated', item);
+            } else {
+              await this.recordItem('skipped', { ...item, message: 'Источник сериала не включен' });
             }
           } catch (error) {
+            if (this.isCancelled()) break;
             console.error(`Error updating media ${media.id}:`, error);
             await this.updateParserStatus('error', [`Ошибка обновления сериала: ${(error as Error).message}`]);
+            await this.recordItem('failed', { ...item, message: (error as Error).message });
             continue;
           }
         }
@@ -318,33 +468,126 @@ export class MediaParser {
         await this.updateProcessedItems(processedCount);
       }
     } catch (error) {
-      console.error('Error updating existing content:', error);
-      await this.updateParserStatus('error', [`Ошибка обновления контента: ${(error as Error).message}`]);
+      if (!this.isCancelled()) {
+        console.error('Error updating existing content:', error);
+        await this.updateParserStatus('error', [`Ошибка обновления контента: ${(error as Error).message}`]);
+      }
       throw error;
     }
   }
 
-  private async updateParserStatus(status: ParserStatusType, errors: string[] = []): Promise<void> {
+  // Основной источник тайтла — тот, на который указывает ссылка, остальные включенные его дополняют
+  private splitProviders(ref: MediaReference): [MetadataProvider | undefined, MetadataProvider[]] {
+    return [
+      this.providers.find(provider => provider.id === ref.provider),
+      this.providers.filter(provider => provider.id !== ref.provider)
+    ];
+  }
+
+  // Ошибка дополнительного источника не мешает сохранить данные основного
+  private async fromExtraProvider<T>(provider: MetadataProvider, load: () => Promise<T>): Promise<T | null> {
     try {
-      const existingStatus = await prisma.parserStatus.findFirst();
-      if (existingStatus) {
-        await prisma.parserStatus.update({
-          where: { id: existingStatus.id },
-          data: {
-            status,
-            lastRun: new Date(),
-            errors
-          }
-        });
-      } else {
-        await prisma.parserStatus.create({
-          data: {
-            status,
-            errors,
-            processedItems: 0
-          }
-        });
+      return await load();
+    } catch (error) {
+      if (this.isCancelled()) throw error;
+      console.error(`Error loading metadata from ${provider.id}:`, error);
+      await this.logError(`Ошибка получения данных из источника ${provider.name}`, error);
+      return null;
+    }
+  }
+
+  private async fetchDetails(ref: MediaReference): Promise<MediaDetails | null> {
+    const [primary, extras] = this.splitProviders(ref);
+    let details = primary ? await primary.getDetails(ref) : null;
+    if (!details) return null;
+
+    for (const provider of extras) {
+      if (isComplete(details)) break;
+
+      const extra = await this.fromExtraProvider(provider, () =>
+        provider.getDetails({ ...ref, imdbId: details?.imdbId || ref.imdbId })
+      );
+      if (extra) {
+        details = mergeDetails(details, extra);
       }
+    }
+
+    return details;
+  }
+
+  private async fetchEpisodes(ref: MediaReference): Promise<EpisodeInfo[]> {
+    const [primary, extras] = this.splitProviders(ref);
+    const episodes = new Map<string, EpisodeInfo>();
+
+    for (const episode of primary ? await primary.getEpisodes(ref) : []) {
+      episodes.set(episodeKey(episode), episode);
+    }
+
+    for (const provider of extras) {
+      for (const episode of (await this.fromExtraProvider(provider, () => provider.getEpisodes(ref))) || []) {
+        const existing = episodes.get(episodeKey(episode));
+        episodes.set(episodeKey(episode), existing ? {
+          ...existing,
+          title: existing.title || episode.title,
+          description: existing.description || episode.description,
+          airDate: existing.airDate || episode.airDate,
+          stillUrl: existing.stillUrl || episode.stillUrl
+        } : episode);
+      }
+    }
+
+    return Array.from(episodes.values());
+  }
+
+  private async fetchStaff(ref: MediaReference): Promise<StaffMember[]> {
+    const [primary, extras] = this.splitProviders(ref);
+    let staff = primary ? await primary.getStaff(ref) : [];
+
+    // Каждый включенный источник дополняет фото и роли уже найденных людей
+    for (const provider of extras) {
+      const extra = (await this.fromExtraProvider(provider, () => provider.getStaff(ref))) || [];
+      staff = staff.length ? mergeStaff(staff, extra) : extra;
+    }
+
+    return staff;
+  }
+
+  private async fetchVideos(ref: MediaReference): Promise<VideoInfo[]> {
+    const videos = new Map<string, VideoInfo>();
+
+    for (const provider of this.providers) {
+      const load = () => provider.getVideos(ref);
+      const items = provider.id === ref.provider ? await load() : await this.fromExtraProvider(provider, load);
+      for (const video of items || []) {
+        if (!videos.has(video.url)) videos.set(video.url, video);
+      }
+    }
+
+    return Array.from(videos.values());
+  }
+
+  // Состояние парсера пишется, только пока запуск не прерван: отмену уже записал stopParserRun,
+  // а после потери аренды ParserStatus может принадлежать другому запуску. Условие на статус
+  // не дает затереть отмену с другого экземпляра, которую запуск увидит лишь при heartbeat
+  private async writeStatus(data: Prisma.ParserStatusUpdateManyMutationInput): Promise<void> {
+    if (this.isCancelled()) return;
+
+    const { count } = await prisma.parserStatus.updateMany({
+      where: { id: 1, status: { not: 'cancelled' } },
+      data
+    });
+    if (count > 0) {
+      notifyParserChange();
+    }
+  }
+
+  private async updateParserStatus(status: ParserStatusType, errors: string[] = []): Promise<void> {
+    try {
+      await this.writeStatus({
+        status,
+        lastRun: new Date(),
+        errors
+      });
     } catch (error) {
       console.error('Error updating parser status:', error);
       await this.logError('Ошибка обновления статуса парсера', error);
@@ -353,18 +596,50 @@ export class MediaParser {
 
   private async updateProcessedItems(count: number): Promise<void> {
     try {
-      await prisma.parserStatus.update({
-        where: { id: 1 },
-        data: {
-          processedItems: count
-        }
-      });
+      await this.writeStatus({ processedItems: count });
     } catch (error) {
       console.error('Error updating processed items:', error);
       await this.logError('Ошибка обновления счетчика обработанных элементов', error);
     }
   }
 
+  // Сохраняет итог обработки тайтла в запуске и увеличивает соответствующий счетчик
+  private async recordItem(outcome: ParserItemOutcome, item: ParsedItem): Promise<void> {
+    if (!this.runId) return;
+
+    try {
+      await prisma.$transaction([
+        prisma.parserHistoryItem.create({
+          data: {
+            runId: this.runId,
+            outcome,
+            sourceType: item.sourceType,
+            sourceId: item.sourceId,
+            title: item.title,
+            mediaId: item.mediaId,
+            message: item.message
+          }
+        }),
+        prisma.parserHistory.update({
+          where: { id: this.runId },
+          data: { [OUTCOME_COUNTERS[outcome]]: { increment: 1 } }
+        })
+      ]);
+      notifyParserChange();
+    } catch (error) {
+      console.error('Error recording parser item:', error);
+      await this.logError('Ошибка сохранения итога обработки тайтла', error);
+    }
+  }
+
+  private async setCurrentItem(title: string | null): Promise<void> {
+    try {
+      await this.writeStatus({ currentItem: title });
+    } catch (error) {
+      console.error('Error updating current parser item:', error);
+    }
+  }
+
   private async logError(message: string, error: unknown): Promise<void> {
     try {
       await prisma.parserLog.create({
@@ -374,6 +649,7 @@ export class MediaParser {
           timestamp: new Date()
         }
       });
+      notifyParserChange();
     } catch (logError) {
       console.error('Error logging to database:', logError);
     }
@@ -0,0 +1,56 @@
+import { ParserSettings } from '@prisma/client';
+import { MetadataProvider } from '../types';
+import { KinopoiskProvider } from './kinopoisk';
+import { OmdbProvider } from './omdb';
+import { TmdbProvider } from './tmdb';
+
+// Поле ParserSettings, в котором хранится API ключ источника
+export type ProviderApiKeyField = 'kinopoiskApiKey' | 'omdbApiKey' | 'tmdbApiKey';
+
+export interface MetadataProviderInfo {
+  id: string;
+  name: string;
+  apiKeyField: ProviderApiKeyField;
+}
+
+interface ProviderDefinition extends MetadataProviderInfo {
+  create: (apiKey: string, signal?: AbortSignal) => MetadataProvider;
+}
+
+// Реестр источников метаданных. Порядок задает приоритет: данные первого источника
+// дополняются следующими, а новый контент ищется первым включенным источником с поиском
+const PROVIDERS: ProviderDefinition[] = [
+  {
+    id: 'kinopoisk',
+    name: 'Кинопоиск',
+    apiKeyField: 'kinopoiskApiKey',
+    create: (apiKey, signal) => new KinopoiskProvider(apiKey, signal)
+  },
+  {
+    id: 'omdb',
+    name: 'OMDb',
+    apiKeyField: 'omdbApiKey',
+    create: (apiKey, signal) => new OmdbProvider(apiKey, signal)
+  },
+  {
+    id: 'tmdb',
+    name: 'TMDB',
+    apiKeyField: 'tmdbApiKey',
+    create: (apiKey, signal) => new TmdbProvider(apiKey, signal)
+  }
+];
+
+export const METADATA_PROVIDERS: MetadataProviderInfo[] = PROVIDERS.map(({ id, name, apiKeyField }) => ({
+  id,
+  name,
+  apiKeyField
+}));
+
+export const isMetadataProviderId = (value: unknown): value is string =>
+  PROVIDERS.some(provider => provider.id === value);
+
+// Включенные в настройках источники, для которых задан API ключ. Сигнал отменяет их запросы
+export const createMetadataProviders = (settings: ParserSettings, signal?: AbortSignal): MetadataProvider[] =>
+  PROVIDERS
+    .filter(provider => settings.enabledProviders.includes(provider.id) && settings[provider.apiKeyField])
+    .map(provider => provider.create(settings[provider.apiKeyField], signal));
@@ -0,0 +1,242 @@
+import { KinopoiskCollectionType, KinopoiskFilmList, KinopoiskFilmListItem, KinopoiskFilmQuery, MediaApi } from '../mediaApi';
+import {
+  DiscoveryFilters,
+  DiscoveryOptions,
+  DiscoveryStrategy,
+  EpisodeInfo,
+  MediaDetails,
+  MediaKind,
+  MediaReference,
+  MediaSearchResult,
+  MetadataProvider,
+  StaffMember,
+  StaffRole,
+  VideoInfo
+} from '../types';
+
+const STAFF_ROLES: Record<string, StaffRole> = {
+  DIRECTOR: 'director',
+  WRITER: 'writer',
+  PRODUCER: 'producer',
+  PRODUCER_USSR: 'producer',
+  ACTOR: 'actor'
+};
+
+// Фильмы приходят как FILM, все остальное (сериалы, мини-сериалы, шоу) считается сериалом
+const toMediaKind = (type: string): MediaKind => (type === 'FILM' ? 'MOVIE' : 'SERIES');
+
+const TOP_COLLECTIONS: Record<MediaKind, KinopoiskCollectionType> = {
+  MOVIE: 'TOP_250_MOVIES',
+  SERIES: 'TOP_250_TV_SHOWS'
+};
+
+const POPULAR_COLLECTIONS: Record<MediaKind, KinopoiskCollectionType> = {
+  MOVIE: 'TOP_POPULAR_MOVIES',
+  SERIES: 'POPULAR_SERIES'
+};
+
+const FILTER_TYPES: Record<MediaKind, Array<KinopoiskFilmQuery['type']>> = {
+  MOVIE: ['FILM'],
+  SERIES: ['TV_SERIES', 'MINI_SERIES']
+};
+
+const MONTHS = [
+  'JANUARY', 'FEBRUARY', 'MARCH', 'APRIL', 'MAY', 'JUNE',
+  'JULY', 'AUGUST', 'SEPTEMBER', 'OCTOBER', 'NOVEMBER', 'DECEMBER'
+];
+
+// Премьеры — фильмы в кинопрокате, поэтому тип берется из списка, только если он там есть
+const toSearchResult = (film: KinopoiskFilmListItem, fallbackType: MediaKind | null = null): MediaSearchResult => ({
+  sourceId: String(film.kinopoiskId),
+  title: film.nameRu || film.nameEn || film.nameOriginal || String(film.kinopoiskId),
+  year: film.year || null,
+  type: film.type ? toMediaKind(film.type) : fallbackType,
+  imdbId: film.imdbId || null
+});
+
+// Названия из настроек сопоставляются с id источника без учета регистра; неизвестные пропускаются
+const findIds = <T extends { id: number }>(names: string[], items: T[], getName: (item: T) => string): number[] =>
+  names
+    .map(name => items.find(item => getName(item).toLowerCase() === name.trim().toLowerCase())?.id)
+    .filter((id): id is number => id !== undefined);
+
+export class KinopoiskProvider implements MetadataProvider {
+  readonly id = 'kinopoisk';
+  readonly name = 'Кинопоиск';
+  readonly canDiscover = true;
+
+  private mediaApi: MediaApi;
+
+  constructor(apiKey: string, signal?: AbortSignal) {
+    this.mediaApi = new MediaApi({ kinopoiskApiKey: apiKey, signal });
+  }
+
+  // Поиска по IMDb id у Кинопоиска нет, поэтому источник отвечает только на ссылки на свои тайтлы
+  private getFilmId(ref: MediaReference): number | null {
+    return ref.provider === this.id ? Number(ref.sourceId) || null : null;
+  }
+
+  async search(query: string): Promise<MediaSearchResult[]> {
+    const films = await this.mediaApi.searchKinopoisk(query);
+
+    return films
+      .filter(film => film.filmId)
+      .map(film => ({
+        sourceId: String(film.filmId),
+        title: film.nameRu || film.nameEn || String(film.filmId),
+        year: Number(film.year) || null,
+        type: film.type ? toMediaKind(film.type) : null,
+        imdbId: null
+      }));
+  }
+
+  async *discover(strategy: DiscoveryStrategy, { contentTypes, filters }: DiscoveryOptions): AsyncGenerator<MediaSearchResult[]> {
+    switch (strategy) {
+      case 'top':
+      case 'popular': {
+        const collections = strategy === 'top' ? TOP_COLLECTIONS : POPULAR_COLLECTIONS;
+        for (const type of contentTypes) {
+          yield* this.paginate(page => this.mediaApi.getKinopoiskCollection(collections[type], page));
+        }
+        break;
+      }
+      case 'premieres':
+        if (contentTypes.includes('MOVIE')) {
+          yield* this.discoverPremieres();
+        }
+        break;
+      case 'filters':
+        yield* this.discoverByFilters(contentTypes, filters);
+        break;
+    }
+  }
+
+  // Страницы запрашиваются по одной, пока не кончатся: парсер может остановиться на любой из них
+  private async *paginate(load: (page: number) => Promise<KinopoiskFilmList>): AsyncGenerator<MediaSearchResult[]> {
+    for (let page = 1, totalPages = 1; page <= totalPages; page++) {
+      const list = await load(page);
+      totalPages = list.totalPages || 1;
+      yield (list.items || []).filter(film => film.kinopoiskId).map(film => toSearchResult(film));
+    }
+  }
+
+  // Премьеры текущего и следующего месяца
+  private async *discoverPremieres(): AsyncGenerator<MediaSearchResult[]> {
+    const now = new Date();
+
+    for (const offset of [0, 1]) {
+      const month = new Date(now.getFullYear(), now.getMonth() + offset);
+      const list = await this.mediaApi.getKinopoiskPremieres(month.getFullYear(), MONTHS[month.getMonth()]);
+      yield (list.items || []).filter(film => film.kinopoiskId).map(film => toSearchResult(film, 'MOVIE'));
+    }
+  }
+
+  // Фильтр Кинопоиска принимает один жанр и одну страну, поэтому выборка идет по каждому их сочетанию
+  private async *discoverByFilters(contentTypes: MediaKind[], filters: DiscoveryFilters): AsyncGenerator<MediaSearchResult[]> {
+    let genres: Array<number | undefined> = [undefined];
+    let countries: Array<number | undefined> = [undefined];
+
+    if (filters.genres.length || filters.countries.length) {
+      const available = await this.mediaApi.getKinopoiskFilters();
+      if (filters.genres.length) {
+        genres = findIds(filters.genres, available.genres, item => item.genre);
+        if (!genres.length) {
+          throw new Error(`Кинопоиск не знает жанров: ${filters.genres.join(', ')}`);
+        }
+      }
+      if (filters.countries.length) {
+        countries = findIds(filters.countries, available.countries, item => item.country);
+        if (!countries.length) {
+          throw new Error(`Кинопоиск не знает стран: ${filters.countries.join(', ')}`);
+        }
+      }
+    }
+
+    for (const kind of contentTypes) {
+      for (const type of FILTER_TYPES[kind]) {
+        for (const genre of genres) {
+          for (const country of countries) {
+            const query: KinopoiskFilmQuery = { type, yearFrom: filters.yearFrom, yearTo: filters.yearTo, genre, country };
+            yield* this.paginate(page => this.mediaApi.getKinopoiskFilms(query, page));
+          }
+        }
+      }
+    }
+  }
+
+  async getDetails(ref: MediaReference): Promise<MediaDetails | null> {
+    const filmId = this.getFilmId(ref);
+    if (!filmId) return null;
+
+    const details = await this.mediaApi.getKinopoiskDetails(filmId);
+    if (!details) return null;
+
+    return {
+      sourceId: String(filmId),
+      imdbId: details.imdbId || null,
+      title: details.nameRu || details.nameOriginal || null,
+      originalTitle: details.nameOriginal || null,
+      type: toMediaKind(details.type),
+      description: details.description || null,
+      posterUrl: details.posterUrl || null,
+      backdropUrl: details.coverUrl || null,
+      releaseDate: details.year ? new Date(details.year, 0) : null,
+      rating: details.ratingKinopoisk || null,
+      duration: details.filmLength || null,
+      genres: details.genres?.map(g => g.genre) || []
+    };
+  }
+
+  async getEpisodes(ref: MediaReference): Promise<EpisodeInfo[]> {
+    const filmId = this.getFilmId(ref);
+    if (!filmId) return [];
+
+    const seasons = await this.mediaApi.getSeriesEpisodes(filmId);
+
+    return seasons
+      .filter(season => season.number && Array.isArray(season.episodes))
+      .flatMap(season => season.episodes.map(episode => ({
+        seasonNumber: season.number,
+        episodeNumber: episode.episodeNumber,
+        title: episode.nameRu || episode.nameEn || null,
+        description: episode.synopsis || null,
+        airDate: episode.releaseDate ? new Date(episode.releaseDate) : null,
+        stillUrl: null
+      })));
+  }
+
+  async getStaff(ref: MediaReference): Promise<StaffMember[]> {
+    const filmId = this.getFilmId(ref);
+    if (!filmId) return [];
+
+    const staff = await this.mediaApi.getKinopoiskStaff(filmId);
+
+    return staff
+      .filter(person => person.nameRu || person.nameEn)
+      .map(person => {
+        const role = STAFF_ROLES[person.professionKey] || 'other';
+        return {
+          name: (person.nameRu || person.nameEn) as string,
+          originalName: person.nameEn || null,
+          role,
+          character: role === 'actor' ? person.description || null : null,
+          photoUrl: person.posterUrl || null
+        };
+      });
+  }
+
+  async getVideos(ref: MediaReference): Promise<VideoInfo[]> {
+    const filmId = this.getFilmId(ref);
+    if (!filmId) return [];
+
+    const videos = await this.mediaApi.getKinopoiskVideos(filmId);
+
+    // Кинопоиск отдает только трейлеры и тизеры и не размечает их тип — различаем по названию
+    return videos.map(video => ({
+      url: video.url,
+      name: video.name || null,
+      site: video.site.toLowerCase(),
+      type: /тизер|teaser/i.test(video.name || '') ? 'teaser' : 'trailer'
+    }));
+  }
+}
@@ -0,0 +1,105 @@
+import { MediaApi, OmdbMovie } from '../mediaApi';
+import {
+  EpisodeInfo,
+  MediaDetails,
+  MediaReference,
+  MediaSearchResult,
+  MetadataProvider,
+  StaffMember,
+  StaffRole,
+  VideoInfo
+} from '../types';
+
+// OMDb отмечает отсутствующие значения строкой 'N/A'
+const readValue = (value: string | undefined): string | null =>
+  value && value !== 'N/A' ? value : null;
+
+const readList = (value: string | undefined): string[] =>
+  (readValue(value) || '')
+    .split(',')
+    // «Jane Doe (screenplay)» — уточнение роли в скобках не является частью имени
+    .map(item => item.replace(/\(.*?\)/g, '').trim())
+    .filter(Boolean);
+
+const toStaff = (names: string[], role: StaffRole): StaffMember[] =>
+  names.map(name => ({ name, originalName: name, role, character: null, photoUrl: null }));
+
+export class OmdbProvider implements MetadataProvider {
+  readonly id = 'omdb';
+  readonly name = 'OMDb';
+  // Поиск OMDb работает только по названию, поэтому источник лишь дополняет найденные тайтлы
+  readonly canDiscover = false;
+
+  private mediaApi: MediaApi;
+
+  constructor(apiKey: string, signal?: AbortSignal) {
+    this.mediaApi = new MediaApi({ omdbApiKey: apiKey, signal });
+  }
+
+  private getImdbId(ref: MediaReference): string | null {
+    return ref.provider === this.id ? ref.sourceId : ref.imdbId;
+  }
+
+  private async fetchMovie(ref: MediaReference): Promise<OmdbMovie | null> {
+    const imdbId = this.getImdbId(ref);
+    return imdbId ? this.mediaApi.getOmdbDetails(imdbId) : null;
+  }
+
+  async search(query: string): Promise<MediaSearchResult[]> {
+    const movies = await this.mediaApi.searchOmdb(query);
+
+    return movies.map(movie => ({
+      sourceId: movie.imdbID,
+      title: movie.Title,
+      year: parseInt(movie.Year) || null,
+      type: movie.Type === 'series' ? 'SERIES' : movie.Type === 'movie' ? 'MOVIE' : null,
+      imdbId: movie.imdbID
+    }));
+  }
+
+  async *discover(): AsyncGenerator<MediaSearchResult[]> {
+    yield* [];
+  }
+
+  async getDetails(ref: MediaReference): Promise<MediaDetails | null> {
+    const movie = await this.fetchMovie(ref);
+    if (!movie) return null;
+
+    const released = readValue(movie.Released);
+
+    return {
+      sourceId: movie.imdbID,
+      imdbId: movie.imdbID,
+      title: readValue(movie.Title),
+      originalTitle: readValue(movie.Title),
+      type: movie.Type === 'series' ? 'SERIES' : 'MOVIE',
+      description: readValue(movie.Plot),
+      posterUrl: readValue(movie.Poster),
+      backdropUrl: null,
+      releaseDate: released ? new Date(released) : parseInt(movie.Year) ? new Date(parseInt(movie.Year), 0) : null,
+      rating: parseFloat(movie.imdbRating) || null,
+      duration: parseInt(movie.Runtime) || null,
+      genres: readList(movie.Genre)
+    };
+  }
+
+  // Эпизоды и видео OMDb не отдает
+  async getEpisodes(): Promise<EpisodeInfo[]> {
+    return [];
+  }
+
+  async getStaff(ref: MediaReference): Promise<StaffMember[]> {
+    const movie = await this.fetchMovie(ref);
+    if (!movie) return [];
+
+    return [
+      ...toStaff(readList(movie.Director), 'director'),
+      ...toStaff(readList(movie.Writer), 'writer'),
+      ...toStaff(readList(movie.Actors), 'actor')
+    ];
+  }
+
+  async getVideos(): Promise<VideoInfo[]> {
+    return [];
+  }
+}
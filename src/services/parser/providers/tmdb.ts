@@ -0,0 +1,195 @@
+import { MediaApi, TmdbDetails, TmdbMediaType } from '../mediaApi';
+import {
+  EpisodeInfo,
+  MediaDetails,
+  MediaReference,
+  MediaSearchResult,
+  MetadataProvider,
+  StaffMember,
+  StaffRole,
+  VideoInfo
+} from '../types';
+
+const TMDB_IMAGE_URL = 'https://image.tmdb.org/t/p';
+
+const CREW_ROLES: Record<string, StaffRole> = {
+  Director: 'director',
+  Screenplay: 'writer',
+  Writer: 'writer',
+  Producer: 'producer'
+};
+
+const VIDEO_URLS: Record<string, (key: string) => string> = {
+  YouTube: key => `https://www.youtube.com/watch?v=${key}`,
+  Vimeo: key => `https://vimeo.com/${key}`
+};
+
+const imageUrl = (filePath: string | null, size: string): string | null =>
+  filePath ? `${TMDB_IMAGE_URL}/${size}${filePath}` : null;
+
+const parseDate = (value: string | null | undefined): Date | null => (value ? new Date(value) : null);
+
+// Тайтл TMDB определяется типом и идентификатором; в sourceId хранится как «tv/1396»
+interface TmdbTarget {
+  type: TmdbMediaType;
+  id: number;
+}
+
+export class TmdbProvider implements MetadataProvider {
+  readonly id = 'tmdb';
+  readonly name = 'TMDB';
+  // Используется для дополнения: английские названия, фоны, фото актеров и кадры эпизодов
+  readonly canDiscover = false;
+
+  private mediaApi: MediaApi;
+  // Поиск по IMDb id выполняется один раз на тайтл, а не для каждого вида данных
+  private targets = new Map<string, TmdbTarget | null>();
+  // Детали нужны и для описания тайтла, и для списка сезонов — запрашиваются один раз
+  private details = new Map<string, TmdbDetails>();
+
+  constructor(apiKey: string, signal?: AbortSignal) {
+    this.mediaApi = new MediaApi({ tmdbApiKey: apiKey, signal });
+  }
+
+  private async resolve(ref: MediaReference): Promise<TmdbTarget | null> {
+    if (ref.provider === this.id) {
+      const [type, id] = ref.sourceId.split('/');
+      return (type === 'movie' || type === 'tv') && Number(id) ? { type, id: Number(id) } : null;
+    }
+
+    if (!ref.imdbId) return null;
+    if (this.targets.has(ref.imdbId)) {
+      return this.targets.get(ref.imdbId) || null;
+    }
+
+    const found = await this.mediaApi.findTmdbByImdbId(ref.imdbId);
+    const target: TmdbTarget | null = found.movie_results?.length
+      ? { type: 'movie', id: found.movie_results[0].id }
+      : found.tv_results?.length
+        ? { type: 'tv', id: found.tv_results[0].id }
+        : null;
+
+    this.targets.set(ref.imdbId, target);
+    return target;
+  }
+
+  private async loadDetails(target: TmdbTarget): Promise<TmdbDetails> {
+    const key = `${target.type}/${target.id}`;
+    const cached = this.details.get(key);
+    if (cached) return cached;
+
+    const details = await this.mediaApi.getTmdbDetails(target.type, target.id);
+    this.details.set(key, details);
+    return details;
+  }
+
+  async search(query: string): Promise<MediaSearchResult[]> {
+    const results = await this.mediaApi.searchTmdb(query);
+
+    return results
+      .filter(item => item.media_type === 'movie' || item.media_type === 'tv')
+      .map(item => ({
+        sourceId: `${item.media_type}/${item.id}`,
+        title: item.title || item.name || String(item.id),
+        year: parseInt(item.release_date || item.first_air_date || '') || null,
+        type: item.media_type === 'tv' ? 'SERIES' : 'MOVIE',
+        imdbId: null
+      }));
+  }
+
+  async *discover(): AsyncGenerator<MediaSearchResult[]> {
+    yield* [];
+  }
+
+  async getDetails(ref: MediaReference): Promise<MediaDetails | null> {
+    const target = await this.resolve(ref);
+    if (!target) return null;
+
+    const data = await this.loadDetails(target);
+    const englishTitle = data.title || data.name || null;
+
+    return {
+      sourceId: `${target.type}/${target.id}`,
+      imdbId: data.imdb_id || ref.imdbId,
+      title: englishTitle,
+      // У русскоязычных тайтлов оригинальное название совпадает с русским, поэтому берется английское
+      originalTitle: data.original_language === 'ru' ? englishTitle : data.original_title || data.original_name || englishTitle,
+      type: target.type === 'tv' ? 'SERIES' : 'MOVIE',
+      description: data.overview || null,
+      posterUrl: imageUrl(data.poster_path, 'w500'),
+      backdropUrl: imageUrl(data.backdrop_path, 'original'),
+      releaseDate: parseDate(data.release_date || data.first_air_date),
+      rating: data.vote_average || null,
+      duration: data.runtime || data.episode_run_time?.[0] || null,
+      // Жанры TMDB приходят на английском и не совпадают со справочником жанров каталога
+      genres: []
+    };
+  }
+
+  async getEpisodes(ref: MediaReference): Promise<EpisodeInfo[]> {
+    const target = await this.resolve(ref);
+    if (!target || target.type !== 'tv') return [];
+
+    const { seasons = [] } = await this.loadDetails(target);
+    const episodes: EpisodeInfo[] = [];
+
+    // Нулевой сезон TMDB — спецвыпуски, в каталоге их нет
+    for (const { season_number } of seasons.filter(season => season.season_number > 0)) {
+      const season = await this.mediaApi.getTmdbSeason(target.id, season_number);
+      for (const episode of season.episodes || []) {
+        episodes.push({
+          seasonNumber: episode.season_number,
+          episodeNumber: episode.episode_number,
+          title: episode.name || null,
+          description: episode.overview || null,
+          airDate: parseDate(episode.air_date),
+          stillUrl: imageUrl(episode.still_path, 'w300')
+        });
+      }
+    }
+
+    return episodes;
+  }
+
+  async getStaff(ref: MediaReference): Promise<StaffMember[]> {
+    const target = await this.resolve(ref);
+    if (!target) return [];
+
+    const { cast = [], crew = [] } = await this.mediaApi.getTmdbCredits(target.type, target.id);
+
+    return [
+      ...crew
+        .filter(person => CREW_ROLES[person.job])
+        .map(person => ({
+          name: person.name,
+          originalName: person.original_name || person.name,
+          role: CREW_ROLES[person.job],
+          character: null,
+          photoUrl: imageUrl(person.profile_path, 'w185')
+        })),
+      ...cast.map(person => ({
+        name: person.name,
+        originalName: person.original_name || person.name,
+        role: 'actor' as const,
+        character: person.character || null,
+        photoUrl: imageUrl(person.profile_path, 'w185')
+      }))
+    ];
+  }
+
+  async getVideos(ref: MediaReference): Promise<VideoInfo[]> {
+    const target = await this.resolve(ref);
+    if (!target) return [];
+
+    const videos = await this.mediaApi.getTmdbVideos(target.type, target.id);
+
+    return videos
+      .filter(video => VIDEO_URLS[video.site])
+      .map(video => ({
+        url: VIDEO_URLS[video.site](video.key),
+        name: video.name || null,
+        site: video.site.toLowerCase(),
+        type: video.type === 'Trailer' ? 'trailer' : video.type === 'Teaser' ? 'teaser' : 'other'
+      }));
+  }
+}
@@ -0,0 +1,230 @@
+import axios, { AxiosAdapter, AxiosError, AxiosInstance } from 'axios';
+import { prisma } from '@/config/database';
+
+// Ограничения внешних API источников метаданных. Скорость запросов держит token bucket
+// в памяти процесса (запуск парсера всегда один), расход суточной квоты хранится в
+// ParserQuotaUsage, чтобы его видела админ-панель и учитывали следующие запуски
+
+interface ProviderLimit {
+  // Средняя скорость и сколько запросов можно отправить подряд
+  ratePerSecond: number;
+  burst: number;
+  // Запросов в сутки (UTC); null — у API нет суточной квоты
+  dailyQuota: number | null;
+}
+
+const PROVIDER_LIMITS: Record<string, ProviderLimit> = {
+  // Бесплатный ключ kinopoiskapiunofficial.tech: 500 запросов в сутки
+  kinopoisk: { ratePerSecond: 5, burst: 10, dailyQuota: 500 },
+  // Бесплатный ключ OMDb: 1000 запросов в сутки
+  omdb: { ratePerSecond: 5, burst: 5, dailyQuota: 1000 },
+  tmdb: { ratePerSecond: 20, burst: 20, dailyQuota: null }
+};
+
+const DEFAULT_LIMIT: ProviderLimit = { ratePerSecond: 1, burst: 1, dailyQuota: null };
+
+const MAX_RETRIES = 3;
+const BASE_BACKOFF = 1000;
+const MAX_BACKOFF = 60 * 1000;
+// Перегрузка или временная недоступность API; остальные ошибки повторять бесполезно
+const RETRY_STATUSES = [429, 502, 503, 504];
+
+export interface ProviderQuotaUsage {
+  provider: string;
+  requests: number;
+  throttled: number;
+  dailyQuota: number | null;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface QuotaCounter {
+  day: number;
+  requests: number;
+}
+
+declare global {
+  var parserRateBuckets: Map<string, Bucket> | undefined;
+  var parserQuotaCounters: Map<string, QuotaCounter> | undefined;
+}
+
+const buckets = global.parserRateBuckets || new Map<string, Bucket>();
+// Последний известный расход квоты, чтобы не читать его из БД перед каждым запросом
+const quotaCounters = global.parserQuotaCounters || new Map<string, QuotaCounter>();
+
+if (process.env.NODE_ENV !== 'production') {
+  global.parserRateBuckets = buckets;
+  global.parserQuotaCounters = quotaCounters;
+}
+
+const getLimit = (provider: string): ProviderLimit => PROVIDER_LIMITS[provider] || DEFAULT_LIMIT;
+
+const startOfDay = (date: Date = new Date()): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+// Пауза, которая прерывается при отмене запуска парсера
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Запрос отменен'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Запрос отменен'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const takeToken = async (provider: string, signal?: AbortSignal): Promise<void> => {
+  const { ratePerSecond, burst } = getLimit(provider);
+
+  for (;;) {
+    const now = Date.now();
+    const bucket = buckets.get(provider) || { tokens: burst, updatedAt: now };
+    bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.updatedAt) / 1000) * ratePerSecond);
+    bucket.updatedAt = now;
+    buckets.set(provider, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return;
+    }
+
+    await wait(((1 - bucket.tokens) / ratePerSecond) * 1000, signal);
+  }
+};
+
+const readRequestsToday = async (provider: string): Promise<number> => {
+  const day = startOfDay().getTime();
+  const cached = quotaCounters.get(provider);
+  if (cached?.day === day) {
+    return cached.requests;
+  }
+
+  const usage = await prisma.parserQuotaUsage.findUnique({
+    where: { provider_day: { provider, day: new Date(day) } }
+  });
+  quotaCounters.set(provider, { day, requests: usage?.requests ?? 0 });
+  return usage?.requests ?? 0;
+};
+
+const recordRequest = async (provider: string, throttled: boolean): Promise<void> => {
+  const day = startOfDay();
+
+  try {
+    const usage = await prisma.parserQuotaUsage.upsert({
+      where: { provider_day: { provider, day } },
+      create: { provider, day, requests: 1, throttled: throttled ? 1 : 0 },
+      update: {
+        requests: { increment: 1 },
+        throttled: throttled ? { increment: 1 } : undefined
+      }
+    });
+    quotaCounters.set(provider, { day: day.getTime(), requests: usage.requests });
+  } catch (error) {
+    // Сбой учета не должен прерывать работу парсера
+    console.error('Error recording provider quota usage:', error);
+  }
+};
+
+// Retry-After приходит числом секунд или HTTP-датой
+const parseRetryAfter = (value: unknown): number | null => {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+// Экспоненциальная задержка со случайным разбросом, чтобы повторы не шли синхронно
+const getBackoff = (attempt: number, error: AxiosError): number => {
+  const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+  if (retryAfter !== null) {
+    return Math.min(retryAfter, MAX_BACKOFF);
+  }
+
+  const ceiling = Math.min(BASE_BACKOFF * Math.pow(2, attempt), MAX_BACKOFF);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+};
+
+// Оборачивает адаптер axios: каждый запрос к источнику, включая повторы, проходит через
+// token bucket, проверку и учет суточной квоты; 429 и 5xx шлюза повторяются с задержкой
+const createRateLimitedAdapter = (provider: string, adapter: AxiosAdapter, signal?: AbortSignal): AxiosAdapter =>
+  async config => {
+    const { dailyQuota } = getLimit(provider);
+
+    for (let attempt = 0; ; attempt++) {
+      if (dailyQuota !== null && (await readRequestsToday(provider)) >= dailyQuota) {
+        throw new Error(`Суточная квота запросов к источнику ${provider} исчерпана`);
+      }
+
+      await takeToken(provider, signal);
+
+      try {
+        const response = await adapter(config);
+        await recordRequest(provider, false);
+        return response;
+      } catch (error) {
+        // Запрос, на который API ответило, расходует квоту; сетевая ошибка — нет
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        if (status !== undefined) {
+          await recordRequest(provider, status === 429);
+        }
+
+        if (!axios.isAxiosError(error) || !status || !RETRY_STATUSES.includes(status) || attempt >= MAX_RETRIES) {
+          throw error;
+        }
+
+        const delay = getBackoff(attempt, error);
+        console.warn(`Provider ${provider} responded ${status}, retrying in ${Math.round(delay)} ms`);
+        await wait(delay, signal);
+      }
+    }
+  };
+
+// HTTP-клиент для запросов к одному источнику метаданных
+export const createProviderHttp = (
+  provider: string,
+  { baseURL, adapter, signal }: { baseURL?: string; adapter?: AxiosAdapter; signal?: AbortSignal }
+): AxiosInstance =>
+  axios.create({
+    baseURL,
+    adapter: createRateLimitedAdapter(provider, adapter || axios.getAdapter(axios.defaults.adapter), signal),
+    signal
+  });
+
+// Источник с исчерпанной суточной квотой: парсеру нет смысла продолжать запуск
+export const isProviderQuotaExhausted = async (provider: string): Promise<boolean> => {
+  const { dailyQuota } = getLimit(provider);
+  return dailyQuota !== null && (await readRequestsToday(provider)) >= dailyQuota;
+};
+
+// Расход квот за текущие сутки для админ-панели
+export const getProviderQuotaUsage = async (providers: string[]): Promise<ProviderQuotaUsage[]> => {
+  const usage = await prisma.parserQuotaUsage.findMany({
+    where: { provider: { in: providers }, day: startOfDay() }
+  });
+
+  return providers.map(provider => {
+    const row = usage.find(item => item.provider === provider);
+    return {
+      provider,
+      requests: row?.requests ?? 0,
+      throttled: row?.throttled ?? 0,
+      dailyQuota: getLimit(provider).dailyQuota
+    };
+  });
+};
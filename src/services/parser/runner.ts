@@ -0,0 +1,292 @@
+import { prisma } from '@/config/database';
+import { MediaParser } from './mediaParser';
+import { createMetadataProviders } from './providers';
+import { getDiscoverySettings } from './discovery';
+import { cancelParserJob, getParserJobIds, registerParserJob, unregisterParserJob } from './jobs';
+import { notifyParserChange } from './events';
+import {
+  acquireParserLease,
+  attachRunToLease,
+  createLeaseOwner,
+  isParserLeaseHeld,
+  isParserLeaseLost,
+  PARSER_LEASE_LOST,
+  releaseParserLease,
+  renewParserLease,
+  requestParserLeaseCancel
+} from './lease';
+
+// Запуск из админ-панели или плановой задачей
+export type ParserRunSource = 'manual' | 'schedule';
+
+export type ParserRunStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type ParserRunStartResult =
+  | { started: true; runId: number }
+  | { started: false; error: string; running?: { lastRun: Date; processedItems: number } };
+
+const SOURCE_MESSAGES: Record<ParserRunSource, string> = {
+  manual: 'Парсер запущен',
+  schedule: 'Парсер запущен по расписанию'
+};
+
+const LEASE_LOST_ERROR = 'Запуск прерван: потеряна аренда ParserLease';
+
+// Запуски в статусе running без живой аренды остались от упавшего процесса: их heartbeat пропал
+const closeDeadRuns = async (): Promise<void> => {
+  const { count } = await prisma.parserHistory.updateMany({
+    where: { status: 'running' },
+    data: {
+      status: 'failed',
+      endTime: new Date(),
+      errors: ['Запуск прерван: процесс парсера перестал отправлять heartbeat']
+    }
+  });
+
+  if (count > 0) {
+    await prisma.parserLog.create({
+      data: {
+        message: 'Предыдущий запуск парсера был прерван',
+        error: 'Нет heartbeat от процесса парсера',
+        timestamp: new Date()
+      }
+    });
+  }
+};
+
+// Дожидается окончания работы парсера и записывает итог запуска в ParserHistory
+const completeRun = async (mediaParser: MediaParser, runId: number, signal: AbortSignal): Promise<void> => {
+  let status: ParserRunStatus = 'completed';
+
+  try {
+    await mediaParser.start(runId);
+    if (signal.aborted) {
+      status = isParserLeaseLost(signal) ? 'failed' : 'cancelled';
+    }
+  } catch (error) {
+    console.error('Parser error:', error);
+    status = 'failed';
+    if (!isParserLeaseLost(signal)) {
+      await prisma.$transaction(async (tx) => {
+        await tx.parserStatus.update({
+          where: { id: 1 },
+          data: {
+            status: 'error',
+            errors: [(error as Error).message]
+          }
+        });
+
+        await tx.parserLog.create({
+          data: {
+            message: 'Ошибка парсера',
+            error: (error as Error).message,
+            timestamp: new Date()
+          }
+        });
+      });
+    }
+  }
+
+  if (isParserLeaseLost(signal)) {
+    await completeLostRun(runId);
+    return;
+  }
+
+  const parserStatus = await prisma.parserStatus.findFirst();
+  await prisma.parserHistory.update({
+    where: { id: runId },
+    data: {
+      status,
+      endTime: new Date(),
+      itemsProcessed: parserStatus?.processedItems ?? 0,
+      errors: parserStatus?.errors ?? []
+    }
+  });
+  notifyParserChange();
+};
+
+// Запуск без аренды не трогает ParserStatus, если аренду уже держит другой запуск: состояние
+// парсера теперь его. Иначе парсер остался бы активным без работающего запуска
+const completeLostRun = async (runId: number): Promise<void> => {
+  await prisma.$transaction(async (tx) => {
+    await tx.parserHistory.update({
+      where: { id: runId },
+      data: {
+        status: 'failed',
+        endTime: new Date(),
+        errors: [LEASE_LOST_ERROR]
+      }
+    });
+
+    await tx.parserLog.create({
+      data: {
+        message: 'Ошибка парсера',
+        error: LEASE_LOST_ERROR,
+        timestamp: new Date()
+      }
+    });
+  });
+
+  if (!(await isParserLeaseHeld())) {
+    await prisma.parserStatus.updateMany({
+      data: { status: 'error', errors: [LEASE_LOST_ERROR], currentItem: null }
+    });
+  }
+  notifyParserChange();
+};
+
+// Проверяет настройки и состояние парсера, создает запись о запуске и запускает парсер в фоне
+export const startParserRun = async (source: ParserRunSource): Promise<ParserRunStartResult> => {
+  // Источники, их ключи и способы поиска нового контента берутся из сохраненных настроек парсера
+  const parserSettings = await prisma.parserSettings.findFirst();
+  if (!parserSettings) {
+    return { started: false, error: 'Настройки парсера не заданы' };
+  }
+
+  const owner = createLeaseOwner();
+  // Запуск отменяется через AbortController из реестра задач, запрос отмены с другого
+  // экземпляра и потеря аренды приходят через heartbeat
+  const controller = new AbortController();
+  const heartbeat = async () => {
+    const lease = await renewParserLease(owner);
+    if (!lease.held) {
+      console.error('Parser lease lost, stopping run');
+      controller.abort(PARSER_LEASE_LOST);
+    } else if (lease.cancelRequested) {
+      controller.abort();
+    }
+  };
+
+  let mediaParser: MediaParser;
+  try {
+    mediaParser = new MediaParser(
+      createMetadataProviders(parserSettings, controller.signal),
+      getDiscoverySettings(parserSettings),
+      { signal: controller.signal, heartbeat }
+    );
+  } catch (providerError) {
+    return { started: false, error: (providerError as Error).message };
+  }
+
+  if (!(await acquireParserLease(owner))) {
+    const currentStatus = await prisma.parserStatus.findFirst();
+    return {
+      started: false,
+      error: 'Парсер уже запущен',
+      running: currentStatus ? {
+        lastRun: currentStatus.lastRun,
+        processedItems: currentStatus.processedItems
+      } : undefined
+    };
+  }
+
+  let runId: number;
+  try {
+    await closeDeadRuns();
+
+    const run = await prisma.$transaction(async (tx) => {
+      await tx.parserStatus.upsert({
+        where: { id: 1 },
+        create: {
+          status: 'active',
+          lastRun: new Date(),
+          processedItems: 0,
+          errors: []
+        },
+        update: {
+          status: 'active',
+          lastRun: new Date(),
+          errors: [],
+          processedItems: 0,
+          currentItem: null
+        }
+      });
+
+      await tx.parserLog.create({
+        data: {
+          message: SOURCE_MESSAGES[source],
+          error: '',
+          timestamp: new Date()
+        }
+      });
+
+      return tx.parserHistory.create({
+        data: {
+          source,
+          status: 'running',
+          errors: []
+        }
+      });
+    });
+
+    runId = run.id;
+    await attachRunToLease(owner, runId);
+  } catch (error) {
+    await releaseParserLease(owner);
+    throw error;
+  }
+
+  registerParserJob(runId, controller);
+  notifyParserChange();
+  completeRun(mediaParser, runId, controller.signal)
+    .catch(error => {
+      console.error('Parser run bookkeeping error:', error);
+    })
+    .finally(async () => {
+      unregisterParserJob(runId);
+      await releaseParserLease(owner).catch(error => {
+        console.error('Parser lease release error:', error);
+      });
+    });
+
+  return { started: true, runId };
+};
+
+// Отменяет текущий запуск: в этом процессе — сразу через реестр задач, на другом экземпляре —
+// запросом в аренде, который владелец увидит при следующем heartbeat. Работающий запуск
+// определяется по реестру и живой аренде, а не по ParserStatus: статус error ставится и
+// во время работы, после ошибки отдельного тайтла. Запуск без живой аренды остался от
+// упавшего процесса и закрывается сразу
+export const stopParserRun = async (): Promise<{ stopped: boolean; error?: string }> => {
+  const currentStatus = await prisma.parserStatus.findFirst();
+  const runs = await prisma.parserHistory.findMany({
+    where: { status: 'running' },
+    select: { id: true }
+  });
+
+  const cancelledLocally = getParserJobIds().filter(cancelParserJob).length > 0;
+  const hasLiveLease = await requestParserLeaseCancel();
+  const isAlive = cancelledLocally || hasLiveLease;
+
+  if (!isAlive && !runs.length && currentStatus?.status !== 'active') {
+    return { stopped: false, error: 'Парсер не запущен' };
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.parserStatus.updateMany({
+      data: {
+        status: 'cancelled',
+        errors: [],
+        currentItem: null
+      }
+    });
+
+    if (!isAlive) {
+      await tx.parserHistory.updateMany({
+        where: { status: 'running' },
+        data: { status: 'cancelled', endTime: new Date() }
+      });
+    }
+
+    await tx.parserLog.create({
+      data: {
+        message: 'Парсер остановлен',
+        error: '',
+        timestamp: new Date()
+      }
+    });
+  });
+  notifyParserChange();
+
+  return { stopped: true };
+};
@@ -0,0 +1,35 @@
+import { prisma } from '@/config/database';
+import { startParserRun } from './runner';
+
+const HOUR = 60 * 60 * 1000;
+
+export type ScheduledRunResult =
+  | { started: true; runId: number }
+  | { started: false; reason: string; nextRunAt?: Date };
+
+// Вызывается плановой задачей: запускает парсер, если включено автообновление и с начала
+// последнего запуска (ручного или по расписанию) прошло updateInterval часов
+export const runScheduledParser = async (): Promise<ScheduledRunResult> => {
+  const settings = await prisma.parserSettings.findFirst();
+  if (!settings?.autoUpdate) {
+    return { started: false, reason: 'Автоматическое обновление выключено' };
+  }
+
+  const lastRun = await prisma.parserHistory.findFirst({
+    orderBy: { startTime: 'desc' },
+    select: { startTime: true }
+  });
+
+  const interval = Math.max(settings.updateInterval, 1) * HOUR;
+  if (lastRun && Date.now() - lastRun.startTime.getTime() < interval) {
+    return {
+      started: false,
+      reason: 'Интервал обновления еще не прошел',
+      nextRunAt: new Date(lastRun.startTime.getTime() + interval)
+    };
+  }
+
+  // Если парсер уже работает, запуск пропускается до следующего вызова
+  const result = await startParserRun('schedule');
+  return result.started ? result : { started: false, reason: result.error };
+};
@@ -22,4 +22,100 @@ export interface OmdbMovie {
   imdbRating: string;
   Runtime: string;
   Genre: string;
-}
\ No newline at end of file
+}
+
+// Нормализованные данные источников метаданных. Парсер работает только с ними,
+// поэтому новый источник подключается реализацией MetadataProvider и записью в реестре
+
+export type MediaKind = 'MOVIE' | 'SERIES';
+
+// Ссылка на тайтл: идентификатор в источнике, из которого он получен, и IMDb id,
+// по которому его могут найти другие источники
+export interface MediaReference {
+  provider: string;
+  sourceId: string;
+  imdbId: string | null;
+}
+
+// Способы поиска нового контента, которые выбираются в ParserSettings.discoveryStrategies:
+// лучшие по рейтингу, популярные, премьеры месяца и выборка по году, жанру и стране
+export type DiscoveryStrategy = 'top' | 'popular' | 'premieres' | 'filters';
+
+export interface DiscoveryFilters {
+  yearFrom: number;
+  yearTo: number;
+  // Названия жанров и стран, как их показывает источник; пустой список — без ограничения
+  genres: string[];
+  countries: string[];
+}
+
+export interface DiscoveryOptions {
+  contentTypes: MediaKind[];
+  filters: DiscoveryFilters;
+}
+
+export interface MediaSearchResult {
+  sourceId: string;
+  title: string;
+  year: number | null;
+  type: MediaKind | null;
+  imdbId: string | null;
+}
+
+export interface MediaDetails {
+  sourceId: string;
+  imdbId: string | null;
+  title: string | null;
+  originalTitle: string | null;
+  type: MediaKind;
+  description: string | null;
+  posterUrl: string | null;
+  backdropUrl: string | null;
+  releaseDate: Date | null;
+  rating: number | null;
+  duration: number | null;
+  genres: string[];
+}
+
+export interface EpisodeInfo {
+  seasonNumber: number;
+  episodeNumber: number;
+  title: string | null;
+  description: string | null;
+  airDate: Date | null;
+  stillUrl: string | null;
+}
+
+export type StaffRole = 'director' | 'writer' | 'producer' | 'actor' | 'other';
+
+export interface StaffMember {
+  name: string;
+  originalName: string | null;
+  role: StaffRole;
+  character: string | null;
+  photoUrl: string | null;
+}
+
+export interface VideoInfo {
+  url: string;
+  name: string | null;
+  site: string;
+  type: 'trailer' | 'teaser' | 'other';
+}
+
+export interface MetadataProvider {
+  readonly id: string;
+  readonly name: string;
+  // Может ли источник сам находить новые тайтлы или только дополняет найденные другими
+  readonly canDiscover: boolean;
+
+  search(query: string): Promise<MediaSearchResult[]>;
+  // Отдает найденные тайтлы постранично, пока у источника есть следующая страница.
+  // Источник без поиска нового контента ничего не отдает
+  discover(strategy: DiscoveryStrategy, options: DiscoveryOptions): AsyncIterable<MediaSearchResult[]>;
+  // Методы ниже возвращают null или пустой список, если источник не нашел тайтл по ссылке
+  getDetails(ref: MediaReference): Promise<MediaDetails | null>;
+  getEpisodes(ref: MediaReference): Promise<EpisodeInfo[]>;
+  getStaff(ref: MediaReference): Promise<StaffMember[]>;
+  getVideos(ref: MediaReference): Promise<VideoInfo[]>;
+}
@@ -1,6 +1,6 @@
-import axios from 'axios';
 import { prisma } from '@/config/database';
 import { MediaStatus } from '@prisma/client';
+import { VideoInfo } from './types';
 
 interface VideoSource {
   url: string;
@@ -8,15 +8,11 @@ interface VideoSource {
   type: 'movie' | 'trailer';
 }
 
-export class VideoProcessor {
-  private readonly TRAILER_API_URL = 'https://kinopoiskapiunofficial.tech/api/v2.2/films';
-  private readonly kinopoiskApiKey: string;
-
-  constructor(kinopoiskApiKey: string) {
-    this.kinopoiskApiKey = kinopoiskApiKey;
-  }
+// Трейлеры запрашиваются у источников метаданных только тогда, когда они нужны
+type VideoLoader = () => Promise<VideoInfo[]>;
 
-  async processMediaVideo(mediaId: number, sourceId: string): Promise<void> {
+export class VideoProcessor {
+  async processMediaVideo(mediaId: number, sourceId: string, loadVideos: VideoLoader): Promise<void> {
     try {
       const media = await prisma.media.findUnique({
         where: { id: mediaId }
@@ -31,7 +27,7 @@ export class VideoProcessor {
 
       if (!isReleased) {
         // Если контент еще не вышел, получаем трейлер
-        await this.processTrailer(mediaId, sourceId);
+        await this.processTrailer(mediaId, loadVideos);
         return;
       }
 
@@ -40,7 +36,7 @@ export class VideoProcessor {
       
       if (videoSources.length === 0) {
         // Если видео не найдено, пробуем получить трейлер
-        await this.processTrailer(mediaId, sourceId);
+        await this.processTrailer(mediaId, loadVideos);
         return;
       }
 
@@ -54,9 +50,9 @@ export class VideoProcessor {
     }
   }
 
-  private async processTrailer(mediaId: number, sourceId: string): Promise<void> {
+  private async processTrailer(mediaId: number, loadVideos: VideoLoader): Promise<void> {
     try {
-      const trailerUrl = await this.getTrailerUrl(sourceId);
+      const trailerUrl = await this.getTrailerUrl(loadVideos);
       if (trailerUrl) {
         await prisma.videoSource.create({
           data: {
@@ -73,23 +69,12 @@ export class VideoProcessor {
     }
   }
 
-  private async getTrailerUrl(sourceId: string): Promise<string | null> {
+  private async getTrailerUrl(loadVideos: VideoLoader): Promise<string | null> {
     try {
-      const response = await axios.get(
-        `${this.TRAILER_API_URL}/${sourceId}/videos`,
-        {
-          headers: {
-            'X-API-KEY': this.kinopoiskApiKey,
-            'Content-Type': 'application/json',
-          }
-        }
-      );
-
-      const trailers = response.data.items?.filter((item: any) => 
-        item.site === 'YOUTUBE' && item.type === 'TRAILER'
-      );
+      const trailers = (await loadVideos()).filter(video => video.type === 'trailer');
+      const trailer = trailers.find(video => video.site === 'youtube') || trailers[0];
 
-      return trailers?.[0]?.url || null;
+      return trailer?.url || null;
     } catch (error) {
       console.error('Error fetching trailer:', error);
       return null;
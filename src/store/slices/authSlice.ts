@@ -2,14 +2,12 @@ import { createSlice, PayloadAction } from '@reduxjs/toolkit';
 
 interface AuthState {
   isAuthenticated: boolean;
-  token: string | null;
   loading: boolean;
   error: string | null;
 }
 
 const initialState: AuthState = {
   isAuthenticated: false,
-  token: null,
   loading: false,
   error: null,
 };
@@ -22,9 +20,8 @@ const authSlice = createSlice({
       state.loading = true;
       state.error = null;
     },
-    loginSuccess: (state, action: PayloadAction<string>) => {
+    loginSuccess: (state) => {
       state.isAuthenticated = true;
-      state.token = action.payload;
       state.loading = false;
       state.error = null;
     },
@@ -34,7 +31,6 @@ const authSlice = createSlice({
     },
     logout: (state) => {
       state.isAuthenticated = false;
-      state.token = null;
       state.loading = false;
       state.error = null;
     },
@@ -15,6 +15,7 @@ export interface Media {
   status: MediaStatus;
   source_id?: string;
   source_type?: string;
+  imdb_id?: string;
   created_at: Date;
   updated_at: Date;
   genres?: Genre[];
@@ -1,3 +1,5 @@
+import type { UserRole } from '@prisma/client';
+
 export interface User {
   id: number;
   username: string;
@@ -12,7 +14,7 @@ export interface User {
   viewing_history: ViewingHistory[];
   favorites: Favorites[];
   watchlist: Watchlist[];
-  role: 'USER' | 'ADMIN';
+  role: UserRole;
 }
 
 export interface UserSettings {
@@ -56,5 +58,5 @@ export interface UserProfile {
   watchlist_count: number;
   created_at: Date;
   updated_at: Date;
-  role: 'USER' | 'ADMIN';
+  role: UserRole;
 }
\ No newline at end of file
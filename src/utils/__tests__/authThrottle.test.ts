@@ -0,0 +1,155 @@
+import { NextApiRequest } from 'next';
+import prisma from '@/config/database';
+import { checkThrottle, getClientIp, getThrottleKeys, registerFailedAttempt, resetThrottle } from '../authThrottle';
+
+interface ThrottleRow {
+  key: string;
+  failures: number;
+  locked_until: Date | null;
+  last_failure: Date;
+}
+
+type Update = Omit<Partial<ThrottleRow>, 'failures'> & { failures?: number | { increment: number } };
+
+// Движка Prisma в тестах нет: счетчики попыток хранятся в памяти
+jest.mock('@/config/database', () => {
+  const rows: ThrottleRow[] = [];
+
+  const apply = (row: ThrottleRow, { failures, ...data }: Update) =>
+    Object.assign(row, data, failures === undefined ? {} : {
+      failures: typeof failures === 'number' ? failures : row.failures + failures.increment
+    });
+
+  const prisma = {
+    rows,
+    authThrottle: {
+      findMany: async ({ where }: { where: { key: { in: string[] }; locked_until: { gt: Date } } }) =>
+        rows.filter(row => where.key.in.includes(row.key) && row.locked_until && row.locked_until > where.locked_until.gt),
+      findUnique: async ({ where }: { where: { key: string } }) => rows.find(row => row.key === where.key) || null,
+      upsert: async ({ where, create, update }: { where: { key: string }; create: Omit<ThrottleRow, 'locked_until'>; update: Update }) => {
+        const existing = rows.find(row => row.key === where.key);
+        if (existing) return apply(existing, update);
+        const row = { locked_until: null, ...create };
+        rows.push(row);
+        return row;
+      },
+      update: async ({ where, data }: { where: { key: string }; data: Update }) =>
+        apply(rows.find(row => row.key === where.key)!, data),
+      deleteMany: async ({ where }: { where: { key: { in: string[] } } }) => {
+        const deleted = rows.filter(row => where.key.in.includes(row.key));
+        rows.splice(0, rows.length, ...rows.filter(row => !deleted.includes(row)));
+        return { count: deleted.length };
+      }
+    }
+  };
+
+  return { __esModule: true, prisma, default: prisma };
+});
+
+const { rows } = prisma as unknown as { rows: ThrottleRow[] };
+
+const createRequest = (remoteAddress: string, forwardedFor?: string) =>
+  ({
+    headers: forwardedFor ? { 'x-forwarded-for': forwardedFor } : {},
+    socket: { remoteAddress }
+  }) as unknown as NextApiRequest;
+
+const lockoutSeconds = (key: string) => {
+  const row = rows.find(item => item.key === key)!;
+  return row.locked_until ? (row.locked_until.getTime() - row.last_failure.getTime()) / 1000 : null;
+};
+
+const fail = async (times: number, key = 'login:email:user@example.com', maxAttempts = 5) => {
+  for (let i = 0; i < times; i++) {
+    await registerFailedAttempt([{ key, maxAttempts }]);
+  }
+};
+
+describe('getClientIp', () => {
+  afterEach(() => {
+    delete process.env.TRUSTED_PROXIES;
+  });
+
+  it('без доверенных прокси берет адрес соединения и не читает X-Forwarded-For', () => {
+    expect(getClientIp(createRequest('::ffff:203.0.113.5', '198.51.100.1'))).toBe('203.0.113.5');
+  });
+
+  it('за доверенным прокси берет первый справа адрес, добавленный не им', () => {
+    process.env.TRUSTED_PROXIES = '10.0.0.1, 10.0.0.2';
+
+    expect(getClientIp(createRequest('10.0.0.1', '1.1.1.1, 203.0.113.5, 10.0.0.2'))).toBe('203.0.113.5');
+    expect(getClientIp(createRequest('::ffff:10.0.0.1', '10.0.0.2'))).toBe('10.0.0.2');
+  });
+
+  it('не верит X-Forwarded-For от недоверенного адреса', () => {
+    process.env.TRUSTED_PROXIES = '10.0.0.1';
+
+    expect(getClientIp(createRequest('203.0.113.5', '1.1.1.1'))).toBe('203.0.113.5');
+  });
+});
+
+describe('getThrottleKeys', () => {
+  it('считает попытки отдельно по email и по IP-адресу', () => {
+    expect(getThrottleKeys('login', createRequest('203.0.113.5'), ' User@Example.com ')).toEqual([
+      { key: 'login:email:user@example.com', maxAttempts: 5 },
+      { key: 'login:ip:203.0.113.5', maxAttempts: 20 }
+    ]);
+  });
+});
+
+describe('registerFailedAttempt', () => {
+  beforeEach(() => {
+    rows.splice(0);
+  });
+
+  it('блокирует ключ после лимита неудач и удваивает блокировку', async () => {
+    const keys = [{ key: 'login:email:user@example.com', maxAttempts: 5 }];
+
+    await fail(4);
+    expect(await checkThrottle(keys)).toBeNull();
+
+    await fail(1);
+    expect(lockoutSeconds(keys[0].key)).toBe(30);
+    expect(await checkThrottle(keys)).toBe(30);
+
+    await fail(1);
+    expect(lockoutSeconds(keys[0].key)).toBe(60);
+    await fail(1);
+    expect(lockoutSeconds(keys[0].key)).toBe(120);
+  });
+
+  it('ограничивает блокировку часом', async () => {
+    await fail(20);
+
+    expect(lockoutSeconds('login:email:user@example.com')).toBe(60 * 60);
+  });
+
+  it('начинает счет заново через сутки без ошибок', async () => {
+    await fail(6);
+    rows[0].last_failure = new Date(Date.now() - 25 * 60 * 60 * 1000);
+
+    await fail(1);
+
+    expect(rows[0]).toMatchObject({ failures: 1, locked_until: null });
+  });
+
+  it('блокирует по IP независимо от email', async () => {
+    const req = createRequest('203.0.113.5');
+    for (let i = 0; i < 20; i++) {
+      await registerFailedAttempt(getThrottleKeys('login', req, `user${i}@example.com`));
+    }
+
+    expect(await checkThrottle(getThrottleKeys('login', req, 'new@example.com'))).toBe(30);
+    expect(await checkThrottle(getThrottleKeys('login', createRequest('203.0.113.6'), 'new@example.com'))).toBeNull();
+  });
+
+  it('снимает блокировку после успешной попытки', async () => {
+    const keys = getThrottleKeys('login', createRequest('203.0.113.5'), 'user@example.com');
+    await fail(5);
+
+    await resetThrottle(keys);
+
+    expect(rows).toEqual([]);
+    expect(await checkThrottle(keys)).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+import jwt from 'jsonwebtoken';
+import { generateToken, verifyToken } from '../auth';
+import { findVerificationKey, getSigningKey, JwtKey, LEGACY_KID, loadKeyRing, parseKeyRing, rotateKeyRing } from '../jwtKeys';
+
+const ACTIVE = { kid: 'key-3', secret: 'active-secret-that-is-long-enough-1' };
+const RETIRED = { kid: 'key-2', secret: 'retired-secret', expiresAt: '2999-01-01T00:00:00.000Z' };
+const EXPIRED = { kid: 'key-1', secret: 'expired-secret', expiresAt: '2000-01-01T00:00:00.000Z' };
+
+// Набор ключей кешируется при первом обращении, поэтому задается до импорта использующего кода
+process.env.JWT_KEYS = JSON.stringify([ACTIVE, RETIRED, EXPIRED]);
+
+const sign = (key: JwtKey, kid = key.kid) =>
+  jwt.sign({ userId: 1, sid: 'session-1' }, key.secret, { algorithm: 'HS256', ...(kid && { keyid: kid }) });
+
+describe('parseKeyRing', () => {
+  it('разбирает ключи и сохраняет порядок', () => {
+    expect(parseKeyRing(JSON.stringify([ACTIVE, RETIRED]))).toEqual([ACTIVE, RETIRED]);
+  });
+
+  it('отклоняет некорректную конфигурацию', () => {
+    expect(() => parseKeyRing('not json')).toThrow('JSON-массивом');
+    expect(() => parseKeyRing('[]')).toThrow('ни одного ключа');
+    expect(() => parseKeyRing(JSON.stringify([ACTIVE, { ...RETIRED, kid: ACTIVE.kid }]))).toThrow('уникальный kid');
+    expect(() => parseKeyRing(JSON.stringify([ACTIVE, { kid: 'key-2' }]))).toThrow('Не задан секрет ключа key-2');
+    expect(() => parseKeyRing(JSON.stringify([ACTIVE, { ...RETIRED, expiresAt: 'завтра' }]))).toThrow('Некорректный expiresAt');
+    expect(() => parseKeyRing(JSON.stringify([RETIRED]))).toThrow('не может иметь срок действия');
+    expect(() => parseKeyRing(JSON.stringify([{ kid: 'short', secret: 'short' }]))).toThrow('не короче 32');
+  });
+});
+
+describe('loadKeyRing', () => {
+  it('предпочитает JWT_KEYS, а JWT_SECRET считает ключом с прежним kid', () => {
+    expect(loadKeyRing({ JWT_KEYS: JSON.stringify([ACTIVE]), JWT_SECRET: 'ignored' })).toEqual([ACTIVE]);
+    expect(loadKeyRing({ JWT_SECRET: ACTIVE.secret })).toEqual([{ kid: LEGACY_KID, secret: ACTIVE.secret }]);
+  });
+
+  it('допускает короткий JWT_SECRET только по явному разрешению', () => {
+    expect(() => loadKeyRing({ JWT_SECRET: 'short' })).toThrow('JWT_SECRET должен быть не короче');
+    expect(loadKeyRing({ JWT_SECRET: 'short' }, { allowShortLegacySecret: true })).toEqual([{ kid: LEGACY_KID, secret: 'short' }]);
+    expect(() => loadKeyRing({})).toThrow('Не настроен ключ подписи JWT');
+  });
+});
+
+describe('выбор ключа по kid', () => {
+  it('подписывает новые токены активным ключом', () => {
+    const token = generateToken(1, 'session-1', 'USER');
+
+    expect(getSigningKey()).toEqual(ACTIVE);
+    expect(jwt.decode(token, { complete: true })?.header.kid).toBe(ACTIVE.kid);
+    expect(verifyToken(token)).toMatchObject({ userId: 1, sid: 'session-1', role: 'USER' });
+  });
+
+  it('проверяет токен ключом из заголовка, пока тот не истек', () => {
+    expect(findVerificationKey(RETIRED.kid)).toEqual(RETIRED);
+    expect(verifyToken(sign(RETIRED))).toMatchObject({ userId: 1 });
+
+    expect(findVerificationKey(EXPIRED.kid)).toBeNull();
+    expect(verifyToken(sign(EXPIRED))).toBeNull();
+  });
+
+  it('не принимает токены с неизвестным kid, без kid и с подписью другим ключом', () => {
+    expect(verifyToken(sign(ACTIVE, 'unknown'))).toBeNull();
+    expect(verifyToken(sign(ACTIVE, ''))).toBeNull();
+    expect(verifyToken(sign(RETIRED, ACTIVE.kid))).toBeNull();
+  });
+});
+
+describe('rotateKeyRing', () => {
+  it('делает новый ключ активным, выводит прежний и удаляет истекшие', () => {
+    const newKey = { kid: 'key-4', secret: 'new-secret-that-is-long-enough-12345' };
+    const retireAt = new Date('2999-06-01T00:00:00.000Z');
+
+    expect(rotateKeyRing([ACTIVE, RETIRED, EXPIRED], newKey, retireAt)).toEqual([
+      newKey,
+      { ...ACTIVE, expiresAt: retireAt.toISOString() },
+      RETIRED
+    ]);
+  });
+});
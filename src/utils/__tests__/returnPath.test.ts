@@ -0,0 +1,22 @@
+import { getReturnPath } from '../returnPath';
+
+describe('getReturnPath', () => {
+  it('возвращает путь этого же сайта с параметрами', () => {
+    expect(getReturnPath('/admin/parser?tab=logs#top')).toBe('/admin/parser?tab=logs#top');
+    expect(getReturnPath('/admin/../profile')).toBe('/profile');
+  });
+
+  it('не пропускает адреса других сайтов', () => {
+    expect(getReturnPath('https://evil.com')).toBe('/');
+    expect(getReturnPath('//evil.com')).toBe('/');
+    expect(getReturnPath('/\\evil.com')).toBe('/');
+    expect(getReturnPath('/\t/evil.com')).toBe('/');
+    expect(getReturnPath('/%2F%2Fevil.com')).toBe('/%2F%2Fevil.com');
+  });
+
+  it('заменяет отсутствующий или нестроковый путь главной страницей', () => {
+    expect(getReturnPath(undefined)).toBe('/');
+    expect(getReturnPath(['/admin'])).toBe('/');
+    expect(getReturnPath('admin')).toBe('/');
+  });
+});
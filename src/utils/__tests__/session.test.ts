@@ -0,0 +1,172 @@
+import { NextApiRequest } from 'next';
+import prisma from '@/config/database';
+import { hashToken } from '../auth';
+import { resumeSession, rotateRefreshToken, startSession } from '../session';
+
+interface SessionRow {
+  id: string;
+  user_id: number;
+  revoked_at: Date | null;
+  last_seen_at: Date;
+  ip: string | null;
+}
+
+interface RefreshTokenRow {
+  id: number;
+  user_id: number;
+  session_id: string;
+  token_hash: string;
+  expires_at: Date;
+  revoked_at: Date | null;
+  replaced_by: number | null;
+}
+
+interface Tables {
+  sessions: SessionRow[];
+  refreshTokens: RefreshTokenRow[];
+}
+
+type Where = Record<string, unknown>;
+
+// Движка Prisma в тестах нет: сессии и refresh-токены хранятся в памяти
+jest.mock('@/config/database', () => {
+  const tables: Tables = { sessions: [], refreshTokens: [] };
+
+  const matches = (row: object, where: Where) =>
+    Object.entries(where).every(([field, value]) => value === undefined || (row as Where)[field] === value);
+
+  const updateMany = <T extends object>(rows: T[]) => async ({ where, data }: { where: Where; data: Partial<T> }) => {
+    const matched = rows.filter(row => matches(row, where));
+    matched.forEach(row => Object.assign(row, data));
+    return { count: matched.length };
+  };
+
+  const withSession = (token: RefreshTokenRow) => {
+    const session = tables.sessions.find(row => row.id === token.session_id)!;
+    return { ...token, session: { ...session, user: { role: 'USER' } } };
+  };
+
+  const prisma = {
+    tables,
+    session: {
+      create: async ({ data }: { data: Partial<SessionRow> }) => {
+        const session = { id: `session-${tables.sessions.length + 1}`, revoked_at: null, last_seen_at: new Date(), ip: null, user_id: 0, ...data };
+        tables.sessions.push(session);
+        return session;
+      },
+      update: async ({ where, data }: { where: { id: string }; data: Partial<SessionRow> }) =>
+        Object.assign(tables.sessions.find(row => row.id === where.id)!, data),
+      updateMany: updateMany(tables.sessions)
+    },
+    refreshToken: {
+      findUnique: async ({ where }: { where: { token_hash: string } }) => {
+        const token = tables.refreshTokens.find(row => row.token_hash === where.token_hash);
+        return token ? withSession(token) : null;
+      },
+      create: async ({ data }: { data: Omit<RefreshTokenRow, 'id' | 'revoked_at' | 'replaced_by'> }) => {
+        const token = { id: tables.refreshTokens.length + 1, revoked_at: null, replaced_by: null, ...data };
+        tables.refreshTokens.push(token);
+        return token;
+      },
+      updateMany: updateMany(tables.refreshTokens)
+    },
+    $transaction: (operations: unknown) =>
+      typeof operations === 'function' ? operations(prisma) : Promise.all(operations as Promise<unknown>[])
+  };
+
+  return { __esModule: true, prisma, default: prisma };
+});
+
+const { tables } = prisma as unknown as { tables: Tables };
+
+process.env.JWT_SECRET = 'test-secret-that-is-long-enough-for-hs256';
+
+const req = { headers: {}, socket: { remoteAddress: '127.0.0.1' } } as unknown as NextApiRequest;
+
+const findToken = (token: string) => tables.refreshTokens.find(row => row.token_hash === hashToken(token))!;
+
+describe('rotateRefreshToken', () => {
+  let refreshToken: string;
+
+  beforeEach(async () => {
+    tables.sessions.splice(0);
+    tables.refreshTokens.splice(0);
+    ({ refreshToken } = await startSession({ id: 1, role: 'USER' }, req));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('заменяет токен новым в той же сессии', async () => {
+    const rotated = await rotateRefreshToken(refreshToken, req);
+
+    expect(rotated).toMatchObject({ userId: 1, sessionId: 'session-1' });
+    expect(rotated!.refreshToken).not.toBe(refreshToken);
+    expect(findToken(refreshToken)).toMatchObject({ replaced_by: findToken(rotated!.refreshToken).id });
+    expect(findToken(refreshToken).revoked_at).not.toBeNull();
+  });
+
+  it('выдает новую пару при повторном обновлении только что замененного токена', async () => {
+    const first = await rotateRefreshToken(refreshToken, req);
+    const second = await rotateRefreshToken(refreshToken, req);
+
+    expect(second).toMatchObject({ userId: 1, sessionId: 'session-1' });
+    expect(second!.refreshToken).not.toBe(first!.refreshToken);
+    expect(tables.sessions[0].revoked_at).toBeNull();
+    expect(findToken(first!.refreshToken).revoked_at).toBeNull();
+  });
+
+  it('не отзывает сессию при одновременном обновлении одного токена', async () => {
+    const results = await Promise.all([rotateRefreshToken(refreshToken, req), rotateRefreshToken(refreshToken, req)]);
+
+    expect(results.every(Boolean)).toBe(true);
+    expect(tables.sessions[0].revoked_at).toBeNull();
+    expect(results.map(result => findToken(result!.refreshToken).revoked_at)).toEqual([null, null]);
+  });
+
+  it('отзывает сессию, если замененный токен использован после льготного периода', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const rotated = await rotateRefreshToken(refreshToken, req);
+    findToken(refreshToken).revoked_at = new Date(Date.now() - 60 * 1000);
+
+    expect(await rotateRefreshToken(refreshToken, req)).toBeNull();
+    expect(tables.sessions[0].revoked_at).not.toBeNull();
+    expect(findToken(rotated!.refreshToken).revoked_at).not.toBeNull();
+    expect(warn).toHaveBeenCalled();
+  });
+
+  it('не обновляет токен завершенной сессии и истекший токен', async () => {
+    await prisma.session.updateMany({ where: { id: 'session-1' }, data: { revoked_at: new Date() } });
+    expect(await rotateRefreshToken(refreshToken, req)).toBeNull();
+
+    tables.sessions[0].revoked_at = null;
+    findToken(refreshToken).expires_at = new Date(Date.now() - 1000);
+    expect(await rotateRefreshToken(refreshToken, req)).toBeNull();
+  });
+});
+
+describe('resumeSession', () => {
+  beforeEach(() => {
+    tables.sessions.splice(0);
+    tables.refreshTokens.splice(0);
+  });
+
+  it('выдает access-токен, не заменяя refresh-токен', async () => {
+    const { refreshToken } = await startSession({ id: 1, role: 'USER' }, req);
+
+    const resumed = await resumeSession(refreshToken, req);
+
+    expect(resumed).toMatchObject({ userId: 1, sessionId: 'session-1' });
+    expect(resumed!.token).toEqual(expect.any(String));
+    expect(tables.refreshTokens).toHaveLength(1);
+    expect(findToken(refreshToken).revoked_at).toBeNull();
+  });
+
+  it('не продлевает сессию по замененному токену', async () => {
+    const { refreshToken } = await startSession({ id: 1, role: 'USER' }, req);
+    await rotateRefreshToken(refreshToken, req);
+
+    expect(await resumeSession(refreshToken, req)).toBeNull();
+  });
+});
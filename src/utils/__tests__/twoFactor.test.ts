@@ -0,0 +1,135 @@
+import prisma from '@/config/database';
+import { regenerateBackupCodes, verifySecondFactor, verifyTotp } from '../twoFactor';
+
+interface BackupCodeRow {
+  user_id: number;
+  code_hash: string;
+  used_at: Date | null;
+}
+
+interface UserRow {
+  id: number;
+  totp_last_step: number | null;
+}
+
+// Движка Prisma в тестах нет: резервные коды и шаг TOTP хранятся в памяти
+jest.mock('@/config/database', () => {
+  const backupCodes: BackupCodeRow[] = [];
+  const users: UserRow[] = [];
+
+  const prisma = {
+    backupCodes,
+    users,
+    twoFactorBackupCode: {
+      deleteMany: async ({ where }: { where: { user_id: number } }) => {
+        const kept = backupCodes.filter(row => row.user_id !== where.user_id);
+        const count = backupCodes.length - kept.length;
+        backupCodes.splice(0, backupCodes.length, ...kept);
+        return { count };
+      },
+      createMany: async ({ data }: { data: Omit<BackupCodeRow, 'used_at'>[] }) => {
+        backupCodes.push(...data.map(row => ({ ...row, used_at: null })));
+        return { count: data.length };
+      },
+      updateMany: async ({ where, data }: { where: Omit<BackupCodeRow, 'used_at'> & { used_at: null }; data: { used_at: Date } }) => {
+        const matched = backupCodes.filter(row =>
+          row.user_id === where.user_id && row.code_hash === where.code_hash && row.used_at === null
+        );
+        matched.forEach(row => Object.assign(row, data));
+        return { count: matched.length };
+      }
+    },
+    user: {
+      updateMany: async ({ where, data }: { where: { id: number }; data: { totp_last_step: number } }) => {
+        const matched = users.filter(row =>
+          row.id === where.id && (row.totp_last_step === null || row.totp_last_step < data.totp_last_step)
+        );
+        matched.forEach(row => Object.assign(row, data));
+        return { count: matched.length };
+      }
+    },
+    $transaction: (operations: Promise<unknown>[]) => Promise.all(operations)
+  };
+
+  return { __esModule: true, prisma, default: prisma };
+});
+
+const { backupCodes, users } = prisma as unknown as { backupCodes: BackupCodeRow[]; users: UserRow[] };
+
+// Секрет и коды из тестовых векторов RFC 6238 (SHA-1), усеченные до шести цифр
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const VECTORS = [
+  { time: 59, step: 1, code: '287082' },
+  { time: 1111111109, step: 37037036, code: '081804' },
+  { time: 2000000000, step: 66666666, code: '279037' }
+];
+
+const setTime = (seconds: number) => {
+  jest.useFakeTimers({ now: seconds * 1000, doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'queueMicrotask'] });
+};
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('verifyTotp', () => {
+  it('принимает коды тестовых векторов RFC 6238', () => {
+    for (const { time, step, code } of VECTORS) {
+      setTime(time);
+      expect(verifyTotp(SECRET, code)).toBe(step);
+    }
+  });
+
+  it('допускает расхождение часов на один шаг', () => {
+    setTime(59 + 30);
+    expect(verifyTotp(SECRET, '287082')).toBe(1);
+
+    setTime(59 + 60);
+    expect(verifyTotp(SECRET, '287082')).toBeNull();
+  });
+
+  it('не принимает код уже использованного шага и коды неверного формата', () => {
+    setTime(59);
+
+    expect(verifyTotp(SECRET, '287082', 1)).toBeNull();
+    expect(verifyTotp(SECRET, '287 082')).toBe(1);
+    expect(verifyTotp(SECRET, '28708')).toBeNull();
+    expect(verifyTotp(SECRET, 'abcdef')).toBeNull();
+  });
+});
+
+describe('verifySecondFactor', () => {
+  beforeEach(() => {
+    backupCodes.splice(0);
+    users.splice(0, users.length, { id: 1, totp_last_step: null });
+  });
+
+  it('запоминает шаг TOTP и не принимает тот же код повторно', async () => {
+    setTime(59);
+    const user = { id: 1, totp_secret: SECRET, totp_last_step: null };
+
+    expect(await verifySecondFactor(user, '287082')).toBe(true);
+    expect(users[0].totp_last_step).toBe(1);
+    // Параллельный запрос с тем же кодом прочитал пользователя до записи шага
+    expect(await verifySecondFactor(user, '287082')).toBe(false);
+  });
+
+  it('принимает каждый резервный код один раз в любом написании', async () => {
+    const user = { id: 1, totp_secret: SECRET, totp_last_step: null };
+    const [code, other] = await regenerateBackupCodes(1);
+
+    expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+    expect(await verifySecondFactor(user, code.toUpperCase().replace('-', ' '))).toBe(true);
+    expect(await verifySecondFactor(user, code)).toBe(false);
+    expect(await verifySecondFactor(user, other)).toBe(true);
+  });
+
+  it('отзывает прежние резервные коды при выдаче новых', async () => {
+    const user = { id: 1, totp_secret: null, totp_last_step: null };
+    const [oldCode] = await regenerateBackupCodes(1);
+    await regenerateBackupCodes(1);
+
+    expect(backupCodes).toHaveLength(10);
+    expect(await verifySecondFactor(user, oldCode)).toBe(false);
+  });
+});
@@ -0,0 +1,117 @@
+import fs from 'fs';
+import path from 'path';
+import prisma from '../config/database';
+import { generateOpaqueToken, hashToken } from './auth';
+import { revokeUserSessions } from './session';
+import { removeUserExportFiles } from './dataExport';
+
+export const ACCOUNT_DELETION_GRACE_PERIOD = 14 * 24 * 60 * 60 * 1000; // 14 дней
+const PURGE_BATCH_SIZE = 50;
+
+// Ставит аккаунт в очередь на удаление: сессии и API-токены отзываются сразу,
+// а данные удаляются плановой задачей после льготного периода. Возвращает токен ссылки отмены
+export const scheduleAccountDeletion = async (userId: number): Promise<{ token: string; scheduledAt: Date }> => {
+  const token = generateOpaqueToken();
+  const scheduledAt = new Date(Date.now() + ACCOUNT_DELETION_GRACE_PERIOD);
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        deletion_scheduled_at: scheduledAt,
+        deletion_token_hash: hashToken(token)
+      }
+    }),
+    prisma.apiToken.updateMany({
+      where: { user_id: userId, revoked_at: null },
+      data: { revoked_at: new Date() }
+    }),
+    prisma.verificationCode.deleteMany({ where: { user_id: userId } })
+  ]);
+  await revokeUserSessions(userId);
+
+  return { token, scheduledAt };
+};
+
+// Отменяет удаление по ссылке из письма, пока льготный период не истек
+export const cancelAccountDeletion = async (token: string): Promise<boolean> => {
+  const { count } = await prisma.user.updateMany({
+    where: {
+      deletion_token_hash: hashToken(token),
+      deletion_scheduled_at: { gt: new Date() }
+    },
+    data: {
+      deletion_scheduled_at: null,
+      deletion_token_hash: null
+    }
+  });
+
+  return count > 0;
+};
+
+const removeAvatarFile = async (avatarId: string | null) => {
+  if (!avatarId) return;
+
+  try {
+    await fs.promises.unlink(path.join(process.cwd(), 'public/uploads', path.basename(avatarId)));
+  } catch (error) {
+    // Файл мог быть удален раньше — это не мешает удалению аккаунта
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Avatar removal error:', error);
+    }
+  }
+};
+
+// Окончательно удаляет персональные данные пользователя. История просмотров не удаляется,
+// а обезличивается, поэтому Media.views и агрегированная статистика остаются согласованными
+const purgeAccount = async (userId: number): Promise<void> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { avatar_id: true }
+  });
+
+  if (!user) return;
+
+  await removeUserExportFiles(userId);
+
+  await prisma.$transaction([
+    prisma.viewingHistory.updateMany({ where: { user_id: userId }, data: { user_id: null } }),
+    prisma.favorites.deleteMany({ where: { user_id: userId } }),
+    prisma.watchlist.deleteMany({ where: { user_id: userId } }),
+    prisma.userProfile.deleteMany({ where: { user_id: userId } }),
+    prisma.userSettings.deleteMany({ where: { user_id: userId } }),
+    // Сессии, токены, коды 2FA и подтверждений удаляются каскадно вместе с пользователем
+    prisma.user.delete({ where: { id: userId } })
+  ]);
+
+  await removeAvatarFile(user.avatar_id);
+};
+
+// Удаляет аккаунты с истекшим льготным периодом; возвращает количество удаленных.
+// Ошибка одного аккаунта не останавливает остальные: он пропускается до следующего запуска
+export const purgeScheduledAccounts = async (): Promise<number> => {
+  let purged = 0;
+  const failedIds: number[] = [];
+
+  for (;;) {
+    const users = await prisma.user.findMany({
+      where: { deletion_scheduled_at: { lte: new Date() }, id: { notIn: failedIds } },
+      select: { id: true },
+      take: PURGE_BATCH_SIZE
+    });
+
+    if (!users.length) {
+      return purged;
+    }
+
+    for (const { id } of users) {
+      try {
+        await purgeAccount(id);
+        purged++;
+      } catch (error) {
+        console.error(`Account purge error for user ${id}:`, error);
+        failedIds.push(id);
+      }
+    }
+  }
+};
@@ -0,0 +1,99 @@
+// Имена cookie и заголовка общие для клиента и API-маршрутов
+export const ACCESS_TOKEN_COOKIE = 'access_token';
+export const REFRESH_TOKEN_COOKIE = 'refresh_token';
+export const CSRF_COOKIE = 'csrf_token';
+export const CSRF_HEADER = 'x-csrf-token';
+
+export const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Токены, сохраненные старыми версиями клиента до перехода на cookie
+const LEGACY_TOKEN_KEY = 'token';
+const LEGACY_REFRESH_TOKEN_KEY = 'refreshToken';
+
+export const getCsrfToken = (): string | null => {
+  if (typeof document === 'undefined') {
+    return null;
+  }
+
+  const match = document.cookie.split('; ').find(row => row.startsWith(`${CSRF_COOKIE}=`));
+  return match ? decodeURIComponent(match.slice(CSRF_COOKIE.length + 1)) : null;
+};
+
+export const getLegacyRefreshToken = (): string | null => {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  return localStorage.getItem(LEGACY_REFRESH_TOKEN_KEY);
+};
+
+export const clearLegacyTokens = () => {
+  if (typeof window !== 'undefined') {
+    localStorage.removeItem(LEGACY_TOKEN_KEY);
+    localStorage.removeItem(LEGACY_REFRESH_TOKEN_KEY);
+  }
+};
+
+// Сами токены недоступны из JS (httpOnly), поэтому о наличии сессии судим по CSRF-cookie,
+// которая выдается вместе с ними. Старый refresh-токен из localStorage тоже считается сессией
+export const hasSession = (): boolean => {
+  return Boolean(getCsrfToken() || getLegacyRefreshToken());
+};
+
+let refreshPromise: Promise<boolean> | null = null;
+
+// Продлевает сессию по refresh-cookie. Параллельные вызовы ждут один общий запрос.
+// Старый refresh-токен из localStorage обменивается на cookie и удаляется
+export const refreshSession = (): Promise<boolean> => {
+  if (!refreshPromise) {
+    const legacyRefreshToken = getLegacyRefreshToken();
+
+    refreshPromise = apiFetch('/api/auth/refresh', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(legacyRefreshToken ? { refreshToken: legacyRefreshToken } : {})
+    })
+      .then(res => {
+        if (legacyRefreshToken || res.status === 401) {
+          clearLegacyTokens();
+        }
+        return res.ok;
+      })
+      .catch(error => {
+        console.error('Ошибка обновления сессии:', error);
+        return false;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+
+  return refreshPromise;
+};
+
+const isAuthRoute = (input: RequestInfo | URL): boolean => {
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.pathname : input.url;
+  return url.includes('/api/auth/');
+};
+
+// fetch для API приложения: отправляет cookie сессии, добавляет CSRF-токен к изменяющим запросам
+// и один раз повторяет запрос после продления сессии, если access-токен истек
+export const apiFetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+  const method = (init.method || 'GET').toUpperCase();
+
+  const send = () => {
+    const headers = new Headers(init.headers);
+    const csrfToken = getCsrfToken();
+    if (csrfToken && !SAFE_METHODS.includes(method)) {
+      headers.set(CSRF_HEADER, csrfToken);
+    }
+    return fetch(input, { credentials: 'same-origin', ...init, headers });
+  };
+
+  const response = await send();
+
+  if (response.status === 401 && !isAuthRoute(input) && hasSession() && await refreshSession()) {
+    return send();
+  }
+
+  return response;
+};
@@ -0,0 +1,60 @@
+import crypto from 'crypto';
+import prisma from '../config/database';
+import { hashToken } from './auth';
+
+// Префикс отличает API-токены от JWT в заголовке Authorization и упрощает поиск утечек
+export const API_TOKEN_PREFIX = 'mat_';
+export const MAX_API_TOKENS_PER_USER = 20;
+const LAST_USED_INTERVAL = 60 * 1000; // last_used_at обновляется не чаще раза в минуту
+
+export const isApiToken = (token: string): boolean => {
+  return token.startsWith(API_TOKEN_PREFIX);
+};
+
+// Токен показывается пользователю один раз при создании; в БД хранятся хеш и начало для узнавания
+export const generateApiToken = (): { token: string; tokenHash: string; tokenPrefix: string } => {
+  const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  return {
+    token,
+    tokenHash: hashToken(token),
+    tokenPrefix: token.slice(0, API_TOKEN_PREFIX.length + 6)
+  };
+};
+
+// Находит действующий (не отозванный и не истекший) токен вместе с владельцем
+export const findActiveApiToken = async (token: string) => {
+  const stored = await prisma.apiToken.findUnique({
+    where: { token_hash: hashToken(token) },
+    include: {
+      user: {
+        select: {
+          id: true,
+          role: true,
+          is_blocked: true,
+          blocked_reason: true,
+          blocked_until: true
+        }
+      }
+    }
+  });
+
+  if (!stored || stored.revoked_at || (stored.expires_at && stored.expires_at <= new Date())) {
+    return null;
+  }
+
+  return stored;
+};
+
+export const touchApiToken = async (
+  apiToken: { id: number; last_used_at: Date | null },
+  ip?: string
+): Promise<void> => {
+  if (apiToken.last_used_at && Date.now() - apiToken.last_used_at.getTime() < LAST_USED_INTERVAL) {
+    return;
+  }
+
+  await prisma.apiToken.update({
+    where: { id: apiToken.id },
+    data: { last_used_at: new Date(), ...(ip && { last_used_ip: ip }) }
+  });
+};
@@ -1,5 +1,8 @@
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
+import type { UserRole } from '@prisma/client';
+import { findVerificationKey, getSigningKey } from './jwtKeys';
 
 export const hashPassword = async (password: string): Promise<string> => {
   const salt = await bcrypt.genSalt(10);
@@ -10,20 +13,75 @@ export const comparePassword = async (password: string, hash: string): Promise<b
   return bcrypt.compare(password, hash);
 };
 
+// Случайный одноразовый токен для ссылок и refresh-токенов; в БД хранится только его хеш
+export const generateOpaqueToken = (): string => {
+  return crypto.randomBytes(48).toString('base64url');
+};
+
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+export const VERIFICATION_CODE_LENGTH = 6;
+export const MAX_VERIFICATION_ATTEMPTS = 5;
+
 export const generateVerificationCode = (): string => {
-  return Math.floor(1000 + Math.random() * 9000).toString();
+  return crypto.randomInt(0, Math.pow(10, VERIFICATION_CODE_LENGTH)).toString().padStart(VERIFICATION_CODE_LENGTH, '0');
 };
 
-export const generateToken = (userId: number): string => {
-  return jwt.sign({ userId }, process.env.JWT_SECRET || 'secret', {
-    expiresIn: '7d',
-  });
+// Короткоживущий access-токен, продлевается через /api/auth/refresh
+export const ACCESS_TOKEN_TTL = '15m';
+
+// role дублируется в токене для middleware, которое не обращается к БД;
+// API-маршруты по-прежнему берут роль из БД через requireAuth
+export interface TokenPayload {
+  userId: number;
+  sid?: string;
+  role?: UserRole;
+  exp?: number;
+}
+
+// Подпись активным ключом набора; kid в заголовке указывает, каким ключом проверять токен
+const signJwt = (payload: object, expiresIn: jwt.SignOptions['expiresIn']): string => {
+  const key = getSigningKey();
+  return jwt.sign(payload, key.secret, { algorithm: 'HS256', keyid: key.kid, expiresIn });
 };
 
-export const verifyToken = (token: string): { userId: number } | null => {
+const verifyJwt = <T>(token: string): T | null => {
   try {
-    return jwt.verify(token, process.env.JWT_SECRET || 'secret') as { userId: number };
+    const decoded = jwt.decode(token, { complete: true });
+    const key = decoded && findVerificationKey(decoded.header.kid);
+    if (!key) {
+      return null;
+    }
+    return jwt.verify(token, key.secret, { algorithms: ['HS256'] }) as T;
   } catch {
     return null;
   }
-};
\ No newline at end of file
+};
+
+export const generateToken = (userId: number, sessionId: string, role: UserRole): string => {
+  return signJwt({ userId, sid: sessionId, role }, ACCESS_TOKEN_TTL);
+};
+
+export const verifyToken = (token: string): TokenPayload | null => {
+  return verifyJwt<TokenPayload>(token);
+};
+
+// Промежуточный токен между вводом пароля и кодом второго фактора.
+// Не содержит sid, поэтому requireAuth его не примет
+const TWO_FACTOR_CHALLENGE_TTL = '5m';
+
+interface ChallengePayload {
+  userId: number;
+  purpose: 'two_factor';
+}
+
+export const generateChallengeToken = (userId: number): string => {
+  return signJwt({ userId, purpose: 'two_factor' }, TWO_FACTOR_CHALLENGE_TTL);
+};
+
+export const verifyChallengeToken = (token: string): number | null => {
+  const payload = verifyJwt<ChallengePayload>(token);
+  return payload?.purpose === 'two_factor' && typeof payload.userId === 'number' ? payload.userId : null;
+};
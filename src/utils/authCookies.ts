@@ -0,0 +1,130 @@
+import crypto from 'crypto';
+import { NextApiRequest, NextApiResponse } from 'next';
+import {
+  ACCESS_TOKEN_COOKIE,
+  CSRF_COOKIE,
+  CSRF_HEADER,
+  REFRESH_TOKEN_COOKIE,
+  SAFE_METHODS
+} from './apiFetch';
+
+const ACCESS_COOKIE_MAX_AGE = 15 * 60; // секунд, совпадает с ACCESS_TOKEN_TTL
+const REFRESH_COOKIE_MAX_AGE = 30 * 24 * 60 * 60; // секунд, совпадает со сроком refresh-токена
+
+interface CookieOptions {
+  maxAge: number;
+  httpOnly?: boolean;
+  sameSite: 'Strict' | 'Lax';
+  path?: string;
+}
+
+interface SessionTokens {
+  token: string;
+  refreshToken: string;
+}
+
+// Переходный период: пока LEGACY_BEARER_AUTH не выключен, API принимает заголовок Authorization
+// и возвращает токены в теле ответа для клиентов, еще не перешедших на cookie
+export const isLegacyBearerEnabled = (): boolean => {
+  return process.env.LEGACY_BEARER_AUTH !== 'false';
+};
+
+const serializeCookie = (name: string, value: string, options: CookieOptions): string => {
+  const parts = [
+    `${name}=${encodeURIComponent(value)}`,
+    `Path=${options.path || '/'}`,
+    `Max-Age=${options.maxAge}`,
+    `SameSite=${options.sameSite}`
+  ];
+
+  if (options.maxAge <= 0) {
+    parts.push('Expires=Thu, 01 Jan 1970 00:00:00 GMT');
+  }
+  if (options.httpOnly) {
+    parts.push('HttpOnly');
+  }
+  if (process.env.NODE_ENV === 'production') {
+    parts.push('Secure');
+  }
+
+  return parts.join('; ');
+};
+
+// Refresh-cookie уходит только на /api/auth, access-cookie — на все запросы.
+// CSRF-cookie доступна из JS: клиент копирует ее в заголовок (double submit).
+// При входе CSRF-токен выдается заново, при продлении сессии сохраняется прежний
+export const setAuthCookies = (
+  req: NextApiRequest,
+  res: NextApiResponse,
+  tokens: SessionTokens,
+  rotateCsrf = true
+) => {
+  const csrfToken = (!rotateCsrf && req.cookies[CSRF_COOKIE]) || crypto.randomBytes(32).toString('hex');
+
+  res.setHeader('Set-Cookie', [
+    serializeCookie(ACCESS_TOKEN_COOKIE, tokens.token, {
+      maxAge: ACCESS_COOKIE_MAX_AGE,
+      httpOnly: true,
+      sameSite: 'Lax'
+    }),
+    serializeCookie(REFRESH_TOKEN_COOKIE, tokens.refreshToken, {
+      maxAge: REFRESH_COOKIE_MAX_AGE,
+      httpOnly: true,
+      sameSite: 'Strict',
+      path: '/api/auth'
+    }),
+    serializeCookie(CSRF_COOKIE, csrfToken, {
+      maxAge: REFRESH_COOKIE_MAX_AGE,
+      sameSite: 'Lax'
+    })
+  ]);
+};
+
+// Продление без ротации refresh-токена: обновляется только access-cookie
+export const setAccessCookie = (res: NextApiResponse, token: string) => {
+  res.setHeader('Set-Cookie', serializeCookie(ACCESS_TOKEN_COOKIE, token, {
+    maxAge: ACCESS_COOKIE_MAX_AGE,
+    httpOnly: true,
+    sameSite: 'Lax'
+  }));
+};
+
+export const clearAuthCookies = (res: NextApiResponse) => {
+  res.setHeader('Set-Cookie', [
+    serializeCookie(ACCESS_TOKEN_COOKIE, '', { maxAge: 0, httpOnly: true, sameSite: 'Lax' }),
+    serializeCookie(REFRESH_TOKEN_COOKIE, '', { maxAge: 0, httpOnly: true, sameSite: 'Strict', path: '/api/auth' }),
+    serializeCookie(CSRF_COOKIE, '', { maxAge: 0, sameSite: 'Lax' })
+  ]);
+};
+
+// Токены в теле ответа нужны только клиентам на Bearer-схеме
+export const getLegacyTokenBody = (tokens: SessionTokens): Partial<SessionTokens> => {
+  return isLegacyBearerEnabled() ? tokens : {};
+};
+
+// Выдает cookie новой сессии и формирует тело ответа для входа
+export const sendSession = (
+  req: NextApiRequest,
+  res: NextApiResponse,
+  tokens: SessionTokens,
+  body: Record<string, unknown> = {}
+) => {
+  setAuthCookies(req, res, tokens);
+  return res.status(200).json({ ...getLegacyTokenBody(tokens), ...body });
+};
+
+// Изменяющий запрос с cookie-сессией должен повторить CSRF-cookie в заголовке
+export const isCsrfValid = (req: NextApiRequest): boolean => {
+  if (SAFE_METHODS.includes((req.method || 'GET').toUpperCase())) {
+    return true;
+  }
+
+  const cookieToken = req.cookies[CSRF_COOKIE];
+  const headerToken = req.headers[CSRF_HEADER];
+
+  if (!cookieToken || typeof headerToken !== 'string' || cookieToken.length !== headerToken.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(Buffer.from(cookieToken), Buffer.from(headerToken));
+};
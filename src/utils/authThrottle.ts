@@ -0,0 +1,115 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '../config/database';
+
+export interface ThrottleKey {
+  key: string;
+  maxAttempts: number;
+}
+
+const BASE_LOCKOUT = 30 * 1000; // 30 секунд
+const MAX_LOCKOUT = 60 * 60 * 1000; // 1 час
+const FAILURE_WINDOW = 24 * 60 * 60 * 1000; // счетчик неудач сбрасывается через сутки без ошибок
+
+const MAX_ATTEMPTS_PER_EMAIL = 5;
+const MAX_ATTEMPTS_PER_IP = 20;
+
+// IPv4-адрес в IPv6-сокете приходит как ::ffff:127.0.0.1
+const normalizeIp = (ip: string): string => ip.trim().replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/, '');
+
+// Адреса обратных прокси через запятую (TRUSTED_PROXIES). Без них X-Forwarded-For не читается:
+// заголовок задает сам клиент, и подменой адреса можно обойти блокировку по IP
+const getTrustedProxies = (): string[] =>
+  (process.env.TRUSTED_PROXIES || '').split(',').map(normalizeIp).filter(Boolean);
+
+export const getClientIp = (req: NextApiRequest): string => {
+  const remoteAddress = req.socket.remoteAddress ? normalizeIp(req.socket.remoteAddress) : '';
+  const trustedProxies = getTrustedProxies();
+
+  if (!remoteAddress || !trustedProxies.includes(remoteAddress)) {
+    return remoteAddress || 'unknown';
+  }
+
+  // Каждый прокси дописывает адрес справа, поэтому клиент — первый справа адрес, который
+  // добавил не доверенный прокси; все, что левее, клиент мог подставить сам
+  const forwarded = req.headers['x-forwarded-for'];
+  const hops = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded || '')
+    .split(',')
+    .map(normalizeIp)
+    .filter(Boolean);
+
+  for (let i = hops.length - 1; i >= 0; i--) {
+    if (!trustedProxies.includes(hops[i])) {
+      return hops[i];
+    }
+  }
+
+  return hops[0] || remoteAddress;
+};
+
+// Ключи учета попыток для действия: отдельно по email и по IP-адресу
+export const getThrottleKeys = (action: string, req: NextApiRequest, email: string): ThrottleKey[] => [
+  { key: `${action}:email:${email.trim().toLowerCase()}`, maxAttempts: MAX_ATTEMPTS_PER_EMAIL },
+  { key: `${action}:ip:${getClientIp(req)}`, maxAttempts: MAX_ATTEMPTS_PER_IP }
+];
+
+// Возвращает количество секунд до снятия блокировки или null, если попытки разрешены
+export const checkThrottle = async (keys: ThrottleKey[]): Promise<number | null> => {
+  const records = await prisma.authThrottle.findMany({
+    where: {
+      key: { in: keys.map(({ key }) => key) },
+      locked_until: { gt: new Date() }
+    }
+  });
+
+  if (!records.length) {
+    return null;
+  }
+
+  const lockedUntil = Math.max(...records.map(record => record.locked_until!.getTime()));
+  return Math.ceil((lockedUntil - Date.now()) / 1000);
+};
+
+// Учитывает неудачную попытку. После maxAttempts неудач ключ блокируется,
+// и каждая следующая неудача удваивает время блокировки
+export const registerFailedAttempt = async (keys: ThrottleKey[]): Promise<void> => {
+  const now = new Date();
+
+  for (const { key, maxAttempts } of keys) {
+    const existing = await prisma.authThrottle.findUnique({ where: { key } });
+    const isStale = existing && now.getTime() - existing.last_failure.getTime() > FAILURE_WINDOW;
+
+    const record = await prisma.authThrottle.upsert({
+      where: { key },
+      create: { key, failures: 1, last_failure: now },
+      update: isStale
+        ? { failures: 1, locked_until: null, last_failure: now }
+        : { failures: { increment: 1 }, last_failure: now }
+    });
+
+    if (record.failures >= maxAttempts) {
+      const lockout = Math.min(BASE_LOCKOUT * Math.pow(2, record.failures - maxAttempts), MAX_LOCKOUT);
+      await prisma.authThrottle.update({
+        where: { key },
+        data: { locked_until: new Date(now.getTime() + lockout) }
+      });
+    }
+  }
+};
+
+export const resetThrottle = async (keys: ThrottleKey[]): Promise<void> => {
+  await prisma.authThrottle.deleteMany({
+    where: { key: { in: keys.map(({ key }) => key) } }
+  });
+};
+
+export const sendTooManyAttempts = (
+  res: NextApiResponse,
+  retryAfter: number,
+  message = `Слишком много попыток. Повторите через ${Math.ceil(retryAfter / 60)} мин.`
+) => {
+  res.setHeader('Retry-After', String(retryAfter));
+  return res.status(429).json({
+    error: message,
+    retryAfter
+  });
+};
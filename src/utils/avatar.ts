@@ -1,15 +1,13 @@
 import { User } from '@/types/user';
+import { apiFetch } from './apiFetch';
 
 export const uploadAvatar = async (file: File): Promise<{ avatar_id: string; avatar_url: string }> => {
   const formData = new FormData();
   formData.append('avatar', file);
 
   try {
-    const response = await fetch('/api/profile/avatar', {
+    const response = await apiFetch('/api/profile/avatar', {
       method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${localStorage.getItem('token')}`,
-      },
       body: formData,
     });
 
@@ -0,0 +1,12 @@
+import { NextApiRequest } from 'next';
+
+// Плановые задачи вызываются внешним планировщиком (cron, Vercel Cron) с заголовком
+// Authorization: Bearer <CRON_SECRET>
+export const isCronRequest = (req: NextApiRequest): boolean => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return false;
+  }
+
+  return req.headers.authorization === `Bearer ${secret}`;
+};
@@ -0,0 +1,347 @@
+import fs from 'fs';
+import path from 'path';
+import { DataExport } from '@prisma/client';
+import prisma from '../config/database';
+import { generateOpaqueToken, hashToken } from './auth';
+import { sendDataExportReadyEmail } from './email';
+import { createZip } from './zip';
+
+const EXPORT_LINK_TTL = 48 * 60 * 60 * 1000; // ссылка на архив действует 48 часов
+const EXPORT_COOLDOWN = 60 * 60 * 1000; // новый архив — не чаще раза в час
+const STALE_PROCESSING = 15 * 60 * 1000; // зависшая сборка перезапускается плановой задачей
+const NOTIFY_RETRY_DELAY = 5 * 60 * 1000; // неотправленное письмо о готовом архиве повторяется не раньше
+
+// Архивы хранятся вне public, отдаются только через маршрут скачивания
+const getExportDir = () => process.env.EXPORT_STORAGE_DIR || path.join(process.cwd(), 'storage', 'exports');
+const getExportPath = (exportId: string) => path.join(getExportDir(), `${exportId}.zip`);
+
+type CsvRow = Record<string, unknown>;
+
+const formatCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+
+  let text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Значения, похожие на формулы, экранируются, чтобы табличный редактор их не выполнил
+  if (/^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// BOM в начале файла нужен, чтобы Excel распознал UTF-8 и кириллицу
+const toCsv = (rows: CsvRow[], columns: string[]): string => {
+  const lines = [columns.join(','), ...rows.map(row => columns.map(column => formatCsvValue(row[column])).join(','))];
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+};
+
+const collectUserData = async (userId: number) => {
+  const mediaSelect = { select: { id: true, title: true, type: true } };
+
+  return prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      username: true,
+      nickname: true,
+      role: true,
+      is_verified: true,
+      avatar_url: true,
+      views_count: true,
+      favorites_count: true,
+      watchlist_count: true,
+      totp_enabled: true,
+      created_at: true,
+      updated_at: true,
+      settings: {
+        select: {
+          notification_email: true,
+          notification_web: true,
+          privacy_profile: true,
+          theme: true,
+          language: true
+        }
+      },
+      profile: {
+        select: { bio: true, location: true, website: true, social_links: true }
+      },
+      viewing_history: {
+        select: { watch_duration: true, created_at: true, media: mediaSelect },
+        orderBy: { created_at: 'desc' }
+      },
+      favorites: {
+        select: { created_at: true, media: mediaSelect },
+        orderBy: { created_at: 'desc' }
+      },
+      watchlist: {
+        select: { created_at: true, media: mediaSelect },
+        orderBy: { created_at: 'desc' }
+      },
+      sessions: {
+        select: {
+          id: true,
+          device: true,
+          user_agent: true,
+          ip: true,
+          created_at: true,
+          last_seen_at: true,
+          revoked_at: true
+        },
+        orderBy: { created_at: 'desc' }
+      },
+      api_tokens: {
+        select: {
+          name: true,
+          token_prefix: true,
+          scopes: true,
+          created_at: true,
+          expires_at: true,
+          last_used_at: true,
+          last_used_ip: true,
+          revoked_at: true
+        },
+        orderBy: { created_at: 'desc' }
+      }
+    }
+  });
+};
+
+type UserData = Awaited<ReturnType<typeof collectUserData>>;
+
+const mediaRows = (items: Array<{ created_at: Date; media: { id: number; title: string; type: string } }>) =>
+  items.map(item => ({
+    media_id: item.media.id,
+    title: item.media.title,
+    type: item.media.type,
+    added_at: item.created_at
+  }));
+
+// Один и тот же набор данных в двух видах: полный JSON и CSV-таблицы по разделам
+const buildArchive = (data: UserData, exportedAt: Date): Buffer => {
+  const { settings, profile, viewing_history, favorites, watchlist, sessions, api_tokens, ...account } = data;
+
+  const accountRows = [
+    ...Object.entries(account).map(([field, value]) => ({ field, value })),
+    ...Object.entries(settings || {}).map(([field, value]) => ({ field: `settings.${field}`, value })),
+    ...Object.entries(profile || {}).map(([field, value]) => ({ field: `profile.${field}`, value }))
+  ];
+
+  return createZip([
+    { name: 'data.json', content: JSON.stringify({ exported_at: exportedAt, ...data }, null, 2) },
+    { name: 'account.csv', content: toCsv(accountRows, ['field', 'value']) },
+    {
+      name: 'viewing_history.csv',
+      content: toCsv(
+        viewing_history.map(item => ({
+          media_id: item.media.id,
+          title: item.media.title,
+          type: item.media.type,
+          watch_duration: item.watch_duration,
+          watched_at: item.created_at
+        })),
+        ['media_id', 'title', 'type', 'watch_duration', 'watched_at']
+      )
+    },
+    { name: 'favorites.csv', content: toCsv(mediaRows(favorites), ['media_id', 'title', 'type', 'added_at']) },
+    { name: 'watchlist.csv', content: toCsv(mediaRows(watchlist), ['media_id', 'title', 'type', 'added_at']) },
+    {
+      name: 'sessions.csv',
+      content: toCsv(sessions, ['id', 'device', 'user_agent', 'ip', 'created_at', 'last_seen_at', 'revoked_at'])
+    },
+    {
+      name: 'api_tokens.csv',
+      content: toCsv(api_tokens, [
+        'name', 'token_prefix', 'scopes', 'created_at', 'expires_at', 'last_used_at', 'last_used_ip', 'revoked_at'
+      ])
+    }
+  ], exportedAt);
+};
+
+// Секунды до возможности запросить новый архив или null, если запрашивать можно
+export const getExportCooldown = async (userId: number): Promise<number | null> => {
+  const last = await prisma.dataExport.findFirst({
+    where: { user_id: userId, status: { not: 'FAILED' } },
+    orderBy: { created_at: 'desc' },
+    select: { created_at: true }
+  });
+
+  if (!last) return null;
+  const elapsed = Date.now() - last.created_at.getTime();
+  return elapsed < EXPORT_COOLDOWN ? Math.ceil((EXPORT_COOLDOWN - elapsed) / 1000) : null;
+};
+
+export const requestDataExport = async (userId: number): Promise<DataExport> => {
+  return prisma.dataExport.create({ data: { user_id: userId } });
+};
+
+// Собирает архив. Запись захватывается атомарно, поэтому параллельный запуск той же выгрузки
+// (из API и из плановой задачи) ничего не делает
+export const processDataExport = async (exportId: string): Promise<void> => {
+  const now = new Date();
+  const { count } = await prisma.dataExport.updateMany({
+    where: {
+      id: exportId,
+      OR: [
+        { status: 'PENDING' },
+        { status: 'PROCESSING', started_at: { lt: new Date(now.getTime() - STALE_PROCESSING) } }
+      ]
+    },
+    data: { status: 'PROCESSING', started_at: now }
+  });
+
+  if (count === 0) return;
+
+  const dataExport = await prisma.dataExport.findUniqueOrThrow({
+    where: { id: exportId },
+    include: { user: { select: { email: true } } }
+  });
+
+  const expiresAt = new Date(Date.now() + EXPORT_LINK_TTL);
+
+  try {
+    const archive = buildArchive(await collectUserData(dataExport.user_id), now);
+    await fs.promises.mkdir(getExportDir(), { recursive: true });
+    await fs.promises.writeFile(getExportPath(exportId), archive);
+
+    await prisma.dataExport.update({
+      where: { id: exportId },
+      data: {
+        status: 'READY',
+        file_size: archive.length,
+        expires_at: expiresAt,
+        completed_at: new Date()
+      }
+    });
+  } catch (error) {
+    console.error('Data export error:', error);
+    await prisma.dataExport.update({
+      where: { id: exportId },
+      data: {
+        status: 'FAILED',
+        error: error instanceof Error ? error.message : 'Неизвестная ошибка',
+        completed_at: new Date()
+      }
+    });
+    return;
+  }
+
+  // Архив готов и без письма: владелец видит его в профиле, а письмо повторит плановая задача
+  await notifyExportReady(exportId, dataExport.user.email, expiresAt);
+};
+
+// Ссылка выпускается заново при каждой отправке: в БД хранится только хеш токена
+const notifyExportReady = async (exportId: string, email: string, expiresAt: Date): Promise<boolean> => {
+  const token = generateOpaqueToken();
+
+  await prisma.dataExport.update({
+    where: { id: exportId },
+    data: { token_hash: hashToken(token) }
+  });
+
+  if (!(await sendDataExportReadyEmail(email, token, expiresAt))) {
+    console.error(`Data export ${exportId}: failed to send ready email`);
+    return false;
+  }
+
+  await prisma.dataExport.update({
+    where: { id: exportId },
+    data: { notified_at: new Date() }
+  });
+  return true;
+};
+
+// Плановая задача: собирает ожидающие архивы, повторяет неотправленные письма о готовых
+// и удаляет файлы с истекшими ссылками
+export const processPendingExports = async (): Promise<{ processed: number; notified: number; expired: number }> => {
+  const pending = await prisma.dataExport.findMany({
+    where: {
+      OR: [
+        { status: 'PENDING' },
+        { status: 'PROCESSING', started_at: { lt: new Date(Date.now() - STALE_PROCESSING) } }
+      ]
+    },
+    orderBy: { created_at: 'asc' },
+    select: { id: true }
+  });
+
+  for (const { id } of pending) {
+    await processDataExport(id);
+  }
+
+  // Задержка не дает задаче отправить второе письмо, пока сборка сама отправляет первое
+  const unnotified = await prisma.dataExport.findMany({
+    where: {
+      status: 'READY',
+      notified_at: null,
+      expires_at: { gt: new Date() },
+      completed_at: { lt: new Date(Date.now() - NOTIFY_RETRY_DELAY) }
+    },
+    select: { id: true, expires_at: true, user: { select: { email: true } } }
+  });
+
+  let notified = 0;
+  for (const { id, expires_at, user } of unnotified) {
+    if (expires_at && (await notifyExportReady(id, user.email, expires_at))) {
+      notified++;
+    }
+  }
+
+  const expiredExports = await prisma.dataExport.findMany({
+    where: { status: 'READY', expires_at: { lte: new Date() } },
+    select: { id: true }
+  });
+
+  for (const { id } of expiredExports) {
+    await removeExportFile(id);
+  }
+
+  const { count: expired } = await prisma.dataExport.updateMany({
+    where: { id: { in: expiredExports.map(({ id }) => id) } },
+    data: { status: 'EXPIRED', token_hash: null }
+  });
+
+  return { processed: pending.length, notified, expired };
+};
+
+// Архив доступен по токену из письма либо владельцу по идентификатору выгрузки
+export const findDownloadableExport = async (
+  query: { token: string } | { id: string; userId: number }
+): Promise<DataExport | null> => {
+  const dataExport = await prisma.dataExport.findFirst({
+    where: 'token' in query
+      ? { token_hash: hashToken(query.token) }
+      : { id: query.id, user_id: query.userId }
+  });
+
+  if (!dataExport || dataExport.status !== 'READY' || !dataExport.expires_at || dataExport.expires_at <= new Date()) {
+    return null;
+  }
+
+  return dataExport;
+};
+
+export const openExportFile = (exportId: string): fs.ReadStream => {
+  return fs.createReadStream(getExportPath(exportId));
+};
+
+const removeExportFile = async (exportId: string) => {
+  try {
+    await fs.promises.unlink(getExportPath(exportId));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Export file removal error:', error);
+    }
+  }
+};
+
+// Файлы архивов удаляются вместе с аккаунтом: записи о выгрузках удалит каскад
+export const removeUserExportFiles = async (userId: number): Promise<void> => {
+  const exports = await prisma.dataExport.findMany({
+    where: { user_id: userId },
+    select: { id: true }
+  });
+
+  for (const { id } of exports) {
+    await removeExportFile(id);
+  }
+};
@@ -0,0 +1,61 @@
+import type { TokenPayload } from './auth';
+import { findVerificationKey } from './jwtKeys';
+
+// Middleware выполняется в Edge Runtime, где нет jsonwebtoken и модуля crypto Node.js,
+// поэтому подпись access-токена проверяется через Web Crypto
+
+const decoder = new TextDecoder();
+const encoder = new TextEncoder();
+
+const base64UrlToBytes = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const decodeJson = <T>(segment: string): T => {
+  return JSON.parse(decoder.decode(base64UrlToBytes(segment))) as T;
+};
+
+// Возвращает полезную нагрузку действующего HS256-токена или null
+export const verifyAccessToken = async (token: string): Promise<TokenPayload | null> => {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) {
+    return null;
+  }
+
+  try {
+    const { alg, kid } = decodeJson<{ alg?: string; kid?: string }>(header);
+    const signingKey = findVerificationKey(kid);
+    if (alg !== 'HS256' || !signingKey) {
+      return null;
+    }
+
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(signingKey.secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['verify']
+    );
+
+    const isValid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      base64UrlToBytes(signature),
+      encoder.encode(`${header}.${payload}`)
+    );
+    if (!isValid) {
+      return null;
+    }
+
+    const claims = decodeJson<TokenPayload>(payload);
+    if (!claims.exp || claims.exp * 1000 <= Date.now()) {
+      return null;
+    }
+
+    return claims;
+  } catch {
+    return null;
+  }
+};
@@ -4,12 +4,15 @@ const transporter = nodemailer.createTransport({
   host: process.env.SMTP_HOST,
   port: parseInt(process.env.SMTP_PORT || '587'),
   secure: process.env.SMTP_SECURE === 'true',
-  auth: {
+  // Локальные SMTP-заглушки (MailHog, smtp4dev) работают без авторизации
+  auth: process.env.SMTP_USER ? {
     user: process.env.SMTP_USER,
     pass: process.env.SMTP_PASS,
-  },
+  } : undefined,
 });
 
+const getAppUrl = () => (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+
 export const sendVerificationEmail = async (email: string, code: string) => {
   try {
     await transporter.sendMail({
@@ -28,4 +31,113 @@ export const sendVerificationEmail = async (email: string, code: string) => {
     console.error('Error sending verification email:', error);
     return false;
   }
-};
\ No newline at end of file
+};
+
+export const sendPasswordResetEmail = async (email: string, token: string) => {
+  const resetUrl = `${getAppUrl()}/auth/reset/${token}`;
+
+  try {
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM,
+      to: email,
+      subject: 'Восстановление пароля',
+      html: `
+        <h1>Восстановление пароля в MediaApp</h1>
+        <p>Мы получили запрос на сброс пароля для вашего аккаунта.</p>
+        <p><a href="${resetUrl}" style="color: #4A90E2; font-size: 18px;">Задать новый пароль</a></p>
+        <p>Ссылка действительна в течение 1 часа и может быть использована только один раз.</p>
+        <p>Если вы не запрашивали восстановление пароля, просто проигнорируйте это письмо.</p>
+      `,
+    });
+    return true;
+  } catch (error) {
+    console.error('Error sending password reset email:', error);
+    return false;
+  }
+};
+export const sendEmailChangeCode = async (email: string, code: string) => {
+  try {
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM,
+      to: email,
+      subject: 'Подтверждение нового email',
+      html: `
+        <h1>Смена email в MediaApp</h1>
+        <p>Чтобы привязать этот адрес к аккаунту, введите код в настройках профиля:</p>
+        <h2 style="color: #4A90E2; font-size: 32px; letter-spacing: 4px;">${code}</h2>
+        <p>Код действителен в течение 30 минут.</p>
+        <p>Если вы не запрашивали смену email, просто проигнорируйте это письмо.</p>
+      `,
+    });
+    return true;
+  } catch (error) {
+    console.error('Error sending email change code:', error);
+    return false;
+  }
+};
+
+// Уведомление на прежний адрес: владелец узнает о попытке смены, даже если сессия была украдена
+export const sendEmailChangeNotice = async (email: string, newEmail: string) => {
+  try {
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM,
+      to: email,
+      subject: 'Запрошена смена email',
+      html: `
+        <h1>Смена email в MediaApp</h1>
+        <p>Для вашего аккаунта запрошена смена адреса на <b>${newEmail}</b>.</p>
+        <p>Адрес изменится только после подтверждения кодом, отправленным на новый email.</p>
+        <p>Если это были не вы, смените пароль и завершите другие сессии в настройках профиля.</p>
+      `,
+    });
+    return true;
+  } catch (error) {
+    console.error('Error sending email change notice:', error);
+    return false;
+  }
+};
+
+export const sendAccountDeletionEmail = async (email: string, token: string, scheduledAt: Date) => {
+  const restoreUrl = `${getAppUrl()}/auth/restore/${token}`;
+
+  try {
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM,
+      to: email,
+      subject: 'Удаление аккаунта',
+      html: `
+        <h1>Аккаунт MediaApp будет удален</h1>
+        <p>Мы получили запрос на удаление вашего аккаунта. Все персональные данные будут удалены ${scheduledAt.toLocaleDateString('ru-RU')}.</p>
+        <p>До этого момента удаление можно отменить:</p>
+        <p><a href="${restoreUrl}" style="color: #4A90E2; font-size: 18px;">Отменить удаление аккаунта</a></p>
+        <p>Если вы не запрашивали удаление, перейдите по ссылке и смените пароль.</p>
+      `,
+    });
+    return true;
+  } catch (error) {
+    console.error('Error sending account deletion email:', error);
+    return false;
+  }
+};
+
+export const sendDataExportReadyEmail = async (email: string, token: string, expiresAt: Date) => {
+  const downloadUrl = `${getAppUrl()}/api/profile/export/download?token=${encodeURIComponent(token)}`;
+
+  try {
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM,
+      to: email,
+      subject: 'Архив ваших данных готов',
+      html: `
+        <h1>Выгрузка данных MediaApp</h1>
+        <p>Архив с данными вашего аккаунта готов: профиль, настройки, история просмотров, избранное, список просмотра и сессии в форматах JSON и CSV.</p>
+        <p><a href="${downloadUrl}" style="color: #4A90E2; font-size: 18px;">Скачать архив</a></p>
+        <p>Ссылка действительна до ${expiresAt.toLocaleString('ru-RU')}. Не пересылайте ее другим людям.</p>
+      `,
+    });
+    return true;
+  } catch (error) {
+    console.error('Error sending data export email:', error);
+    return false;
+  }
+};
@@ -0,0 +1,74 @@
+import { VerificationCode } from '@prisma/client';
+import prisma from '../config/database';
+import { generateVerificationCode, hashToken, MAX_VERIFICATION_ATTEMPTS } from './auth';
+
+export const EMAIL_CHANGE_PURPOSE = 'email_change';
+const CODE_TTL = 30 * 60 * 1000; // 30 минут
+const RESEND_COOLDOWN = 60 * 1000; // не чаще одного письма в минуту
+
+export const isValidEmail = (email: string): boolean => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+
+// Текущий запрос на смену email, если он еще не истек
+export const getPendingEmailChange = async (userId: number): Promise<VerificationCode | null> => {
+  return prisma.verificationCode.findFirst({
+    where: {
+      user_id: userId,
+      purpose: EMAIL_CHANGE_PURPOSE,
+      expires_at: { gt: new Date() }
+    },
+    orderBy: { created_at: 'desc' }
+  });
+};
+
+// Секунды до возможности повторной отправки кода или null, если отправлять можно
+export const getEmailChangeCooldown = (pending: Pick<VerificationCode, 'created_at'> | null): number | null => {
+  if (!pending) return null;
+  const elapsed = Date.now() - pending.created_at.getTime();
+  return elapsed < RESEND_COOLDOWN ? Math.ceil((RESEND_COOLDOWN - elapsed) / 1000) : null;
+};
+
+// Заменяет прежний запрос новым; у пользователя одновременно действует только один код смены email
+export const createEmailChangeRequest = async (userId: number, newEmail: string): Promise<string> => {
+  const code = generateVerificationCode();
+
+  await prisma.$transaction([
+    prisma.verificationCode.deleteMany({
+      where: { user_id: userId, purpose: EMAIL_CHANGE_PURPOSE }
+    }),
+    prisma.verificationCode.create({
+      data: {
+        user_id: userId,
+        purpose: EMAIL_CHANGE_PURPOSE,
+        email: newEmail,
+        code_hash: hashToken(code),
+        expires_at: new Date(Date.now() + CODE_TTL)
+      }
+    })
+  ]);
+
+  return code;
+};
+
+export const cancelEmailChange = async (userId: number): Promise<void> => {
+  await prisma.verificationCode.deleteMany({
+    where: { user_id: userId, purpose: EMAIL_CHANGE_PURPOSE }
+  });
+};
+
+// Проверяет код и учитывает неудачную попытку; после исчерпания попыток запрос удаляется
+export const checkEmailChangeCode = async (pending: VerificationCode, code: string): Promise<boolean> => {
+  if (pending.code_hash === hashToken(code)) {
+    return true;
+  }
+
+  if (pending.attempts + 1 >= MAX_VERIFICATION_ATTEMPTS) {
+    await prisma.verificationCode.delete({ where: { id: pending.id } });
+  } else {
+    await prisma.verificationCode.update({
+      where: { id: pending.id },
+      data: { attempts: { increment: 1 } }
+    });
+  }
+
+  return false;
+};
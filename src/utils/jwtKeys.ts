@@ -0,0 +1,112 @@
+// Набор ключей подписи JWT. Модуль без зависимостей от Node.js: используется и в API,
+// и в middleware (Edge Runtime), и в CLI scripts/jwt-keys.ts.
+//
+// Ключи задаются переменной JWT_KEYS — JSON-массивом [{ kid, secret, expiresAt? }].
+// Первый ключ активный, им подписываются новые токены. Остальные — выведенные из оборота:
+// ими только проверяются ранее выданные токены до момента expiresAt.
+// Для совместимости JWT_SECRET без JWT_KEYS считается единственным ключом с kid LEGACY_KID
+
+export interface JwtKey {
+  kid: string;
+  secret: string;
+  expiresAt?: string;
+}
+
+// Токены, выданные до появления kid в заголовке, проверяются ключом с этим идентификатором
+export const LEGACY_KID = 'default';
+export const MIN_SECRET_LENGTH = 32;
+
+let cachedRing: JwtKey[] | null = null;
+
+const isExpired = (key: JwtKey, now = Date.now()): boolean => {
+  return Boolean(key.expiresAt && new Date(key.expiresAt).getTime() <= now);
+};
+
+// Разбирает и проверяет JWT_KEYS; при ошибке конфигурации бросает исключение
+export const parseKeyRing = (value: string): JwtKey[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error('JWT_KEYS должен быть JSON-массивом ключей');
+  }
+
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error('JWT_KEYS не содержит ни одного ключа');
+  }
+
+  const kids = new Set<string>();
+  const keys = parsed.map((item): JwtKey => {
+    const { kid, secret, expiresAt } = (item || {}) as Partial<JwtKey>;
+
+    if (typeof kid !== 'string' || !kid || kids.has(kid)) {
+      throw new Error('У каждого ключа JWT_KEYS должен быть уникальный kid');
+    }
+    if (typeof secret !== 'string' || !secret) {
+      throw new Error(`Не задан секрет ключа ${kid}`);
+    }
+    if (expiresAt !== undefined && (typeof expiresAt !== 'string' || isNaN(new Date(expiresAt).getTime()))) {
+      throw new Error(`Некорректный expiresAt у ключа ${kid}`);
+    }
+
+    kids.add(kid);
+    return { kid, secret, ...(expiresAt && { expiresAt }) };
+  });
+
+  // Требование к длине касается только активного ключа: выведенным из оборота может быть
+  // прежний JWT_SECRET, который еще нужен для проверки выданных им токенов
+  if (keys[0].expiresAt) {
+    throw new Error('Активный (первый) ключ JWT_KEYS не может иметь срок действия');
+  }
+  if (keys[0].secret.length < MIN_SECRET_LENGTH) {
+    throw new Error(`Секрет активного ключа должен быть не короче ${MIN_SECRET_LENGTH} символов`);
+  }
+
+  return keys;
+};
+
+// Короткий JWT_SECRET допускается только для CLI: ротация оставляет его лишь для проверки
+// уже выданных токенов, а подписывать новые приложение им не будет
+export const loadKeyRing = (
+  env: Record<string, string | undefined>,
+  { allowShortLegacySecret = false }: { allowShortLegacySecret?: boolean } = {}
+): JwtKey[] => {
+  if (env.JWT_KEYS) {
+    return parseKeyRing(env.JWT_KEYS);
+  }
+  if (env.JWT_SECRET) {
+    if (!allowShortLegacySecret && env.JWT_SECRET.length < MIN_SECRET_LENGTH) {
+      throw new Error(
+        `JWT_SECRET должен быть не короче ${MIN_SECRET_LENGTH} символов: выполните npm run jwt:keys -- rotate и задайте JWT_KEYS`
+      );
+    }
+    return [{ kid: LEGACY_KID, secret: env.JWT_SECRET }];
+  }
+  throw new Error('Не настроен ключ подписи JWT: задайте JWT_KEYS или JWT_SECRET');
+};
+
+export const getKeyRing = (): JwtKey[] => {
+  if (!cachedRing) {
+    cachedRing = loadKeyRing({ JWT_KEYS: process.env.JWT_KEYS, JWT_SECRET: process.env.JWT_SECRET });
+  }
+  return cachedRing;
+};
+
+export const getSigningKey = (): JwtKey => getKeyRing()[0];
+
+// Ключ для проверки токена по kid из заголовка; выведенный ключ после expiresAt не принимается
+export const findVerificationKey = (kid?: string): JwtKey | null => {
+  const key = getKeyRing().find(item => item.kid === (kid || LEGACY_KID));
+  return key && !isExpired(key) ? key : null;
+};
+
+// Новый набор после ротации: свежий ключ становится активным, прежний активный
+// остается для проверки до retireAt, уже истекшие ключи удаляются
+export const rotateKeyRing = (ring: JwtKey[], newKey: JwtKey, retireAt: Date): JwtKey[] => {
+  const now = Date.now();
+  const retired = ring
+    .filter(key => !isExpired(key, now))
+    .map(key => (key.expiresAt ? key : { ...key, expiresAt: retireAt.toISOString() }));
+
+  return [newKey, ...retired];
+};
@@ -0,0 +1,70 @@
+import prisma from '../config/database';
+import { generateOpaqueToken, hashToken, hashPassword } from './auth';
+import { revokeUserSessions } from './session';
+
+const RESET_TOKEN_TTL = 60 * 60 * 1000; // 1 час
+
+// Создает ссылку на сброс пароля, предыдущие неиспользованные ссылки аннулируются
+export const createPasswordResetToken = async (userId: number): Promise<string> => {
+  const token = generateOpaqueToken();
+
+  await prisma.$transaction([
+    prisma.passwordResetToken.updateMany({
+      where: { user_id: userId, used_at: null },
+      data: { used_at: new Date() }
+    }),
+    prisma.passwordResetToken.create({
+      data: {
+        user_id: userId,
+        token_hash: hashToken(token),
+        expires_at: new Date(Date.now() + RESET_TOKEN_TTL)
+      }
+    })
+  ]);
+
+  return token;
+};
+
+// Устанавливает новый пароль по одноразовому токену, завершает все сессии пользователя и отзывает
+// его API-токены: токен, выпущенный до сброса, мог создать тот, кто завладел аккаунтом
+export const resetPasswordWithToken = async (token: string, password: string): Promise<boolean> => {
+  const stored = await prisma.passwordResetToken.findUnique({
+    where: { token_hash: hashToken(token) }
+  });
+
+  if (!stored || stored.used_at || stored.expires_at <= new Date()) {
+    return false;
+  }
+
+  const passwordHash = await hashPassword(password);
+
+  const isReset = await prisma.$transaction(async (tx) => {
+    // Повторная проверка used_at не дает использовать ссылку дважды при параллельных запросах
+    const { count } = await tx.passwordResetToken.updateMany({
+      where: { id: stored.id, used_at: null },
+      data: { used_at: new Date() }
+    });
+
+    if (count === 0) {
+      return false;
+    }
+
+    await tx.user.update({
+      where: { id: stored.user_id },
+      data: { password_hash: passwordHash }
+    });
+
+    await tx.apiToken.updateMany({
+      where: { user_id: stored.user_id, revoked_at: null },
+      data: { revoked_at: new Date() }
+    });
+
+    return true;
+  });
+
+  if (isReset) {
+    await revokeUserSessions(stored.user_id);
+  }
+
+  return isReset;
+};
@@ -0,0 +1,82 @@
+import type { UserRole } from '@prisma/client';
+
+// Модель прав: каждой роли соответствует фиксированный набор разрешений.
+// Модуль без серверных зависимостей — используется в API, middleware и на клиенте
+export type Permission =
+  | 'admin:access'
+  | 'stats:view'
+  | 'media:view'
+  | 'media:edit'
+  | 'users:view'
+  | 'users:block'
+  | 'users:roles'
+  | 'parser:view'
+  | 'parser:run'
+  | 'parser:settings';
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  USER: [],
+  MODERATOR: ['admin:access', 'stats:view', 'media:view', 'users:view', 'users:block'],
+  EDITOR: ['admin:access', 'stats:view', 'media:view', 'media:edit'],
+  PARSER_OPERATOR: ['admin:access', 'stats:view', 'media:view', 'parser:view', 'parser:run', 'parser:settings'],
+  ADMIN: [
+    'admin:access',
+    'stats:view',
+    'media:view',
+    'media:edit',
+    'users:view',
+    'users:block',
+    'users:roles',
+    'parser:view',
+    'parser:run',
+    'parser:settings'
+  ]
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  USER: 'Пользователь',
+  MODERATOR: 'Модератор',
+  EDITOR: 'Редактор контента',
+  PARSER_OPERATOR: 'Оператор парсера',
+  ADMIN: 'Администратор'
+};
+
+export const USER_ROLES = Object.keys(ROLE_PERMISSIONS) as UserRole[];
+
+export const isUserRole = (value: unknown): value is UserRole => {
+  return typeof value === 'string' && USER_ROLES.includes(value as UserRole);
+};
+
+export const hasPermission = (role: UserRole | null | undefined, permission: Permission): boolean => {
+  return Boolean(role && ROLE_PERMISSIONS[role]?.includes(permission));
+};
+
+// Разрешение, необходимое для раздела админ-панели; более длинный префикс проверяется первым
+const ADMIN_PAGE_PERMISSIONS: Array<[string, Permission]> = [
+  ['/admin/users', 'users:view'],
+  ['/admin/content', 'media:view'],
+  ['/admin/parser', 'parser:view'],
+  ['/admin/settings', 'parser:settings'],
+  ['/admin', 'admin:access']
+];
+
+export const getAdminPagePermission = (pathname: string): Permission => {
+  const match = ADMIN_PAGE_PERMISSIONS.find(([prefix]) => pathname === prefix || pathname.startsWith(`${prefix}/`));
+  return match ? match[1] : 'admin:access';
+};
+
+// Области действия персональных API-токенов. Токен дает доступ только к маршрутам,
+// которые явно объявили нужную область через requireScope
+export type ApiTokenScope = 'catalog:read' | 'profile:read' | 'profile:write';
+
+export const API_TOKEN_SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  'catalog:read': 'Чтение каталога',
+  'profile:read': 'Чтение профиля и списков',
+  'profile:write': 'Изменение профиля и списков'
+};
+
+export const API_TOKEN_SCOPES = Object.keys(API_TOKEN_SCOPE_LABELS) as ApiTokenScope[];
+
+export const isApiTokenScope = (value: unknown): value is ApiTokenScope => {
+  return typeof value === 'string' && API_TOKEN_SCOPES.includes(value as ApiTokenScope);
+};
@@ -0,0 +1,90 @@
+import { PendingRegistration } from '@prisma/client';
+import prisma from '../config/database';
+import { generateVerificationCode, hashPassword, hashToken } from './auth';
+
+const REGISTRATION_TTL = 24 * 60 * 60 * 1000; // заявка на регистрацию живет сутки
+const CODE_TTL = 10 * 60 * 1000; // 10 минут
+const RESEND_COOLDOWN = 60 * 1000; // не чаще одного письма в минуту
+
+// Секунды до возможности повторной отправки кода или null, если отправлять можно
+export const getResendCooldown = (pending: Pick<PendingRegistration, 'code_sent_at'>): number | null => {
+  const elapsed = Date.now() - pending.code_sent_at.getTime();
+  return elapsed < RESEND_COOLDOWN ? Math.ceil((RESEND_COOLDOWN - elapsed) / 1000) : null;
+};
+
+const newCodeData = () => {
+  const code = generateVerificationCode();
+  const now = Date.now();
+
+  return {
+    code,
+    data: {
+      code_hash: hashToken(code),
+      code_expires_at: new Date(now + CODE_TTL),
+      code_attempts: 0,
+      code_sent_at: new Date(now),
+      expires_at: new Date(now + REGISTRATION_TTL)
+    }
+  };
+};
+
+// Создает или обновляет заявку на регистрацию. Пользователь появляется только после подтверждения email
+export const savePendingRegistration = async (email: string, username: string, password: string): Promise<string> => {
+  const passwordHash = await hashPassword(password);
+  const { code, data } = newCodeData();
+
+  await prisma.pendingRegistration.upsert({
+    where: { email },
+    create: { email, username, password_hash: passwordHash, ...data },
+    update: { username, password_hash: passwordHash, ...data }
+  });
+
+  return code;
+};
+
+export const refreshPendingCode = async (email: string): Promise<string> => {
+  const { code, data } = newCodeData();
+
+  await prisma.pendingRegistration.update({
+    where: { email },
+    data
+  });
+
+  return code;
+};
+
+export const isPendingCodeValid = (pending: PendingRegistration, code: string): boolean => {
+  return !!pending.code_hash
+    && !!pending.code_expires_at
+    && pending.code_expires_at > new Date()
+    && pending.code_hash === hashToken(code);
+};
+
+// Удаляет просроченные заявки и неподтвержденные аккаунты, созданные до перехода на заявки
+export const cleanupExpiredRegistrations = async (): Promise<{ pending: number; users: number }> => {
+  const { count: pending } = await prisma.pendingRegistration.deleteMany({
+    where: { expires_at: { lt: new Date() } }
+  });
+
+  const staleUsers = await prisma.user.findMany({
+    where: {
+      is_verified: false,
+      created_at: { lt: new Date(Date.now() - REGISTRATION_TTL) }
+    },
+    select: { id: true }
+  });
+
+  if (!staleUsers.length) {
+    return { pending, users: 0 };
+  }
+
+  const userIds = staleUsers.map(user => user.id);
+
+  const [, , { count: users }] = await prisma.$transaction([
+    prisma.userSettings.deleteMany({ where: { user_id: { in: userIds } } }),
+    prisma.userProfile.deleteMany({ where: { user_id: { in: userIds } } }),
+    prisma.user.deleteMany({ where: { id: { in: userIds }, is_verified: false } })
+  ]);
+
+  return { pending, users };
+};
@@ -0,0 +1,165 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { UserRole } from '@prisma/client';
+import prisma from '../config/database';
+import { verifyToken } from './auth';
+import { getClientIp } from './authThrottle';
+import { touchSession } from './session';
+import { isCsrfValid, isLegacyBearerEnabled } from './authCookies';
+import { ACCESS_TOKEN_COOKIE } from './apiFetch';
+import { ApiTokenScope, hasPermission, Permission } from './permissions';
+import { findActiveApiToken, isApiToken, touchApiToken } from './apiTokens';
+
+export interface AuthUser {
+  id: number;
+  role: UserRole;
+  sessionId: string;
+}
+
+// Пользователь маршрута, доступного и из браузера, и по API-токену
+export interface ScopedAuthUser {
+  id: number;
+  role: UserRole;
+  sessionId: string | null;
+  apiTokenId: number | null;
+}
+
+interface BlockState {
+  is_blocked: boolean;
+  blocked_reason?: string | null;
+  blocked_until: Date | null;
+}
+
+// Блокировка с истекшим сроком больше не действует
+export const isBlockActive = (user: BlockState): boolean => {
+  return user.is_blocked && (!user.blocked_until || user.blocked_until > new Date());
+};
+
+export const sendBlocked = (res: NextApiResponse, user: BlockState) => {
+  return res.status(403).json({
+    error: 'Аккаунт заблокирован',
+    reason: user.blocked_reason || null,
+    blockedUntil: user.blocked_until
+  });
+};
+
+export const getBearerToken = (req: NextApiRequest): string | null => {
+  return req.headers.authorization?.split(' ')[1] || null;
+};
+
+// Общая проверка для API-маршрутов: токен, активная сессия, существование и блокировка пользователя.
+// При отказе сама отправляет ответ и возвращает null
+export const requireAuth = async (req: NextApiRequest, res: NextApiResponse): Promise<AuthUser | null> => {
+  // API-токены принимаются только маршрутами, объявившими область через requireScope
+  const rawBearer = getBearerToken(req);
+  if (rawBearer && isApiToken(rawBearer)) {
+    res.status(403).json({ error: 'Маршрут недоступен для API-токенов' });
+    return null;
+  }
+
+  const bearerToken = isLegacyBearerEnabled() ? rawBearer : null;
+  const token = bearerToken || req.cookies[ACCESS_TOKEN_COOKIE];
+  if (!token) {
+    res.status(401).json({ error: 'Требуется авторизация' });
+    return null;
+  }
+
+  // Cookie браузер отправляет сам, поэтому для нее нужен CSRF-токен; Bearer-заголовок — нет
+  if (!bearerToken && !isCsrfValid(req)) {
+    res.status(403).json({ error: 'Недействительный CSRF-токен' });
+    return null;
+  }
+
+  const payload = verifyToken(token);
+  if (!payload || typeof payload.userId !== 'number' || !payload.sid) {
+    res.status(401).json({ error: 'Недействительный токен' });
+    return null;
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: payload.sid },
+    include: {
+      user: {
+        select: {
+          id: true,
+          role: true,
+          is_blocked: true,
+          blocked_reason: true,
+          blocked_until: true
+        }
+      }
+    }
+  });
+
+  // Отозванная сессия отклоняется сразу, не дожидаясь истечения access-токена
+  if (!session || session.revoked_at || session.user_id !== payload.userId) {
+    res.status(401).json({ error: 'Сессия завершена' });
+    return null;
+  }
+
+  const { user } = session;
+
+  if (isBlockActive(user)) {
+    sendBlocked(res, user);
+    return null;
+  }
+
+  await touchSession(session, getClientIp(req));
+
+  return { id: user.id, role: user.role, sessionId: session.id };
+};
+
+// requireAuth с проверкой разрешения роли; без нужного права отвечает 403
+export const requirePermission = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+  permission: Permission
+): Promise<AuthUser | null> => {
+  const user = await requireAuth(req, res);
+  if (!user) {
+    return null;
+  }
+
+  if (!hasPermission(user.role, permission)) {
+    res.status(403).json({ error: 'Недостаточно прав' });
+    return null;
+  }
+
+  return user;
+};
+
+// requireAuth, который дополнительно принимает персональный API-токен с нужной областью.
+// Браузерная сессия проходит без ограничений по областям
+export const requireScope = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+  scope: ApiTokenScope
+): Promise<ScopedAuthUser | null> => {
+  const bearerToken = getBearerToken(req);
+
+  if (!bearerToken || !isApiToken(bearerToken)) {
+    const user = await requireAuth(req, res);
+    return user && { ...user, apiTokenId: null };
+  }
+
+  const apiToken = await findActiveApiToken(bearerToken);
+  if (!apiToken) {
+    res.status(401).json({ error: 'Недействительный API-токен' });
+    return null;
+  }
+
+  if (!apiToken.scopes.includes(scope)) {
+    res.status(403).json({ error: `API-токену не хватает области ${scope}` });
+    return null;
+  }
+
+  const { user } = apiToken;
+
+  if (isBlockActive(user)) {
+    sendBlocked(res, user);
+    return null;
+  }
+
+  await touchApiToken(apiToken, getClientIp(req));
+
+  return { id: user.id, role: user.role, sessionId: null, apiTokenId: apiToken.id };
+};
@@ -0,0 +1,15 @@
+// Произвольный адрес, относительно которого разбирается путь возврата
+const RETURN_BASE = 'http://return.invalid';
+
+// Путь для возврата после входа или продления сессии. Принимаются только пути этого же сайта,
+// чтобы ссылку нельзя было использовать как открытый редирект. new URL разбирает путь так же,
+// как браузер: «//host» и «/\host» ведут на другой сайт. Обратная косая черта и управляющие
+// символы в пути не нужны и отклоняются сразу
+export const getReturnPath = (next: unknown): string => {
+  if (typeof next !== 'string' || !next.startsWith('/') || /[\\\u0000-\u001f\u007f]/.test(next)) {
+    return '/';
+  }
+
+  const url = new URL(next, RETURN_BASE);
+  return url.origin === RETURN_BASE ? `${url.pathname}${url.search}${url.hash}` : '/';
+};
@@ -0,0 +1,267 @@
+import { NextApiRequest } from 'next';
+import { Prisma, UserRole } from '@prisma/client';
+import prisma from '../config/database';
+import { generateOpaqueToken, generateToken, hashToken } from './auth';
+import { getClientIp } from './authThrottle';
+
+const REFRESH_TOKEN_TTL = 30 * 24 * 60 * 60 * 1000; // 30 дней
+const LAST_SEEN_INTERVAL = 60 * 1000; // last_seen_at обновляется не чаще раза в минуту
+// Токен, замененный не раньше этого срока, считается обновленным параллельно, а не украденным:
+// две вкладки или продление страницы и apiFetch обновляют один и тот же токен одновременно
+const REUSE_GRACE_PERIOD = 30 * 1000;
+// Токен уже заменен или удален параллельным запросом, либо его хеш уже занят
+const TOKEN_CONFLICT_CODES = ['P2002', 'P2025'];
+
+// Токен успели ротировать раньше: повторное использование, а не сбой базы
+class RefreshTokenReusedError extends Error {}
+
+const isRefreshTokenReuse = (error: unknown): boolean =>
+  error instanceof RefreshTokenReusedError ||
+  (error instanceof Prisma.PrismaClientKnownRequestError && TOKEN_CONFLICT_CODES.includes(error.code));
+
+interface SessionTokens {
+  token: string;
+  refreshToken: string;
+}
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/YaBrowser/i, 'Яндекс Браузер'],
+  [/Edg\//i, 'Edge'],
+  [/OPR\/|Opera/i, 'Opera'],
+  [/Firefox\//i, 'Firefox'],
+  [/Chrome\//i, 'Chrome'],
+  [/Safari\//i, 'Safari']
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/Android/i, 'Android'],
+  [/iPhone|iPad|iPod/i, 'iOS'],
+  [/Windows/i, 'Windows'],
+  [/Mac OS X|Macintosh/i, 'macOS'],
+  [/Linux/i, 'Linux']
+];
+
+// Краткое описание устройства по User-Agent, например «Chrome, Windows»
+export const describeDevice = (userAgent?: string | null): string => {
+  if (!userAgent) {
+    return 'Неизвестное устройство';
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  return [browser, platform].filter(Boolean).join(', ') || 'Неизвестное устройство';
+};
+
+const issueRefreshToken = async (userId: number, sessionId: string): Promise<string> => {
+  const token = generateOpaqueToken();
+
+  await prisma.refreshToken.create({
+    data: {
+      user_id: userId,
+      token_hash: hashToken(token),
+      session_id: sessionId,
+      expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL)
+    }
+  });
+
+  return token;
+};
+
+// Новый вход: создает сессию устройства и выдает пару токенов
+export const startSession = async (
+  user: { id: number; role: UserRole },
+  req: NextApiRequest
+): Promise<SessionTokens> => {
+  const userAgent = req.headers['user-agent'] || null;
+
+  const session = await prisma.session.create({
+    data: {
+      user_id: user.id,
+      user_agent: userAgent,
+      device: describeDevice(userAgent),
+      ip: getClientIp(req)
+    }
+  });
+
+  const refreshToken = await issueRefreshToken(user.id, session.id);
+
+  return {
+    token: generateToken(user.id, session.id, user.role),
+    refreshToken
+  };
+};
+
+export const revokeSession = async (sessionId: string): Promise<void> => {
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.session.updateMany({
+      where: { id: sessionId, revoked_at: null },
+      data: { revoked_at: now }
+    }),
+    prisma.refreshToken.updateMany({
+      where: { session_id: sessionId, revoked_at: null },
+      data: { revoked_at: now }
+    })
+  ]);
+};
+
+// Завершает все сессии пользователя, кроме exceptSessionId, если он указан
+export const revokeUserSessions = async (userId: number, exceptSessionId?: string): Promise<number> => {
+  const now = new Date();
+  const sessionFilter = exceptSessionId ? { not: exceptSessionId } : undefined;
+
+  const [{ count }] = await prisma.$transaction([
+    prisma.session.updateMany({
+      where: { user_id: userId, revoked_at: null, id: sessionFilter },
+      data: { revoked_at: now }
+    }),
+    prisma.refreshToken.updateMany({
+      where: { user_id: userId, revoked_at: null, session_id: sessionFilter },
+      data: { revoked_at: now }
+    })
+  ]);
+
+  return count;
+};
+
+export const touchSession = async (session: { id: string; last_seen_at: Date }, ip?: string): Promise<void> => {
+  if (Date.now() - session.last_seen_at.getTime() < LAST_SEEN_INTERVAL) {
+    return;
+  }
+
+  await prisma.session.update({
+    where: { id: session.id },
+    data: { last_seen_at: new Date(), ...(ip && { ip }) }
+  });
+};
+
+// Обменивает refresh-токен на новую пару токенов той же сессии. Повторное использование
+// уже замененного токена означает его утечку, поэтому сессия отзывается целиком. Исключение —
+// токен, замененный только что: это параллельное обновление, и оно тоже получает новую пару.
+// Открытое значение преемника не хранится, поэтому выдается еще один токен той же сессии
+export const rotateRefreshToken = async (
+  token: string,
+  req: NextApiRequest
+): Promise<SessionTokens & { userId: number; sessionId: string } | null> => {
+  const findStored = () => prisma.refreshToken.findUnique({
+    where: { token_hash: hashToken(token) },
+    include: {
+      session: {
+        include: { user: { select: { role: true } } }
+      }
+    }
+  });
+  let stored = await findStored();
+
+  if (!stored || stored.session.revoked_at || stored.expires_at <= new Date()) {
+    return null;
+  }
+
+  const { user_id: userId, session_id: sessionId } = stored;
+  const { role } = stored.session.user;
+
+  const issueTokens = async (refreshToken: string) => {
+    await prisma.session.update({
+      where: { id: sessionId },
+      data: { last_seen_at: new Date(), ip: getClientIp(req) }
+    });
+
+    return { userId, sessionId, token: generateToken(userId, sessionId, role), refreshToken };
+  };
+
+  if (!stored.revoked_at) {
+    const nextToken = generateOpaqueToken();
+    const current = stored;
+
+    // Условие revoked_at: null защищает от одновременной ротации одного токена
+    const rotated = await prisma.$transaction(async (tx) => {
+      const next = await tx.refreshToken.create({
+        data: {
+          user_id: current.user_id,
+          token_hash: hashToken(nextToken),
+          session_id: current.session_id,
+          expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL)
+        }
+      });
+
+      const { count } = await tx.refreshToken.updateMany({
+        where: { id: current.id, revoked_at: null },
+        data: { revoked_at: new Date(), replaced_by: next.id }
+      });
+
+      if (count === 0) {
+        throw new RefreshTokenReusedError('Refresh token already rotated');
+      }
+
+      return next;
+    }).catch(error => {
+      // Таймаут или конфликт сериализации не означают кражу токена: сессия не отзывается
+      if (isRefreshTokenReuse(error)) return null;
+      throw error;
+    });
+
+    if (rotated) {
+      return issueTokens(nextToken);
+    }
+
+    // Токен заменил параллельный запрос между чтением и записью
+    stored = await findStored();
+    if (!stored?.revoked_at || stored.session.revoked_at) {
+      return null;
+    }
+  }
+
+  // Токен отозван выходом из сессии, а не заменен
+  if (!stored.replaced_by) {
+    return null;
+  }
+
+  if (Date.now() - stored.revoked_at.getTime() < REUSE_GRACE_PERIOD) {
+    return issueTokens(await issueRefreshToken(userId, sessionId));
+  }
+
+  console.warn(`Refresh token reuse detected for user ${userId}, revoking session ${sessionId}`);
+  await revokeSession(sessionId);
+  return null;
+};
+
+// Новый access-токен по действующему refresh-токену без его ротации. Нужен для продления по
+// переходу (GET), который может вызвать и чужая страница: ротация идет только через POST с CSRF
+export const resumeSession = async (
+  token: string,
+  req: NextApiRequest
+): Promise<{ token: string; userId: number; sessionId: string } | null> => {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { token_hash: hashToken(token) },
+    include: {
+      session: {
+        include: { user: { select: { role: true } } }
+      }
+    }
+  });
+
+  if (!stored || stored.revoked_at || stored.session.revoked_at || stored.expires_at <= new Date()) {
+    return null;
+  }
+
+  await touchSession(stored.session, getClientIp(req));
+
+  return {
+    userId: stored.user_id,
+    sessionId: stored.session_id,
+    token: generateToken(stored.user_id, stored.session_id, stored.session.user.role)
+  };
+};
+
+export const revokeRefreshToken = async (token: string): Promise<void> => {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { token_hash: hashToken(token) },
+    select: { session_id: true }
+  });
+
+  if (stored) {
+    await revokeSession(stored.session_id);
+  }
+};
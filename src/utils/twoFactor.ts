@@ -0,0 +1,192 @@
+import crypto from 'crypto';
+import { UserRole } from '@prisma/client';
+import prisma from '../config/database';
+import { hashToken } from './auth';
+import { hasPermission } from './permissions';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_ISSUER = 'MediaApp';
+const TOTP_PERIOD = 30; // секунд
+const TOTP_DIGITS = 6;
+const TOTP_WINDOW = 1; // допускаем расхождение часов на один шаг в обе стороны
+const BACKUP_CODES_COUNT = 10;
+
+interface TwoFactorState {
+  id: number;
+  totp_secret: string | null;
+  totp_last_step: number | null;
+}
+
+// Политика: все роли с доступом к админ-панели обязаны использовать 2FA,
+// если REQUIRE_ADMIN_2FA не выключен явно
+export const isTwoFactorRequired = (role: UserRole): boolean => {
+  return hasPermission(role, 'admin:access') && process.env.REQUIRE_ADMIN_2FA !== 'false';
+};
+
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of Array.from(buffer)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of input.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) continue;
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+// HOTP по RFC 4226 с динамическим усечением
+const generateHotp = (secret: Buffer, counter: number): string => {
+  const message = Buffer.alloc(8);
+  message.writeUInt32BE(Math.floor(counter / 0x100000000), 0);
+  message.writeUInt32BE(counter % 0x100000000, 4);
+
+  const hmac = crypto.createHmac('sha1', secret).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % Math.pow(10, TOTP_DIGITS)).toString().padStart(TOTP_DIGITS, '0');
+};
+
+export const generateTotpSecret = (): string => {
+  return base32Encode(crypto.randomBytes(20));
+};
+
+export const buildOtpAuthUrl = (secret: string, accountName: string): string => {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD)
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+// Возвращает шаг времени, которому соответствует код, или null.
+// Шаги не новее lastStep отклоняются, чтобы один код нельзя было использовать дважды
+export const verifyTotp = (secret: string, code: string, lastStep: number | null = null): number | null => {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_PERIOD);
+
+  for (let step = currentStep - TOTP_WINDOW; step <= currentStep + TOTP_WINDOW; step++) {
+    if (lastStep !== null && step <= lastStep) continue;
+    const expected = generateHotp(key, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+};
+
+const normalizeBackupCode = (code: string): string => {
+  return code.replace(/[\s-]/g, '').toLowerCase();
+};
+
+// Выдает новый набор резервных кодов взамен прежних. Коды показываются пользователю один раз,
+// в БД хранятся только их хеши
+export const regenerateBackupCodes = async (userId: number): Promise<string[]> => {
+  const codes = Array.from({ length: BACKUP_CODES_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  await prisma.$transaction([
+    prisma.twoFactorBackupCode.deleteMany({ where: { user_id: userId } }),
+    prisma.twoFactorBackupCode.createMany({
+      data: codes.map(code => ({
+        user_id: userId,
+        code_hash: hashToken(normalizeBackupCode(code))
+      }))
+    })
+  ]);
+
+  return codes;
+};
+
+export const countBackupCodes = async (userId: number): Promise<number> => {
+  return prisma.twoFactorBackupCode.count({
+    where: { user_id: userId, used_at: null }
+  });
+};
+
+const consumeBackupCode = async (userId: number, code: string): Promise<boolean> => {
+  // updateMany с условием used_at: null не дает использовать код дважды при параллельных запросах
+  const { count } = await prisma.twoFactorBackupCode.updateMany({
+    where: {
+      user_id: userId,
+      code_hash: hashToken(normalizeBackupCode(code)),
+      used_at: null
+    },
+    data: { used_at: new Date() }
+  });
+  return count > 0;
+};
+
+// Проверяет TOTP-код по секрету пользователя и запоминает использованный шаг
+export const confirmTotp = async (user: TwoFactorState, code: string): Promise<boolean> => {
+  if (!user.totp_secret) {
+    return false;
+  }
+
+  const step = verifyTotp(user.totp_secret, code, user.totp_last_step);
+  if (step === null) {
+    return false;
+  }
+
+  const { count } = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [{ totp_last_step: null }, { totp_last_step: { lt: step } }]
+    },
+    data: { totp_last_step: step }
+  });
+  return count > 0;
+};
+
+// Второй фактор при входе: код из приложения или один из резервных кодов
+export const verifySecondFactor = async (user: TwoFactorState, code: string): Promise<boolean> => {
+  if (await confirmTotp(user, code)) {
+    return true;
+  }
+  return consumeBackupCode(user.id, code);
+};